@@ -0,0 +1,132 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { getSetting } from "./db";
+import { MetadataField } from "./metadata";
+
+const GEMINI_MODEL = "gemini-2.5-flash";
+// A slow model must never hold up a sync run; the post goes out without it.
+const ENRICH_TIMEOUT_MS = 15 * 1000;
+// Enough of the post for the model to work with, without paying for the whole page
+const MAX_INPUT_CHARS = 6000;
+
+export type AiProviderName = "off" | "gemini" | "stub";
+
+export interface EnrichmentInput {
+  title: string;
+  text: string;
+  // Fields the HTML extraction could not find
+  missing: MetadataField[];
+}
+
+export interface Enrichment {
+  hook: string | null;
+  fields: Partial<Record<MetadataField, string>>;
+}
+
+export interface CaptionProvider {
+  name: string;
+  enrich(input: EnrichmentInput, signal: AbortSignal): Promise<Enrichment>;
+}
+
+export class AiTimeoutError extends Error {}
+
+const buildPrompt = ({ title, text, missing }: EnrichmentInput) =>
+  [
+    "You write captions for a Telegram channel that shares movie posts.",
+    "Write one short hook line (at most 120 characters, no hashtags, no emojis) that makes people want to open the post.",
+    missing.length
+      ? `Also fill in these fields if, and only if, the post states them: ${missing.join(", ")}. Leave a field out rather than guess.`
+      : "",
+    "",
+    `Title: ${title}`,
+    "Post:",
+    text.slice(0, MAX_INPUT_CHARS),
+  ].join("\n");
+
+export const createGeminiProvider = (apiKey: string): CaptionProvider => {
+  const client = new GoogleGenAI({ apiKey });
+
+  return {
+    name: "gemini",
+    async enrich(input, signal) {
+      const response = await client.models.generateContent({
+        model: GEMINI_MODEL,
+        contents: buildPrompt(input),
+        config: {
+          abortSignal: signal,
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              hook: { type: Type.STRING },
+              ...Object.fromEntries(input.missing.map((field) => [field, { type: Type.STRING }])),
+            },
+            required: ["hook"],
+          },
+        },
+      });
+
+      const data = JSON.parse(response.text || "{}");
+      const fields: Enrichment["fields"] = {};
+      for (const field of input.missing) {
+        if (typeof data[field] === "string" && data[field].trim()) fields[field] = data[field].trim();
+      }
+      return { hook: typeof data.hook === "string" && data.hook.trim() ? data.hook.trim() : null, fields };
+    },
+  };
+};
+
+// Deterministic stand-in for offline development: the hook is the opening
+// sentence of the post, and missing fields are read from "Label: value" lines.
+export const createStubProvider = (): CaptionProvider => ({
+  name: "stub",
+  async enrich({ title, text, missing }) {
+    const sentence = text.match(/^[^.!?]{10,}[.!?]/)?.[0].trim();
+    const fields: Enrichment["fields"] = {};
+    for (const field of missing) {
+      const label = field === "imdb" ? "imdb(?: rating)?" : field;
+      const match = text.match(new RegExp(`\\b${label}\\s*[:\\-]\\s*([^\\n|•]{1,80})`, "i"));
+      if (match) fields[field] = match[1].trim();
+    }
+    return { hook: (sentence || `New on the channel: ${title}`).slice(0, 120), fields };
+  },
+});
+
+export const getAiProviderName = async (): Promise<AiProviderName> => {
+  const name = await getSetting("AI_PROVIDER");
+  return name === "gemini" || name === "stub" ? name : "off";
+};
+
+export const getCaptionProvider = async (): Promise<CaptionProvider | null> => {
+  const name = await getAiProviderName();
+  if (name === "stub") return createStubProvider();
+  if (name === "gemini") {
+    const apiKey = await getSetting("GEMINI_API_KEY");
+    if (apiKey) return createGeminiProvider(apiKey);
+    console.error("AI captions are set to Gemini but GEMINI_API_KEY is not configured.");
+  }
+  return null;
+};
+
+// Never throws: any failure leaves the caption to the extracted fields alone.
+export async function enrichWithAi(input: EnrichmentInput, configured?: CaptionProvider | null): Promise<Enrichment | null> {
+  const provider = configured === undefined ? await getCaptionProvider() : configured;
+  if (!provider) return null;
+
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new AiTimeoutError(`${provider.name} did not answer within ${ENRICH_TIMEOUT_MS / 1000}s`));
+    }, ENRICH_TIMEOUT_MS);
+  });
+
+  try {
+    return await Promise.race([provider.enrich(input, controller.signal), timeout]);
+  } catch (err: any) {
+    console.error("AI Caption Error:", err.message || err);
+    return null;
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,114 @@
+import { db, getSetting } from "./db";
+import { getTrackingBaseUrl } from "./links";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_DAYS = 365;
+const MAX_POSTS = 50;
+const TOP_MOVIES = 10;
+
+export interface PostClicks {
+  postId: string;
+  title: string | null;
+  url: string;
+  // First delivery, from the history
+  sentAt: string | null;
+  genre: string | null;
+  imdb: string | null;
+  clicks: number;
+  destinations: Array<{ destinationId: number | null; destination: string | null; clicks: number }>;
+}
+
+// Timestamps are stored as SQLite's CURRENT_TIMESTAMP, in UTC without a zone
+const toSqlTime = (date: Date) => date.toISOString().replace("T", " ").slice(0, 19);
+
+// Clicks on tracked links over the last `days` days, by day, by destination
+// and by post. Posts are the ones sent in the period plus older ones still
+// being clicked, so a post that nobody opened shows up with no clicks.
+export const getClickAnalytics = async (days = 30) => {
+  const period = Math.min(Math.max(Math.floor(days) || 30, 1), MAX_DAYS);
+  const start = new Date(Date.now() - (period - 1) * DAY_MS);
+  start.setUTCHours(0, 0, 0, 0);
+  const since = toSqlTime(start);
+
+  const counts = new Map(
+    (
+      (await db
+        .prepare("SELECT date(clicked_at) as day, COUNT(*) as clicks FROM link_clicks WHERE clicked_at >= ? GROUP BY day")
+        .all(since)) as Array<{ day: string; clicks: number }>
+    ).map(({ day, clicks }) => [day, clicks])
+  );
+  const perDay = Array.from({ length: period }, (_, index) => {
+    const day = new Date(start.getTime() + index * DAY_MS).toISOString().slice(0, 10);
+    return { day, clicks: counts.get(day) ?? 0 };
+  });
+
+  const perDestination = (await db
+    .prepare(
+      `SELECT l.destination_id as destinationId, d.name as destination, COUNT(c.id) as clicks,
+         COUNT(DISTINCT CASE WHEN c.id IS NOT NULL THEN l.post_id END) as posts
+       FROM tracked_links l
+       LEFT JOIN link_clicks c ON c.code = l.code AND c.clicked_at >= ?
+       LEFT JOIN destinations d ON d.id = l.destination_id
+       GROUP BY l.destination_id ORDER BY clicks DESC`
+    )
+    .all(since)) as Array<{ destinationId: number | null; destination: string | null; clicks: number; posts: number }>;
+
+  const rows = (await db
+    .prepare(
+      `SELECT l.post_id, l.destination_id, d.name as destination, l.title, l.url, COUNT(c.id) as clicks,
+         (SELECT MIN(h.created_at) FROM delivery_history h WHERE h.post_id = l.post_id AND h.status = 'sent') as sent_at,
+         (SELECT s.metadata FROM synced_posts s WHERE s.post_id = l.post_id AND s.metadata IS NOT NULL LIMIT 1) as metadata
+       FROM tracked_links l
+       LEFT JOIN link_clicks c ON c.code = l.code AND c.clicked_at >= ?
+       LEFT JOIN destinations d ON d.id = l.destination_id
+       GROUP BY l.code
+       HAVING clicks > 0 OR sent_at >= ?`
+    )
+    .all(since, since)) as Array<{
+    post_id: string;
+    destination_id: number | null;
+    destination: string | null;
+    title: string | null;
+    url: string;
+    clicks: number;
+    sent_at: string | null;
+    metadata: string | null;
+  }>;
+
+  const posts = new Map<string, PostClicks>();
+  for (const row of rows) {
+    let post = posts.get(row.post_id);
+    if (!post) {
+      const metadata = row.metadata ? JSON.parse(row.metadata) : {};
+      post = {
+        postId: row.post_id,
+        title: row.title,
+        url: row.url,
+        sentAt: row.sent_at,
+        genre: metadata.genre ?? null,
+        imdb: metadata.imdb ?? null,
+        clicks: 0,
+        destinations: [],
+      };
+      posts.set(row.post_id, post);
+    }
+    post.clicks += row.clicks;
+    post.destinations.push({ destinationId: row.destination_id, destination: row.destination, clicks: row.clicks });
+  }
+  const all = [...posts.values()];
+  for (const post of all) post.destinations.sort((a, b) => b.clicks - a.clicks);
+
+  return {
+    days: period,
+    tracking: { enabled: (await getSetting("CLICK_TRACKING")) === "on", baseUrl: getTrackingBaseUrl() },
+    totalClicks: perDay.reduce((total, { clicks }) => total + clicks, 0),
+    perDay,
+    perDestination,
+    // Newest first, to see how each recent post did
+    perPost: [...all].sort((a, b) => (b.sentAt || "").localeCompare(a.sentAt || "") || b.clicks - a.clicks).slice(0, MAX_POSTS),
+    topMovies: all
+      .filter((post) => post.clicks > 0)
+      .sort((a, b) => b.clicks - a.clicks)
+      .slice(0, TOP_MOVIES),
+  };
+};
@@ -0,0 +1,109 @@
+import crypto from "crypto";
+import type { NextFunction, Request, Response } from "express";
+
+const SESSION_COOKIE = "bs_session";
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export const hashPassword = (password: string) => {
+  const salt = crypto.randomBytes(16);
+  const hash = crypto.scryptSync(password, salt, 64);
+  return `scrypt:${salt.toString("hex")}:${hash.toString("hex")}`;
+};
+
+export const safeEqual = (a: Buffer, b: Buffer) => a.length === b.length && crypto.timingSafeEqual(a, b);
+
+export const verifyPassword = (password: string, stored: string) => {
+  const [scheme, saltHex, hashHex] = stored.split(":");
+  if (scheme !== "scrypt" || !saltHex || !hashHex) {
+    console.error("ADMIN_PASSWORD_HASH is not in the expected scrypt:<salt>:<hash> format");
+    return false;
+  }
+  const expected = Buffer.from(hashHex, "hex");
+  const actual = crypto.scryptSync(password, Buffer.from(saltHex, "hex"), expected.length);
+  return safeEqual(actual, expected);
+};
+
+export const isAuthDisabled = () => process.env.AUTH_DISABLED === "true";
+
+export const isAuthConfigured = () => !!(process.env.ADMIN_PASSWORD_HASH || process.env.ADMIN_API_TOKEN);
+
+// Sessions are stateless signed cookies so they survive serverless cold starts.
+// Without an explicit SESSION_SECRET, rotating the admin credentials also
+// invalidates every existing session.
+const getSessionSecret = () =>
+  process.env.SESSION_SECRET ||
+  crypto
+    .createHash("sha256")
+    .update(`${process.env.ADMIN_PASSWORD_HASH || ""}:${process.env.ADMIN_API_TOKEN || ""}`)
+    .digest("hex");
+
+const sign = (payload: string) => crypto.createHmac("sha256", getSessionSecret()).update(payload).digest("base64url");
+
+const createSessionToken = () => {
+  const payload = `${Date.now() + SESSION_TTL_MS}.${crypto.randomBytes(12).toString("base64url")}`;
+  return `${payload}.${sign(payload)}`;
+};
+
+const verifySessionToken = (token: string) => {
+  const lastDot = token.lastIndexOf(".");
+  if (lastDot === -1) return false;
+  const payload = token.slice(0, lastDot);
+  const signature = token.slice(lastDot + 1);
+  if (!safeEqual(Buffer.from(signature), Buffer.from(sign(payload)))) return false;
+  return Number(payload.split(".")[0]) > Date.now();
+};
+
+const readCookie = (req: Request, name: string) => {
+  const header = req.headers.cookie;
+  if (!header) return null;
+  for (const part of header.split(";")) {
+    const [key, ...rest] = part.trim().split("=");
+    if (key === name) return decodeURIComponent(rest.join("="));
+  }
+  return null;
+};
+
+export const checkAdminPassword = (password: string) => {
+  const hash = process.env.ADMIN_PASSWORD_HASH;
+  const token = process.env.ADMIN_API_TOKEN;
+  if (hash && verifyPassword(password, hash)) return true;
+  // The API token doubles as a login password when no hash is configured
+  if (!hash && token) return safeEqual(Buffer.from(password), Buffer.from(token));
+  return false;
+};
+
+export const setSessionCookie = (req: Request, res: Response) => {
+  res.cookie(SESSION_COOKIE, createSessionToken(), {
+    httpOnly: true,
+    sameSite: "strict",
+    secure: req.secure || req.headers["x-forwarded-proto"] === "https",
+    maxAge: SESSION_TTL_MS,
+    path: "/",
+  });
+};
+
+export const clearSessionCookie = (res: Response) => {
+  res.clearCookie(SESSION_COOKIE, { path: "/" });
+};
+
+export const isAuthenticated = (req: Request) => {
+  if (isAuthDisabled()) return true;
+  if (!isAuthConfigured()) return false;
+
+  const authHeader = req.headers.authorization;
+  const apiToken = process.env.ADMIN_API_TOKEN;
+  if (apiToken && authHeader?.startsWith("Bearer ")) {
+    return safeEqual(Buffer.from(authHeader.slice(7).trim()), Buffer.from(apiToken));
+  }
+
+  const session = readCookie(req, SESSION_COOKIE);
+  return !!session && verifySessionToken(session);
+};
+
+export const requireAuth = (req: Request, res: Response, next: NextFunction) => {
+  if (isAuthenticated(req)) return next();
+  if (!isAuthConfigured()) {
+    return res.status(401).json({ error: "Authentication is not configured. Set ADMIN_PASSWORD_HASH or ADMIN_API_TOKEN on the server." });
+  }
+  res.status(401).json({ error: "Authentication required" });
+};
@@ -0,0 +1,154 @@
+import { db } from "./db";
+import { SourceError, SourcePost, sortChronologically } from "./source";
+import { resolveSyncConfig, resolveTargets } from "./sync";
+import { deliverOutboxItem, getDueOutboxItemsForPost, routePost } from "./outbox";
+
+// Pause between sends so a large backfill stays under Telegram's per-channel rate limit.
+const SEND_DELAY_MS = 3000;
+
+export type BackfillStatus = "running" | "completed" | "cancelled" | "failed";
+
+export interface BackfillJob {
+  id: number;
+  status: BackfillStatus;
+  start_date: string;
+  end_date: string;
+  total: number;
+  processed: number;
+  sent: number;
+  // Posts that had nothing due: every destination already had them, they
+  // were younger than the minimum age, or a filter or routing rule skipped them
+  already_synced: number;
+  held: number;
+  filtered: number;
+  failed: number;
+  error: string | null;
+  created_at: string;
+  finished_at: string | null;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export const getBackfillJob = async (id: number) =>
+  (await db.prepare("SELECT * FROM backfill_jobs WHERE id = ?").get(id)) as BackfillJob | undefined;
+
+export const getLatestBackfillJob = async () =>
+  ((await db.prepare("SELECT * FROM backfill_jobs ORDER BY id DESC LIMIT 1").get()) as BackfillJob | undefined) ?? null;
+
+const updateJob = async (id: number, fields: Partial<Omit<BackfillJob, "id">>) => {
+  const entries = Object.entries(fields);
+  await db.prepare(`UPDATE backfill_jobs SET ${entries.map(([key]) => `${key} = ?`).join(", ")} WHERE id = ?`).run(
+    ...entries.map(([, value]) => value),
+    id
+  );
+};
+
+const finishJob = async (id: number, status: BackfillStatus, error: string | null = null) => {
+  await db.prepare("UPDATE backfill_jobs SET status = ?, error = ?, finished_at = CURRENT_TIMESTAMP WHERE id = ?").run(status, error, id);
+};
+
+async function runBackfill(id: number) {
+  try {
+    const job = (await getBackfillJob(id))!;
+    const { sources: active, destinations } = await resolveTargets(resolveSyncConfig());
+    const targets = new Map(destinations.map((target) => [target.destination.id, target]));
+
+    console.log(`Backfill #${id}: fetching posts from ${job.start_date} to ${job.end_date}...`);
+    const fetched: SourcePost[] = [];
+    for (const { source, adapter } of active) {
+      try {
+        fetched.push(...(await adapter.listPosts({ since: job.start_date, until: job.end_date })));
+      } catch (err: any) {
+        if (!(err instanceof SourceError)) throw err;
+        // Feeds and sites that are down are skipped; the rest of the range still goes out
+        console.error(`Backfill #${id}: ${source.name} failed:`, err.message);
+      }
+    }
+    const posts = sortChronologically(fetched);
+    await updateJob(id, { total: posts.length });
+
+    let processed = 0, sent = 0, failed = 0;
+    let alreadySynced = 0, held = 0, filtered = 0;
+
+    for (const post of posts) {
+      if ((await getBackfillJob(id))?.status !== "running") {
+        console.log(`Backfill #${id} cancelled after ${processed} posts.`);
+        return;
+      }
+
+      // Destinations that already have the post, or whose rules it fails, have nothing due
+      const route = await routePost(post, destinations);
+      const due = (await getDueOutboxItemsForPost(post.id)).filter((item) => targets.has(item.destination_id!));
+
+      if (due.length === 0) {
+        if (route.held) held++;
+        else if (route.skipped > 0) filtered++;
+        else alreadySynced++;
+      } else {
+        // Counted as sent only once every destination has it; transient
+        // failures stay queued and are retried by the regular sync
+        let delivered = true;
+        for (const item of due) {
+          const outcome = await deliverOutboxItem(item, targets.get(item.destination_id!)!);
+          if (outcome.status !== "sent") delivered = false;
+          await sleep(SEND_DELAY_MS);
+        }
+        if (delivered) sent++;
+        else failed++;
+      }
+
+      processed++;
+      await updateJob(id, { processed, sent, already_synced: alreadySynced, held, filtered, failed });
+    }
+
+    await finishJob(id, "completed");
+    console.log(
+      `Backfill #${id} complete: ${sent} sent, ${alreadySynced} already synced, ${held} held, ${filtered} filtered out, ${failed} failed.`
+    );
+  } catch (err: any) {
+    console.error(`Backfill #${id} failed:`, err);
+    await finishJob(id, "failed", err.message).catch((finishErr) => console.error("Backfill Error:", finishErr));
+  }
+}
+
+// Dates are inclusive calendar days (YYYY-MM-DD) in UTC.
+export const startBackfill = async (startDay: string, endDay: string) => {
+  const startDate = new Date(`${startDay}T00:00:00Z`);
+  const endDate = new Date(`${endDay}T23:59:59Z`);
+  if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+    throw new Error("startDate and endDate must be dates in YYYY-MM-DD format");
+  }
+  if (startDate > endDate) {
+    throw new Error("startDate must not be after endDate");
+  }
+
+  // In one transaction so two requests cannot both start a job
+  const id = await db.transaction(async () => {
+    const active = (await db.prepare("SELECT id FROM backfill_jobs WHERE status = 'running'").get()) as { id: number } | undefined;
+    if (active) {
+      throw new Error(`Backfill #${active.id} is already running`);
+    }
+    const { lastInsertRowid } = await db
+      .prepare("INSERT INTO backfill_jobs (status, start_date, end_date) VALUES ('running', ?, ?)")
+      .run(startDate.toISOString(), endDate.toISOString());
+    return Number(lastInsertRowid);
+  });
+
+  // Runs in the background; progress is read back through getBackfillJob
+  runBackfill(id);
+  return (await getBackfillJob(id))!;
+};
+
+export const cancelBackfill = async (id: number) => {
+  const job = await getBackfillJob(id);
+  if (!job) return null;
+  if (job.status === "running") await finishJob(id, "cancelled");
+  return (await getBackfillJob(id))!;
+};
+
+// Jobs left "running" by a previous process can never finish.
+export const recoverInterruptedBackfills = async () => {
+  await db.prepare(
+    "UPDATE backfill_jobs SET status = 'failed', error = 'Interrupted by server restart', finished_at = CURRENT_TIMESTAMP WHERE status = 'running'"
+  ).run();
+};
@@ -0,0 +1,144 @@
+import { SourceAdapter, SourceError, SourcePost } from "./source";
+
+const BLOGGER_API = "https://www.googleapis.com/blogger/v3";
+
+export interface PostListOptions {
+  startDate?: string;
+  endDate?: string;
+  orderBy?: "published" | "updated";
+  maxResults?: number;
+  // Stop paginating once this many posts have been collected
+  limit?: number;
+}
+
+export class BloggerError extends SourceError {}
+
+const request = async (url: string) => {
+  try {
+    return await fetch(url);
+  } catch (err: any) {
+    throw new BloggerError(`Blogger API Error: ${err.message}`);
+  }
+};
+
+async function fetchPostsPage(apiKey: string, blogId: string, options: PostListOptions, pageToken?: string) {
+  const params = new URLSearchParams({ key: apiKey, maxResults: String(options.maxResults ?? 10) });
+  if (options.startDate) params.set("startDate", options.startDate);
+  if (options.endDate) params.set("endDate", options.endDate);
+  if (options.orderBy) params.set("orderBy", options.orderBy);
+  if (pageToken) params.set("pageToken", pageToken);
+
+  const response = await request(`${BLOGGER_API}/blogs/${blogId}/posts?${params}`);
+  const data = await response.json().catch(() => null);
+
+  if (!data || data.error) {
+    console.error("Blogger API Error:", data?.error || response.status);
+    throw new BloggerError(`Blogger API Error: ${data?.error?.message || "Unknown error"}`);
+  }
+  return { items: (data.items || []) as any[], nextPageToken: data.nextPageToken as string | undefined };
+}
+
+// Follows nextPageToken until the listing (or `limit`) is exhausted. Blogger
+// returns newest first.
+export async function fetchPosts(apiKey: string, blogId: string, options: PostListOptions = {}) {
+  const posts: any[] = [];
+  let pageToken: string | undefined;
+
+  do {
+    const page = await fetchPostsPage(apiKey, blogId, options, pageToken);
+    posts.push(...page.items);
+    pageToken = page.nextPageToken;
+  } while (pageToken && (!options.limit || posts.length < options.limit));
+
+  return options.limit ? posts.slice(0, options.limit) : posts;
+}
+
+const normalizePost = (item: any, sourceId: number): SourcePost => ({
+  id: item.id,
+  sourceId,
+  title: item.title || "",
+  url: item.url || "",
+  content: item.content || "",
+  published: item.published,
+  updated: item.updated || null,
+  labels: item.labels || [],
+  images: (item.images || []).filter((image: any) => image?.url),
+});
+
+// Returns null when the list could not be fetched completely, so that a
+// partial response is never mistaken for deletions.
+async function listPublishedPostIds(apiKey: string, blogId: string) {
+  const ids = new Set<string>();
+  let pageToken: string | undefined;
+
+  do {
+    const params = new URLSearchParams({
+      key: apiKey,
+      maxResults: "500",
+      fetchBodies: "false",
+      status: "live",
+      fields: "items(id),nextPageToken",
+    });
+    if (pageToken) params.set("pageToken", pageToken);
+
+    const response = await request(`${BLOGGER_API}/blogs/${blogId}/posts?${params}`);
+    const data = await response.json().catch(() => null);
+    if (!response.ok || !data || data.error) {
+      console.error("Blogger API Error (reconcile):", data?.error || response.status);
+      return null;
+    }
+
+    for (const item of data.items || []) ids.add(item.id);
+    pageToken = data.nextPageToken;
+  } while (pageToken);
+
+  return ids;
+}
+
+// The blog's own record; the HTTP status is passed back so callers can tell
+// a bad API key from a wrong blog ID.
+export async function fetchBlogInfo(apiKey: string, blogId: string) {
+  const params = new URLSearchParams({ key: apiKey, fields: "id,name,url,posts(totalItems)" });
+  const response = await request(`${BLOGGER_API}/blogs/${encodeURIComponent(blogId)}?${params}`);
+  const data = await response.json().catch(() => null);
+  return { status: response.status, data };
+}
+
+export const createBloggerAdapter = (sourceId: number, apiKey: string, blogId: string): SourceAdapter => ({
+  async listPosts({ since, until, orderBy, limit } = {}) {
+    const items = await fetchPosts(apiKey, blogId, {
+      startDate: since,
+      endDate: until,
+      orderBy,
+      maxResults: Math.min(limit ?? 50, 50),
+      limit,
+    });
+    return items.map((item) => normalizePost(item, sourceId));
+  },
+
+  async getPost(id) {
+    const response = await request(`${BLOGGER_API}/blogs/${blogId}/posts/${encodeURIComponent(id)}?key=${apiKey}`);
+    if (response.status === 404) return null;
+    const data = await response.json().catch(() => null);
+
+    if (!data || data.error) {
+      throw new BloggerError(`Blogger API Error: ${data?.error?.message || "Unknown error"}`);
+    }
+    return data.status && data.status !== "LIVE" ? null : normalizePost(data, sourceId);
+  },
+
+  listPublishedIds: () => listPublishedPostIds(apiKey, blogId),
+
+  // A post missing from the listing is only treated as removed once Blogger
+  // confirms it can no longer be fetched. Blogger also answers 403 for quota,
+  // rate limit and key problems, so anything but a 404 is an error.
+  async isGone(id) {
+    const response = await request(`${BLOGGER_API}/blogs/${blogId}/posts/${encodeURIComponent(id)}?key=${apiKey}&fields=id,status`);
+    if (response.status === 404) return true;
+    const data = await response.json().catch(() => null);
+    if (!response.ok || !data || data.error) {
+      throw new BloggerError(`Blogger API Error: ${data?.error?.message || `HTTP ${response.status}`}`);
+    }
+    return !!data.status && data.status !== "LIVE";
+  },
+});
@@ -0,0 +1,211 @@
+import { db, getSetting, setSetting } from "./db";
+import { safeEqual } from "./auth";
+import { escapeHtml } from "./html";
+import { callTelegram, sendPost } from "./telegram";
+import { getOutboxCounts, retryOutboxItem } from "./outbox";
+import { getSchedulerStatus, pauseScheduler, resumeScheduler } from "./scheduler";
+import { runSync, SyncError, SyncInProgressError } from "./sync";
+import { previewPostByUrl } from "./preview";
+
+export type UpdateMode = "off" | "polling" | "webhook";
+
+// Telegram holds a long poll open this long when there is nothing to deliver
+const POLL_TIMEOUT_SECONDS = 25;
+const POLL_ERROR_DELAY_MS = 5000;
+
+const HELP = [
+  "<b>Commands</b>",
+  "/status: synced posts, queue and last run",
+  "/sync: run a sync now",
+  "/pause and /resume: stop or restart scheduled syncs",
+  "/preview &lt;post url&gt;: show how a post will look",
+  "/retry &lt;post id&gt;: queue a post's failed deliveries again",
+].join("\n");
+
+export const getUpdateMode = async (): Promise<UpdateMode> => {
+  const mode = await getSetting("TELEGRAM_UPDATES");
+  return mode === "polling" || mode === "webhook" ? mode : "off";
+};
+
+const getAdminIds = async () => ((await getSetting("TELEGRAM_ADMIN_IDS")) || "").split(/[\s,]+/).filter(Boolean);
+
+export const isValidWebhookSecret = async (header: string | undefined) => {
+  const secret = await getSetting("TELEGRAM_WEBHOOK_SECRET");
+  return !!secret && !!header && safeEqual(Buffer.from(header), Buffer.from(secret));
+};
+
+const reply = (botToken: string, chatId: number, text: string) =>
+  callTelegram(botToken, "sendMessage", { chat_id: chatId, text, parse_mode: "HTML", link_preview_options: { is_disabled: true } });
+
+const formatStatus = async () => {
+  const { count } = (await db.prepare("SELECT COUNT(DISTINCT post_id) as count FROM synced_posts").get()) as { count: number };
+  const outbox = await getOutboxCounts();
+  const scheduler = await getSchedulerStatus();
+  const lines = [
+    "📊 <b>Status</b>",
+    `Synced posts: ${count}`,
+    `Queue: ${outbox.pending} pending, ${outbox.failed} failed`,
+    scheduler.paused
+      ? "Scheduler: ⏸ paused"
+      : `Scheduler: next run ${scheduler.nextRunAt ? new Date(scheduler.nextRunAt).toUTCString() : "not scheduled"}`,
+  ];
+  if (scheduler.running) lines.push("A sync is running now.");
+  const last = scheduler.lastRun;
+  if (last) {
+    const outcome = last.error ? `failed: ${last.error}` : `${last.synced ?? 0} sent (${last.message})`;
+    lines.push(`Last scheduled run: ${new Date(last.at).toUTCString()}, ${escapeHtml(outcome)}`);
+  }
+  return lines.join("\n");
+};
+
+const syncNow = async () => {
+  try {
+    const result = await runSync();
+    const parts = [`${result.synced} sent`];
+    if (result.failed) parts.push(`${result.failed} failed`);
+    if (result.deferred) parts.push(`${result.deferred} queued for retry`);
+    if (result.updated) parts.push(`${result.updated} edited`);
+    if (result.removed) parts.push(`${result.removed} removed`);
+    return `✅ ${escapeHtml(result.message)}: ${parts.join(", ")}.`;
+  } catch (err) {
+    if (err instanceof SyncInProgressError) return "A sync is already running.";
+    throw err;
+  }
+};
+
+const preview = async (url: string, chatId: number, botToken: string) => {
+  if (!/^https?:\/\//i.test(url)) return "Usage: /preview &lt;post url&gt;";
+  const item = await previewPostByUrl(url);
+  if (!item) return "No enabled source has a recent post with that URL.";
+
+  const note = `👁 Preview for <b>${escapeHtml(item.destination)}</b> (${escapeHtml(item.target)})`;
+  await reply(botToken, chatId, item.reason ? `${note}\n⚠️ ${escapeHtml(item.reason)}` : note);
+  await sendPost(
+    botToken,
+    String(chatId),
+    { text: item.text!, caption: item.caption, imageUrl: item.imageUrl ?? undefined, imageUrls: item.imageUrls },
+    { album: item.imageUrls.length > 1, replyMarkup: item.buttons ? { inline_keyboard: item.buttons } : undefined }
+  );
+  return null;
+};
+
+const retry = async (postId: string) => {
+  if (!postId) return "Usage: /retry &lt;post id&gt;";
+  const failed = (await db.prepare("SELECT id FROM outbox WHERE post_id = ? AND status = 'failed'").all(postId)) as Array<{ id: number }>;
+  let retried = 0;
+  for (const { id } of failed) {
+    if (await retryOutboxItem(id)) retried++;
+  }
+  if (retried === 0) return `No failed deliveries for post <code>${escapeHtml(postId)}</code>.`;
+  return `🔁 Queued ${retried} ${retried === 1 ? "delivery" : "deliveries"} of <code>${escapeHtml(postId)}</code> for the next sync.`;
+};
+
+// Each command resolves to the reply, or null when it already replied itself
+const COMMANDS: Record<string, (args: string, chatId: number, botToken: string) => Promise<string | null> | string | null> = {
+  start: () => HELP,
+  help: () => HELP,
+  status: formatStatus,
+  sync: syncNow,
+  pause: async () => {
+    await pauseScheduler();
+    return "⏸ Scheduled syncs paused. /resume to start them again.";
+  },
+  resume: async () => {
+    await resumeScheduler();
+    return "▶️ Scheduled syncs resumed.";
+  },
+  preview,
+  retry,
+};
+
+// Handles one update from polling or the webhook. Telegram redelivers a
+// webhook update until it is answered, so the last one seen is ignored; IDs
+// are not compared otherwise, since they restart after a quiet week.
+export async function handleUpdate(update: any) {
+  const updateId = Number(update?.update_id);
+  if (!Number.isFinite(updateId) || String(updateId) === (await getSetting("TELEGRAM_LAST_UPDATE_ID"))) return;
+  await setSetting("TELEGRAM_LAST_UPDATE_ID", String(updateId));
+
+  const message = update.message;
+  const match = typeof message?.text === "string" ? message.text.match(/^\/(\w+)(?:@\w+)?\s*([\s\S]*)$/) : null;
+  const botToken = await getSetting("TELEGRAM_BOT_TOKEN");
+  if (!match || !botToken) return;
+
+  const [, name, args] = match;
+  const chatId: number = message.chat.id;
+  const userId = message.from?.id;
+  if (!userId || !(await getAdminIds()).includes(String(userId))) {
+    console.log(`Rejected Telegram command /${name} from user ${userId ?? "unknown"}.`);
+    await reply(botToken, chatId, `⛔ You are not allowed to control this bot. Your Telegram user ID is <code>${userId ?? "unknown"}</code>.`);
+    return;
+  }
+
+  const command = COMMANDS[name.toLowerCase()];
+  console.log(`Telegram command /${name} from user ${userId}.`);
+  try {
+    const text = command ? await command(args.trim(), chatId, botToken) : `Unknown command /${escapeHtml(name)}.\n\n${HELP}`;
+    if (text) await reply(botToken, chatId, text);
+  } catch (err: any) {
+    if (!(err instanceof SyncError)) console.error("Bot Command Error:", err);
+    await reply(botToken, chatId, `⚠️ ${escapeHtml(err.message || String(err))}`).catch(() => null);
+  }
+}
+
+// Bumped whenever polling is restarted or stopped, so a loop from an earlier
+// configuration ends after its current request instead of running alongside.
+let pollGeneration = 0;
+
+async function pollUpdates(generation: number) {
+  while (generation === pollGeneration) {
+    const botToken = await getSetting("TELEGRAM_BOT_TOKEN");
+    if (!botToken) return;
+    try {
+      const offset = Number((await getSetting("TELEGRAM_LAST_UPDATE_ID")) || 0) + 1;
+      const updates = await callTelegram(botToken, "getUpdates", { offset, timeout: POLL_TIMEOUT_SECONDS, allowed_updates: ["message"] });
+      for (const update of updates) {
+        if (generation !== pollGeneration) return;
+        await handleUpdate(update);
+      }
+    } catch (err: any) {
+      console.error("Telegram Polling Error:", err.message);
+      await new Promise((resolve) => setTimeout(resolve, POLL_ERROR_DELAY_MS));
+    }
+  }
+}
+
+// Applies the TELEGRAM_UPDATES setting: starts or stops polling, and
+// registers the webhook when the server knows its public URL (APP_URL).
+export async function configureBotUpdates() {
+  const generation = ++pollGeneration;
+  const mode = await getUpdateMode();
+  const botToken = await getSetting("TELEGRAM_BOT_TOKEN");
+  if (generation !== pollGeneration) return;
+  if (mode === "off") return;
+  if (!botToken) {
+    console.error("Telegram bot commands are enabled, but no bot token is configured.");
+    return;
+  }
+
+  try {
+    if (mode === "polling") {
+      // getUpdates is refused while a webhook is registered
+      await callTelegram(botToken, "deleteWebhook", {});
+      console.log("Listening for Telegram bot commands by long polling.");
+      pollUpdates(generation).catch((err) => console.error("Telegram Polling Error:", err.message));
+      return;
+    }
+
+    const secret = await getSetting("TELEGRAM_WEBHOOK_SECRET");
+    if (!secret) {
+      console.error("TELEGRAM_WEBHOOK_SECRET must be set before the Telegram webhook can be used.");
+    } else if (!process.env.APP_URL) {
+      console.log("Set APP_URL to register the Telegram webhook automatically, or call setWebhook for /api/telegram/webhook yourself.");
+    } else {
+      const url = `${process.env.APP_URL.replace(/\/+$/, "")}/api/telegram/webhook`;
+      await callTelegram(botToken, "setWebhook", { url, secret_token: secret, allowed_updates: ["message"] });
+      console.log(`Telegram webhook registered at ${url}.`);
+    }
+  } catch (err: any) {
+    console.error("Telegram Bot Setup Error:", err.message);
+  }
+}
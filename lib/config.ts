@@ -0,0 +1,63 @@
+import { decryptSecret, encryptSecret, hasEncryptionKey, isEncrypted, maskSecret } from "./crypto";
+
+// Per-type configuration stored as JSON on sources and destinations. Secret
+// fields are encrypted at rest and masked whenever they leave the server.
+export interface ConfigField {
+  key: string;
+  label: string;
+  secret: boolean;
+  required: boolean;
+  url?: boolean;
+}
+
+export class ConfigError extends Error {}
+
+export const parseConfig = (raw: string | null) => {
+  const config: Record<string, string> = JSON.parse(raw || "{}");
+  for (const [key, value] of Object.entries(config)) {
+    if (isEncrypted(value)) config[key] = decryptSecret(value);
+  }
+  return config;
+};
+
+export const maskConfig = (fields: ConfigField[], config: Record<string, string>) => {
+  const masked: Record<string, string> = {};
+  for (const field of fields) {
+    const value = config[field.key];
+    if (value) masked[field.key] = field.secret ? maskSecret(value) : value;
+  }
+  return masked;
+};
+
+// Blank secrets keep their stored value, so masked values never round-trip.
+export const buildConfig = (fields: ConfigField[], input: Record<string, unknown>, existing: Record<string, string> = {}) => {
+  const config: Record<string, string> = {};
+  for (const field of fields) {
+    const raw = input[field.key];
+    const value = typeof raw === "string" ? raw.trim() : "";
+
+    if (!value) {
+      if (field.secret && existing[field.key] && raw !== null) config[field.key] = existing[field.key];
+      else if (field.required) throw new ConfigError(`${field.label} is required`);
+      continue;
+    }
+    if (field.url && !/^https?:\/\/[^\s/]+/i.test(value)) {
+      throw new ConfigError(`${field.label} must be an http(s) URL`);
+    }
+    config[field.key] = value;
+  }
+  return config;
+};
+
+export const serializeConfig = (fields: ConfigField[], config: Record<string, string>) => {
+  const stored: Record<string, string> = {};
+  for (const field of fields) {
+    const value = config[field.key];
+    if (!value) continue;
+    if (field.secret && !hasEncryptionKey()) {
+      throw new ConfigError("SETTINGS_ENCRYPTION_KEY must be set on the server before secrets can be stored");
+    }
+    stored[field.key] = field.secret ? encryptSecret(value) : value;
+  }
+  return JSON.stringify(stored);
+};
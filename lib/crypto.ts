@@ -0,0 +1,44 @@
+import crypto from "crypto";
+
+const PREFIX = "enc:v1:";
+
+const getKey = () => {
+  const secret = process.env.SETTINGS_ENCRYPTION_KEY;
+  if (!secret) return null;
+  // Accept any passphrase length by hashing it down to a 256-bit key
+  return crypto.createHash("sha256").update(secret).digest();
+};
+
+export const hasEncryptionKey = () => !!process.env.SETTINGS_ENCRYPTION_KEY;
+
+export const isEncrypted = (value: string) => value.startsWith(PREFIX);
+
+export const encryptSecret = (plain: string) => {
+  const key = getKey();
+  if (!key) {
+    throw new Error("SETTINGS_ENCRYPTION_KEY is not set");
+  }
+
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+  const encrypted = Buffer.concat([cipher.update(plain, "utf8"), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return PREFIX + [iv, tag, encrypted].map((buf) => buf.toString("base64")).join(":");
+};
+
+export const decryptSecret = (value: string) => {
+  const key = getKey();
+  if (!key) {
+    throw new Error("SETTINGS_ENCRYPTION_KEY is not set");
+  }
+
+  const [iv, tag, encrypted] = value.slice(PREFIX.length).split(":").map((part) => Buffer.from(part, "base64"));
+  const decipher = crypto.createDecipheriv("aes-256-gcm", key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString("utf8");
+};
+
+export const maskSecret = (value: string) => {
+  if (value.length <= 8) return "••••••••";
+  return `••••••••${value.slice(-4)}`;
+};
@@ -0,0 +1,103 @@
+import path from "path";
+import { fileURLToPath } from "url";
+import { decryptSecret, isEncrypted } from "./crypto";
+import { isServerless, Storage, STORAGE_BACKENDS, StorageError } from "./storage";
+import { openMemoryStorage, openSqliteStorage } from "./sqlite";
+import { openJsonStorage } from "./jsonstore";
+import { openLibsqlStorage } from "./libsql";
+import { migrate } from "./migrations";
+
+const getRootDir = () => {
+  try {
+    return path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+  } catch (e) {
+    return process.cwd();
+  }
+};
+
+// Chosen before anything else is read, so these come from the environment only
+const openStorage = async (): Promise<Storage> => {
+  const backend = (process.env.STORAGE_BACKEND || "sqlite").toLowerCase();
+  switch (backend) {
+    case "sqlite":
+      return openSqliteStorage(process.env.DATABASE_PATH || (isServerless() ? "/tmp/sync.db" : path.join(getRootDir(), "sync.db")));
+    case "json":
+      return openJsonStorage(
+        process.env.STORAGE_JSON_PATH || (isServerless() ? "/tmp/sync.json" : path.join(getRootDir(), "sync.json"))
+      );
+    case "libsql":
+      if (!process.env.LIBSQL_URL) throw new StorageError("STORAGE_BACKEND is libsql, but LIBSQL_URL is not set");
+      return openLibsqlStorage(process.env.LIBSQL_URL, process.env.LIBSQL_AUTH_TOKEN);
+    default:
+      throw new StorageError(`Unknown STORAGE_BACKEND "${backend}"; use one of ${STORAGE_BACKENDS.join(", ")}`);
+  }
+};
+
+// Set when the schema could not be brought up to date; syncs refuse to run until it is fixed
+let migrationError: string | null = null;
+
+const openDatabase = async () => {
+  let storage: Storage;
+  try {
+    storage = await openStorage();
+  } catch (err: any) {
+    // Keeps the dashboard up so the problem can be seen; syncs refuse to run on it
+    console.error("Failed to open storage, using a temporary in-memory database:", err);
+    storage = openMemoryStorage(
+      `Storage could not be opened (${err.message || err}). The app is running on a temporary in-memory database, ` +
+        "so settings and synced posts are lost on restart. Syncing is disabled until storage is fixed."
+    );
+  }
+  if (storage.info.warning) console.error(`Storage Warning: ${storage.info.warning}`);
+
+  try {
+    await migrate(storage);
+  } catch (err: any) {
+    console.error("Database Migration Error:", err);
+    migrationError = `Database migration failed: ${err.message || err}`;
+  }
+  return storage;
+};
+
+// Opened once, in the background; queries made before it is ready wait for it
+const opened = openDatabase();
+
+const db: Omit<Storage, "info"> = {
+  prepare: (sql) => ({
+    get: async (...params) => (await opened).prepare(sql).get(...params),
+    all: async (...params) => (await opened).prepare(sql).all(...params),
+    run: async (...params) => (await opened).prepare(sql).run(...params),
+  }),
+  exec: async (sql) => (await opened).exec(sql),
+  transaction: async (fn) => (await opened).transaction(fn),
+};
+
+const getStorageInfo = async () => (await opened).info;
+
+const getMigrationError = async () => {
+  await opened;
+  return migrationError;
+};
+
+const getSetting = async (key: string) => {
+  const row = (await db.prepare("SELECT value FROM settings WHERE key = ?").get(key)) as { value: string } | undefined;
+  if (row?.value && isEncrypted(row.value)) {
+    try {
+      return decryptSecret(row.value);
+    } catch (err) {
+      console.error(`Failed to decrypt setting ${key}:`, err);
+      return process.env[key];
+    }
+  }
+  return row?.value || process.env[key];
+};
+
+const setSetting = async (key: string, value: string) => {
+  await db.prepare("INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)").run(key, value);
+};
+
+const deleteSetting = async (key: string) => {
+  await db.prepare("DELETE FROM settings WHERE key = ?").run(key);
+};
+
+export { db, getStorageInfo, getMigrationError, getSetting, setSetting, deleteSetting };
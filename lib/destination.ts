@@ -0,0 +1,103 @@
+import { RenderedPost } from "./render";
+import { MetadataField } from "./metadata";
+import { SyncedPostRow } from "./posts";
+import { SourcePost } from "./source";
+import { getRetryAfterMs, isTransientError, TelegramError } from "./telegram";
+
+// What a destination reports back about a message it sent; stored on the
+// post's synced_posts row so later edits and removals can find the message.
+export interface DeliveryRecord {
+  // Telegram message IDs
+  messageId: number | null;
+  photoMessageId: number | null;
+  mediaMessageIds?: number[];
+  // IDs other destinations return, such as Discord's snowflakes
+  messageRef: string | null;
+  messageType: string;
+  imageUrl: string | null;
+  // Compared on edits, so unchanged posts are never sent again
+  contentHash: string;
+}
+
+export type RemovedPostAction = "mark" | "delete";
+
+export interface DestinationAdapter {
+  // Where messages go, as shown in the dashboard and stored with each delivery
+  target: string;
+  send(post: SourcePost, rendered: RenderedPost): Promise<DeliveryRecord>;
+  // Brings a sent message in line with the post's current content. Resolves
+  // to null when nothing had to change. Left out by destinations that cannot
+  // edit what they sent.
+  edit?(row: SyncedPostRow, post: SourcePost, rendered: RenderedPost): Promise<Pick<DeliveryRecord, "contentHash" | "imageUrl"> | null>;
+  // Deletes or marks the message for a post that is gone at its source, and
+  // reports which one happened.
+  remove?(row: SyncedPostRow, action: RemovedPostAction): Promise<"deleted" | "marked">;
+  // Confirms the destination is reachable without posting anything where
+  // possible; resolves to a short description of what was found.
+  test(): Promise<string>;
+}
+
+// A failed HTTP delivery. `status` is 0 when the request never got an answer.
+export class DeliveryError extends Error {
+  status: number;
+  retryAfterMs: number | null;
+
+  constructor(message: string, status: number, retryAfterMs: number | null = null) {
+    super(message);
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export const isTransientDeliveryError = (err: unknown) => {
+  if (err instanceof DeliveryError) return err.status === 0 || err.status === 429 || err.status >= 500;
+  return isTransientError(err);
+};
+
+export const getDeliveryRetryAfterMs = (err: unknown) =>
+  err instanceof DeliveryError ? err.retryAfterMs : err instanceof TelegramError ? getRetryAfterMs(err) : null;
+
+// Sends a JSON request to a webhook-style API, turning network failures and
+// error statuses into DeliveryErrors.
+export async function requestJson(label: string, url: string, method: string, body?: unknown, headers: Record<string, string> = {}) {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method,
+      headers: body === undefined ? headers : { "Content-Type": "application/json", ...headers },
+      body: body === undefined ? undefined : typeof body === "string" ? body : JSON.stringify(body),
+    });
+  } catch (err: any) {
+    throw new DeliveryError(`${label} request failed: ${err.message}`, 0);
+  }
+
+  if (!response.ok) {
+    const detail = (await response.text().catch(() => "")).slice(0, 200);
+    const retryAfter = Number(response.headers.get("Retry-After"));
+    console.error(`${label} Error:`, response.status, detail);
+    throw new DeliveryError(
+      `${label} answered with HTTP ${response.status}${detail ? `: ${detail}` : ""}`,
+      response.status,
+      retryAfter > 0 ? retryAfter * 1000 : null
+    );
+  }
+  return response;
+}
+
+// Labels for formatters that lay the extracted metadata out as fields.
+export const FIELD_LABELS: Array<[MetadataField, string]> = [
+  ["imdb", "IMDb"],
+  ["genre", "Genre"],
+  ["language", "Language"],
+  ["released", "Released"],
+  ["director", "Director"],
+  ["cast", "Cast"],
+];
+
+export const REMOVED_NOTICE = "This post has been removed.";
+
+// Cuts plain text to a service's length limit, counted in code points.
+export const clip = (text: string, max: number) => {
+  const chars = Array.from(text);
+  return chars.length > max ? chars.slice(0, max - 1).join("").trimEnd() + "…" : text;
+};
@@ -0,0 +1,313 @@
+import { db, getSetting, setSetting } from "./db";
+import { buildConfig, ConfigField, maskConfig, parseConfig, serializeConfig } from "./config";
+import { getTemplate } from "./templates";
+import { MovieDetails, RenderOptions } from "./render";
+import { SourcePost } from "./source";
+import { DestinationAdapter } from "./destination";
+import { createTelegramAdapter, LINK_PREVIEW_MODES, LinkPreviewMode } from "./telegram";
+import { createDiscordAdapter } from "./discord";
+import { createSlackAdapter } from "./slack";
+import { createWebhookAdapter } from "./webhook";
+import { isClickTrackingEnabled } from "./links";
+
+export type DestinationType = "telegram" | "discord" | "slack" | "webhook";
+
+// Telegram destinations without their own bot token or channel use the
+// TELEGRAM_* settings, which is how installs from before destinations existed
+// keep working. Only Telegram messages are rendered from a template; the
+// others are laid out by their own formatter from the same metadata.
+export const DESTINATION_TYPES: Record<DestinationType, { label: string; fields: ConfigField[]; templated: boolean }> = {
+  telegram: {
+    label: "Telegram",
+    templated: true,
+    fields: [
+      { key: "chatId", label: "Channel ID", secret: false, required: false },
+      { key: "botToken", label: "Bot Token", secret: true, required: false },
+    ],
+  },
+  discord: {
+    label: "Discord",
+    templated: false,
+    fields: [{ key: "webhookUrl", label: "Webhook URL", secret: true, required: true, url: true }],
+  },
+  slack: {
+    label: "Slack",
+    templated: false,
+    fields: [{ key: "webhookUrl", label: "Incoming Webhook URL", secret: true, required: true, url: true }],
+  },
+  webhook: {
+    label: "Signed Webhook",
+    templated: false,
+    fields: [
+      { key: "url", label: "Endpoint URL", secret: false, required: true, url: true },
+      { key: "secret", label: "Signing Secret", secret: true, required: true },
+    ],
+  },
+};
+
+export const RULE_FIELDS = ["labels", "genres", "languages", "keywords"] as const;
+export type RuleField = (typeof RULE_FIELDS)[number];
+
+// A post must match every list that has entries, and any one entry within a
+// list. Destinations with no rules receive every post.
+export type RoutingRules = Record<RuleField, string[]>;
+
+// How Telegram destinations send; the other types have no equivalents.
+export interface TelegramOptions {
+  // Download, Trailer and IMDb links as inline buttons instead of in the text
+  linkButtons: boolean;
+  // Every image in the post as an album, instead of just the first
+  album: boolean;
+  silent: boolean;
+  protectContent: boolean;
+  linkPreview: LinkPreviewMode;
+  // Posts matching these are pinned once sent; no rules pins nothing
+  pin: RoutingRules;
+}
+
+interface DestinationRow {
+  id: number;
+  type: DestinationType;
+  name: string;
+  config: string;
+  template_id: number | null;
+  rules: string;
+  options: string;
+  enabled: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface Destination {
+  id: number;
+  type: DestinationType;
+  name: string;
+  config: Record<string, string>;
+  // null renders with the active template
+  template_id: number | null;
+  rules: RoutingRules;
+  options: TelegramOptions;
+  enabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DestinationInput {
+  type?: string;
+  name?: string;
+  config?: Record<string, unknown>;
+  templateId?: number | null;
+  // Lists, or comma-separated strings as typed into the dashboard
+  rules?: Partial<Record<RuleField, string[] | string>>;
+  options?: Partial<Omit<TelegramOptions, "pin"> & { pin: Partial<Record<RuleField, string[] | string>> }>;
+  enabled?: boolean;
+}
+
+export class DestinationConfigError extends Error {}
+
+const isDestinationType = (type: unknown): type is DestinationType => typeof type === "string" && type in DESTINATION_TYPES;
+
+export const parseRules = (input: unknown): RoutingRules => {
+  const raw = (input && typeof input === "object" ? input : {}) as Record<string, unknown>;
+  const rules = {} as RoutingRules;
+  for (const field of RULE_FIELDS) {
+    const values = Array.isArray(raw[field]) ? (raw[field] as unknown[]) : typeof raw[field] === "string" ? (raw[field] as string).split(",") : [];
+    rules[field] = [...new Set(values.map((value) => String(value).trim()).filter(Boolean))];
+  }
+  return rules;
+};
+
+export const parseOptions = (input: unknown): TelegramOptions => {
+  const raw = (input && typeof input === "object" ? input : {}) as Record<string, any>;
+  return {
+    linkButtons: raw.linkButtons === true,
+    album: raw.album === true,
+    silent: raw.silent === true,
+    protectContent: raw.protectContent === true,
+    linkPreview: LINK_PREVIEW_MODES.includes(raw.linkPreview) ? raw.linkPreview : "default",
+    pin: parseRules(raw.pin),
+  };
+};
+
+const hasRules = (rules: RoutingRules) => RULE_FIELDS.some((field) => rules[field].length > 0);
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Whole words only, so a "Drama" rule does not pick up "Melodrama"
+const containsTerm = (text: string | null | undefined, term: string) =>
+  !!text && new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(term)}($|[^\\p{L}\\p{N}])`, "iu").test(text);
+
+export const matchesRules = (rules: RoutingRules, post: SourcePost, details: Pick<MovieDetails, "genre" | "language">) => {
+  const matchers: Record<RuleField, (term: string) => boolean> = {
+    labels: (term) => (post.labels || []).some((label) => label.toLowerCase() === term.toLowerCase()),
+    genres: (term) => containsTerm(details.genre, term),
+    languages: (term) => containsTerm(details.language, term),
+    keywords: (term) => containsTerm(post.title, term),
+  };
+  return RULE_FIELDS.every((field) => rules[field].length === 0 || rules[field].some(matchers[field]));
+};
+
+const fromRow = (row: DestinationRow): Destination => ({
+  ...row,
+  config: parseConfig(row.config),
+  rules: parseRules(JSON.parse(row.rules || "{}")),
+  options: parseOptions(JSON.parse(row.options || "{}")),
+  enabled: !!row.enabled,
+});
+
+// The channel configured through settings becomes the first destination, and
+// posts synced or queued before destinations existed are attributed to it.
+const ensureDefaultDestination = async () => {
+  if ((await getSetting("DESTINATIONS_INITIALIZED")) === "true") return;
+  await db.transaction(async () => {
+    const row = (await db.prepare("SELECT COUNT(*) as count FROM destinations").get()) as { count: number };
+    if (row.count === 0) {
+      const { lastInsertRowid } = await db.prepare("INSERT INTO destinations (type, name) VALUES ('telegram', 'Telegram')").run();
+      await db.prepare("UPDATE synced_posts SET destination_id = ? WHERE destination_id IS NULL").run(lastInsertRowid);
+      await db.prepare("UPDATE outbox SET destination_id = ? WHERE destination_id IS NULL").run(lastInsertRowid);
+      await db.prepare("UPDATE delivery_history SET destination_id = ? WHERE destination_id IS NULL").run(lastInsertRowid);
+    }
+    await setSetting("DESTINATIONS_INITIALIZED", "true");
+  });
+};
+
+export const listDestinations = async () => {
+  await ensureDefaultDestination();
+  return ((await db.prepare("SELECT * FROM destinations ORDER BY id").all()) as DestinationRow[]).map(fromRow);
+};
+
+export const getEnabledDestinations = async () => (await listDestinations()).filter((destination) => destination.enabled);
+
+export const getDestination = async (id: number) => {
+  const row = (await db.prepare("SELECT * FROM destinations WHERE id = ?").get(id)) as DestinationRow | undefined;
+  return row ? fromRow(row) : undefined;
+};
+
+export const toPublicDestination = (destination: Destination) => ({
+  ...destination,
+  config: maskConfig(DESTINATION_TYPES[destination.type].fields, destination.config),
+});
+
+const resolveTemplateId = async (value: unknown) => {
+  if (value === null || value === undefined || value === "") return null;
+  const id = Number(value);
+  if (!(await getTemplate(id))) throw new DestinationConfigError("Template not found");
+  return id;
+};
+
+export const createDestination = async (input: DestinationInput) => {
+  if (!isDestinationType(input.type)) {
+    throw new DestinationConfigError(`Destination type must be one of: ${Object.keys(DESTINATION_TYPES).join(", ")}`);
+  }
+  const { fields } = DESTINATION_TYPES[input.type];
+  const name = input.name?.trim() || DESTINATION_TYPES[input.type].label;
+  const config = buildConfig(fields, input.config || {});
+  const templateId = DESTINATION_TYPES[input.type].templated ? await resolveTemplateId(input.templateId) : null;
+
+  await ensureDefaultDestination();
+  const { lastInsertRowid } = await db
+    .prepare("INSERT INTO destinations (type, name, config, template_id, rules, options, enabled) VALUES (?, ?, ?, ?, ?, ?, ?)")
+    .run(
+      input.type,
+      name,
+      serializeConfig(fields, config),
+      templateId,
+      JSON.stringify(parseRules(input.rules)),
+      JSON.stringify(parseOptions(input.options)),
+      input.enabled === false ? 0 : 1
+    );
+  return (await getDestination(Number(lastInsertRowid)))!;
+};
+
+export const updateDestination = async (id: number, input: DestinationInput) => {
+  const destination = await getDestination(id);
+  if (!destination) return null;
+
+  const { fields } = DESTINATION_TYPES[destination.type];
+  const name = input.name?.trim() || destination.name;
+  const config = input.config ? buildConfig(fields, input.config, destination.config) : destination.config;
+  const templateId =
+    input.templateId !== undefined && DESTINATION_TYPES[destination.type].templated
+      ? await resolveTemplateId(input.templateId)
+      : destination.template_id;
+  const rules = input.rules ? parseRules(input.rules) : destination.rules;
+  const options = input.options ? parseOptions({ ...destination.options, ...input.options }) : destination.options;
+  const enabled = input.enabled ?? destination.enabled;
+
+  await db.prepare(
+    "UPDATE destinations SET name = ?, config = ?, template_id = ?, rules = ?, options = ?, enabled = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?"
+  ).run(name, serializeConfig(fields, config), templateId, JSON.stringify(rules), JSON.stringify(options), enabled ? 1 : 0, id);
+  return (await getDestination(id))!;
+};
+
+// Messages already in the channel are kept in the sync history; anything
+// still waiting to go out is dropped with the destination.
+export const deleteDestination = (id: number) =>
+  db.transaction(async () => {
+    await db.prepare("DELETE FROM outbox WHERE destination_id = ? AND status != 'sent'").run(id);
+    return (await db.prepare("DELETE FROM destinations WHERE id = ?").run(id)).changes > 0;
+  });
+
+export interface TelegramDefaults {
+  botToken?: string;
+  chatId?: string;
+}
+
+export interface ActiveDestination {
+  destination: Destination;
+  adapter: DestinationAdapter;
+  // undefined renders with the active template
+  templateBody?: string;
+  renderOptions: RenderOptions;
+}
+
+const createAdapter = async (destination: Destination, defaults: TelegramDefaults): Promise<DestinationAdapter> => {
+  const { config, options } = destination;
+  switch (destination.type) {
+    case "telegram": {
+      const botToken = config.botToken || defaults.botToken || (await getSetting("TELEGRAM_BOT_TOKEN"));
+      const chatId = config.chatId || defaults.chatId || (await getSetting("TELEGRAM_CHANNEL_ID"));
+      if (!botToken || !chatId) {
+        throw new DestinationConfigError(`${destination.name}: Telegram bot token and channel ID are not configured`);
+      }
+      return createTelegramAdapter(botToken, chatId, {
+        ...options,
+        shouldPin: (post, rendered) => hasRules(options.pin) && matchesRules(options.pin, post, rendered.details),
+      });
+    }
+    case "discord":
+      return createDiscordAdapter(config.webhookUrl);
+    case "slack":
+      return createSlackAdapter(config.webhookUrl);
+    case "webhook":
+      return createWebhookAdapter(config.url, config.secret);
+  }
+};
+
+export const resolveDestination = async (destination: Destination, defaults: TelegramDefaults = {}): Promise<ActiveDestination> => {
+  const template = destination.template_id ? await getTemplate(destination.template_id) : undefined;
+  return {
+    destination,
+    adapter: await createAdapter(destination, defaults),
+    templateBody: template?.body,
+    renderOptions: {
+      linkButtons: destination.type === "telegram" && destination.options.linkButtons,
+      trackClicksFor: (await isClickTrackingEnabled()) ? destination.id : undefined,
+    },
+  };
+};
+
+// Destinations with incomplete configuration are reported instead of thrown,
+// so one bad channel never holds up the others.
+export const getActiveDestinations = async (defaults: TelegramDefaults = {}) => {
+  const active: ActiveDestination[] = [];
+  const errors: string[] = [];
+  for (const destination of await getEnabledDestinations()) {
+    try {
+      active.push(await resolveDestination(destination, defaults));
+    } catch (err: any) {
+      errors.push(err.message);
+    }
+  }
+  return { active, errors };
+};
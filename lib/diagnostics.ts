@@ -0,0 +1,239 @@
+import { getSetting } from "./db";
+import { fetchBlogInfo } from "./blogger";
+import { callTelegram, TelegramError } from "./telegram";
+import { SyncConfig } from "./sync";
+
+export type DiagnosticField = keyof Required<SyncConfig>;
+export type CheckStatus = "pass" | "fail" | "skip";
+
+export interface DiagnosticCheck {
+  id: string;
+  // The Configuration field the check is about
+  field: DiagnosticField;
+  label: string;
+  status: CheckStatus;
+  message: string;
+  // What to change when the check fails
+  hint: string | null;
+}
+
+const pass = (id: string, field: DiagnosticField, label: string, message: string): DiagnosticCheck => ({
+  id,
+  field,
+  label,
+  status: "pass",
+  message,
+  hint: null,
+});
+
+const fail = (id: string, field: DiagnosticField, label: string, message: string, hint: string): DiagnosticCheck => ({
+  id,
+  field,
+  label,
+  status: "fail",
+  message,
+  hint,
+});
+
+// Not run because a check it depends on failed
+const skip = (id: string, field: DiagnosticField, label: string, after: string): DiagnosticCheck => ({
+  id,
+  field,
+  label,
+  status: "skip",
+  message: `Not checked until ${after} passes.`,
+  hint: null,
+});
+
+async function checkBlogger(apiKey: string | undefined, blogId: string | undefined): Promise<DiagnosticCheck[]> {
+  const keyLabel = "Blogger API key";
+  const blogLabel = "Blog can be read";
+  if (!apiKey) {
+    return [
+      fail("blogger.key", "BLOGGER_API_KEY", keyLabel, "No API key is configured.", "Create an API key in the Google Cloud Console and enable the Blogger API v3 for its project."),
+      skip("blogger.blog", "BLOGGER_BLOG_ID", blogLabel, "the API key check"),
+    ];
+  }
+  if (!blogId) {
+    return [
+      pass("blogger.key", "BLOGGER_API_KEY", keyLabel, "An API key is configured."),
+      fail("blogger.blog", "BLOGGER_BLOG_ID", blogLabel, "No blog ID is configured.", "Open the blog on blogger.com; the blog ID is the number after blogID= in the address bar."),
+    ];
+  }
+
+  let result: Awaited<ReturnType<typeof fetchBlogInfo>>;
+  try {
+    result = await fetchBlogInfo(apiKey, blogId);
+  } catch (err: any) {
+    return [
+      fail("blogger.key", "BLOGGER_API_KEY", keyLabel, err.message, "The server could not reach googleapis.com. Check its network and proxy settings."),
+      skip("blogger.blog", "BLOGGER_BLOG_ID", blogLabel, "the API key check"),
+    ];
+  }
+
+  const { status, data } = result;
+  const error: string = data?.error?.message || `HTTP ${status}`;
+  if (status === 200 && data?.id) {
+    const posts = data.posts?.totalItems;
+    return [
+      pass("blogger.key", "BLOGGER_API_KEY", keyLabel, "Google accepted the API key."),
+      pass("blogger.blog", "BLOGGER_BLOG_ID", blogLabel, `Found "${data.name}"${posts === undefined ? "" : ` with ${posts} posts`}.`),
+    ];
+  }
+  // Google reports key problems as 400 or 403 whatever the blog ID is
+  if (/api key|api has not been used|is disabled|blocked/i.test(error) || status === 403) {
+    return [
+      fail(
+        "blogger.key",
+        "BLOGGER_API_KEY",
+        keyLabel,
+        error,
+        /not been used|disabled/i.test(error)
+          ? "Enable the Blogger API v3 in the Google Cloud project the key belongs to, then wait a few minutes."
+          : "Check the key was copied in full, and that its API restrictions allow the Blogger API and requests from this server."
+      ),
+      skip("blogger.blog", "BLOGGER_BLOG_ID", blogLabel, "the API key check"),
+    ];
+  }
+  return [
+    pass("blogger.key", "BLOGGER_API_KEY", keyLabel, "Google accepted the API key."),
+    fail(
+      "blogger.blog",
+      "BLOGGER_BLOG_ID",
+      blogLabel,
+      error,
+      "Check the blog ID: it is the number after blogID= on blogger.com, not the blog's address. The blog must also be public."
+    ),
+  ];
+}
+
+// Bots can post in a channel only as an administrator with the right to post,
+// and in a group unless they were restricted.
+const checkPostingRights = (chat: any, member: any): { ok: boolean; message: string; hint: string } => {
+  const name = chat.title || chat.username || chat.id;
+  if (chat.type === "channel") {
+    if (member.status !== "administrator") {
+      return {
+        ok: false,
+        message: `The bot is ${member.status === "left" ? "not a member" : `a ${member.status}`} of "${name}".`,
+        hint: "Add the bot to the channel as an administrator (channel settings, Administrators, Add Admin).",
+      };
+    }
+    if (member.can_post_messages === false) {
+      return {
+        ok: false,
+        message: `The bot is an administrator of "${name}" without the right to post messages.`,
+        hint: "Edit the bot's administrator rights in the channel and turn on Post Messages.",
+      };
+    }
+    return { ok: true, message: `The bot is an administrator of "${name}" and can post messages.`, hint: "" };
+  }
+  if (member.status === "left" || member.status === "kicked") {
+    return {
+      ok: false,
+      message: `The bot is ${member.status === "left" ? "not a member" : "banned from"} "${name}".`,
+      hint: member.status === "kicked" ? "Unban the bot, then add it to the group again." : "Add the bot to the group.",
+    };
+  }
+  if (member.status === "restricted" && member.can_send_messages === false) {
+    return { ok: false, message: `The bot is restricted in "${name}" and cannot send messages.`, hint: "Lift the bot's restrictions in the group settings." };
+  }
+  return { ok: true, message: `The bot can post in "${name}".`, hint: "" };
+};
+
+async function checkTelegram(botToken: string | undefined, chatId: string | undefined): Promise<DiagnosticCheck[]> {
+  const botLabel = "Bot token";
+  const chatLabel = "Channel found";
+  const rightsLabel = "Bot can post";
+  const afterBot = "the bot token check";
+  const afterChat = "the channel check";
+
+  if (!botToken) {
+    return [
+      fail("telegram.bot", "TELEGRAM_BOT_TOKEN", botLabel, "No bot token is configured.", "Create a bot with @BotFather and paste the token it gives you."),
+      skip("telegram.chat", "TELEGRAM_CHANNEL_ID", chatLabel, afterBot),
+      skip("telegram.rights", "TELEGRAM_CHANNEL_ID", rightsLabel, afterBot),
+    ];
+  }
+
+  let me: any;
+  try {
+    me = await callTelegram(botToken, "getMe", {});
+  } catch (err: any) {
+    const rejected = err instanceof TelegramError && (err.code === 401 || err.code === 404);
+    return [
+      fail(
+        "telegram.bot",
+        "TELEGRAM_BOT_TOKEN",
+        botLabel,
+        err.message,
+        rejected
+          ? "Telegram does not recognise this token. Copy it again from @BotFather; /revoke there issues a new one."
+          : "The server could not reach api.telegram.org. Check its network and proxy settings."
+      ),
+      skip("telegram.chat", "TELEGRAM_CHANNEL_ID", chatLabel, afterBot),
+      skip("telegram.rights", "TELEGRAM_CHANNEL_ID", rightsLabel, afterBot),
+    ];
+  }
+  const checks = [pass("telegram.bot", "TELEGRAM_BOT_TOKEN", botLabel, `Connected as @${me.username}.`)];
+
+  if (!chatId) {
+    checks.push(
+      fail("telegram.chat", "TELEGRAM_CHANNEL_ID", chatLabel, "No channel ID is configured.", "Use the channel's @username, or its numeric ID starting with -100 for a private channel."),
+      skip("telegram.rights", "TELEGRAM_CHANNEL_ID", rightsLabel, afterChat)
+    );
+    return checks;
+  }
+
+  let chat: any;
+  try {
+    chat = await callTelegram(botToken, "getChat", { chat_id: chatId });
+  } catch (err: any) {
+    checks.push(
+      fail(
+        "telegram.chat",
+        "TELEGRAM_CHANNEL_ID",
+        chatLabel,
+        err.message,
+        /^-?\d+$/.test(chatId) && !chatId.startsWith("-100")
+          ? "Channel IDs start with -100. Forward a channel post to @userinfobot to find the full ID."
+          : "Check the @username or -100... ID, and add the bot to the channel first; Telegram hides private channels from bots that are not in them."
+      ),
+      skip("telegram.rights", "TELEGRAM_CHANNEL_ID", rightsLabel, afterChat)
+    );
+    return checks;
+  }
+  checks.push(pass("telegram.chat", "TELEGRAM_CHANNEL_ID", chatLabel, `Found ${chat.type} "${chat.title || chat.username || chat.id}".`));
+
+  if (chat.type === "private") {
+    checks.push(pass("telegram.rights", "TELEGRAM_CHANNEL_ID", rightsLabel, "Private chat: the bot can message this user."));
+    return checks;
+  }
+  try {
+    const member = await callTelegram(botToken, "getChatMember", { chat_id: chatId, user_id: me.id });
+    const rights = checkPostingRights(chat, member);
+    checks.push(
+      rights.ok
+        ? pass("telegram.rights", "TELEGRAM_CHANNEL_ID", rightsLabel, rights.message)
+        : fail("telegram.rights", "TELEGRAM_CHANNEL_ID", rightsLabel, rights.message, rights.hint)
+    );
+  } catch (err: any) {
+    checks.push(
+      fail("telegram.rights", "TELEGRAM_CHANNEL_ID", rightsLabel, err.message, "Add the bot to the channel as an administrator with the right to post messages.")
+    );
+  }
+  return checks;
+}
+
+// Checks the Blogger and Telegram settings one dependency at a time. Values in
+// `overrides` are tested instead of the saved ones, so the form can be checked
+// before it is saved.
+export async function runDiagnostics(overrides: SyncConfig = {}) {
+  const value = async (key: DiagnosticField) => String(overrides[key] ?? "").trim() || (await getSetting(key));
+  const [blogger, telegram] = await Promise.all([
+    checkBlogger(await value("BLOGGER_API_KEY"), await value("BLOGGER_BLOG_ID")),
+    checkTelegram(await value("TELEGRAM_BOT_TOKEN"), await value("TELEGRAM_CHANNEL_ID")),
+  ]);
+  const checks = [...blogger, ...telegram];
+  return { ok: checks.every((check) => check.status === "pass"), checks };
+}
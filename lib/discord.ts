@@ -0,0 +1,83 @@
+import { hashContent } from "./posts";
+import { RenderedPost } from "./render";
+import { clip, DestinationAdapter, FIELD_LABELS, REMOVED_NOTICE, requestJson } from "./destination";
+
+// Discord rejects embeds over 6000 characters in total; these caps keep the
+// largest possible embed under that.
+const TITLE_LIMIT = 256;
+const DESCRIPTION_LIMIT = 2048;
+const FIELD_LIMIT = 512;
+const FOOTER_LIMIT = 256;
+
+const EMBED_COLOR = 0x4f46e5;
+
+export const buildEmbed = ({ values, details, imageUrl }: RenderedPost) => {
+  const description = [details.hook && `*${details.hook}*`, details.plot || details.snippet].filter(Boolean).join("\n\n");
+  const fields = FIELD_LABELS.filter(([field]) => details[field]).map(([field, name]) => ({
+    name,
+    value: clip(details[field]!, FIELD_LIMIT),
+    // The cast list is usually too long to sit beside other fields
+    inline: field !== "cast",
+  }));
+
+  return {
+    title: clip(details.title, TITLE_LIMIT),
+    url: values.url || undefined,
+    description: description ? clip(description, DESCRIPTION_LIMIT) : undefined,
+    color: EMBED_COLOR,
+    fields,
+    image: imageUrl ? { url: imageUrl } : undefined,
+    footer: values.labels ? { text: clip(values.labels, FOOTER_LIMIT) } : undefined,
+  };
+};
+
+// Posts through a channel webhook. `wait=true` makes Discord return the
+// message, whose ID is what later edits and deletions address.
+export const createDiscordAdapter = (webhookUrl: string): DestinationAdapter => {
+  const messageUrl = (id: string) => `${webhookUrl}/messages/${id}`;
+
+  return {
+    target: "Discord webhook",
+
+    async send(post, rendered) {
+      const embed = buildEmbed(rendered);
+      const response = await requestJson("Discord", `${webhookUrl}?wait=true`, "POST", { embeds: [embed] });
+      const message = await response.json().catch(() => null);
+      return {
+        messageId: null,
+        photoMessageId: null,
+        messageRef: message?.id ?? null,
+        messageType: "discord",
+        imageUrl: rendered.imageUrl ?? null,
+        contentHash: hashContent(JSON.stringify(embed)),
+      };
+    },
+
+    async edit(row, post, rendered) {
+      const embed = buildEmbed(rendered);
+      const contentHash = hashContent(JSON.stringify(embed));
+      if (contentHash === row.content_hash || !row.message_ref) return null;
+
+      await requestJson("Discord", messageUrl(row.message_ref), "PATCH", { embeds: [embed] });
+      return { contentHash, imageUrl: rendered.imageUrl ?? null };
+    },
+
+    async remove(row, action) {
+      if (!row.message_ref) return "marked";
+      if (action === "delete") {
+        await requestJson("Discord", messageUrl(row.message_ref), "DELETE");
+        return "deleted";
+      }
+      await requestJson("Discord", messageUrl(row.message_ref), "PATCH", {
+        embeds: [{ title: "🚫 Removed", description: REMOVED_NOTICE, color: EMBED_COLOR }],
+      });
+      return "marked";
+    },
+
+    // Fetching the webhook returns its name and channel without posting
+    async test() {
+      const webhook = await (await requestJson("Discord", webhookUrl, "GET")).json().catch(() => null);
+      return webhook?.name ? `webhook "${webhook.name}"` : "the webhook";
+    },
+  };
+};
@@ -0,0 +1,72 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { EventEmitter } from "events";
+import type { SyncResult } from "./sync";
+
+// What a sync run reports while it works, streamed to the dashboard over
+// /api/sync/events. Deliveries made outside a run (backfill, publishing from
+// the preview) are reported too, with no run ID.
+export type SyncEventBody =
+  | { type: "run_started" }
+  | { type: "fetched"; source: string; count: number }
+  | { type: "source_failed"; source: string; error: string }
+  | { type: "processing"; postId: string; title: string }
+  | { type: "held"; postId: string; title: string; until: string }
+  // Metadata fields found in the post, whether from its HTML or the AI step
+  | { type: "extracted"; postId: string; title: string; fields: Record<string, string> }
+  | { type: "queued"; postId: string; title: string; destinations: number }
+  | { type: "sending"; postId: string; title: string; destination: string; attempt: number }
+  | { type: "sent"; postId: string; title: string; destination: string }
+  | { type: "failed" | "retry" | "skipped"; postId: string; title: string; destination: string; error: string }
+  | { type: "run_finished"; result: SyncResult }
+  | { type: "run_failed"; error: string };
+
+export type SyncEvent = SyncEventBody & { id: number; at: string; runId: string | null };
+
+// Enough for a run that hits MAX_POSTS_PER_RUN across a few destinations
+const MAX_REPLAYED_EVENTS = 500;
+
+const emitter = new EventEmitter();
+// One listener per open dashboard tab
+emitter.setMaxListeners(0);
+
+let nextId = 1;
+// The run an event was emitted from, followed through its awaits, so a backfill
+// or preview working alongside a run is not mixed into its timeline
+const runContext = new AsyncLocalStorage<string>();
+// The latest run's events, so a dashboard that connects mid-run sees it from the start
+let recent: SyncEvent[] = [];
+
+export const emitSyncEvent = (body: SyncEventBody) => {
+  if (body.type === "run_started") recent = [];
+  const event = { ...body, id: nextId++, at: new Date().toISOString(), runId: runContext.getStore() ?? null } as SyncEvent;
+  recent.push(event);
+  if (recent.length > MAX_REPLAYED_EVENTS) recent.shift();
+  emitter.emit("event", event);
+};
+
+// Runs a sync with every event it emits tagged with its ID, between a
+// run_started and a run_finished or run_failed event.
+export const trackRunEvents = <T extends SyncResult>(runId: string, run: () => Promise<T>) =>
+  runContext.run(runId, async () => {
+    emitSyncEvent({ type: "run_started" });
+    try {
+      const result = await run();
+      emitSyncEvent({ type: "run_finished", result });
+      return result;
+    } catch (err: any) {
+      emitSyncEvent({ type: "run_failed", error: err.message || String(err) });
+      throw err;
+    }
+  });
+
+// Events after `afterId`, which EventSource sends back when it reconnects. An
+// ID from before a server restart is ahead of every current one, so the whole
+// buffer is replayed instead.
+export const getRecentSyncEvents = (afterId = 0) => (afterId < nextId ? recent.filter((event) => event.id > afterId) : [...recent]);
+
+export const subscribeSyncEvents = (listener: (event: SyncEvent) => void) => {
+  emitter.on("event", listener);
+  return () => {
+    emitter.off("event", listener);
+  };
+};
@@ -0,0 +1,111 @@
+import { load, Cheerio, CheerioAPI } from "cheerio";
+import { applyListOptions, SourceAdapter, SourceError, SourcePost } from "./source";
+
+export class FeedError extends SourceError {}
+
+const toIsoDate = (value: string | undefined) => {
+  const date = value ? new Date(value.trim()) : null;
+  return date && !isNaN(date.getTime()) ? date.toISOString() : null;
+};
+
+const unique = (values: Array<string | undefined>) => [...new Set(values.filter((value): value is string => !!value))];
+
+const parseRssItem = ($: CheerioAPI, $item: Cheerio<any>, sourceId: number): SourcePost | null => {
+  const field = (name: string) => $item.children(name).first().text().trim();
+
+  const link = field("link");
+  const guid = field("guid") || link;
+  if (!guid) return null;
+
+  const images = unique([
+    ...$item.children("enclosure").toArray().filter((el) => /^image\//.test($(el).attr("type") || "")).map((el) => $(el).attr("url")),
+    ...$item.children("media\\:content").toArray().filter((el) => $(el).attr("medium") === "image" || /^image\//.test($(el).attr("type") || "")).map((el) => $(el).attr("url")),
+    ...$item.find("media\\:thumbnail").toArray().map((el) => $(el).attr("url")),
+  ]);
+
+  return {
+    id: `rss:${guid}`,
+    sourceId,
+    title: field("title"),
+    url: link,
+    content: field("content\\:encoded") || field("description"),
+    // Items without a date still count as new; the synced-post check keeps them from repeating
+    published: toIsoDate(field("pubDate") || field("dc\\:date")) ?? new Date().toISOString(),
+    updated: toIsoDate(field("atom\\:updated")),
+    labels: unique($item.children("category").toArray().map((el) => $(el).text().trim())),
+    images: images.map((url) => ({ url })),
+  };
+};
+
+const parseAtomEntry = ($: CheerioAPI, $entry: Cheerio<any>, sourceId: number): SourcePost | null => {
+  const field = (name: string) => $entry.children(name).first().text().trim();
+
+  const alternate = $entry
+    .children("link")
+    .toArray()
+    .find((el) => !$(el).attr("rel") || $(el).attr("rel") === "alternate");
+  const link = alternate ? $(alternate).attr("href") || "" : "";
+  const id = field("id") || link;
+  if (!id) return null;
+
+  // xhtml content is inline markup; html and text content are escaped strings
+  const body = $entry.children("content").first().length ? $entry.children("content").first() : $entry.children("summary").first();
+  const content = body.attr("type") === "xhtml" ? body.children().first().html() || "" : body.text();
+
+  const images = unique([
+    ...$entry.children('link[rel="enclosure"]').toArray().filter((el) => /^image\//.test($(el).attr("type") || "")).map((el) => $(el).attr("href")),
+    ...$entry.find("media\\:thumbnail").toArray().map((el) => $(el).attr("url")),
+  ]);
+
+  const updated = toIsoDate(field("updated"));
+  return {
+    id: `atom:${id}`,
+    sourceId,
+    title: field("title"),
+    url: link,
+    content,
+    published: toIsoDate(field("published")) ?? updated ?? new Date().toISOString(),
+    updated,
+    labels: unique($entry.children("category").toArray().map((el) => $(el).attr("term") || $(el).text().trim())),
+    images: images.map((url) => ({ url })),
+  };
+};
+
+export const parseFeed = (xml: string, sourceId: number) => {
+  const $ = load(xml, { xml: true });
+  const posts = $("rss, rdf\\:RDF").length
+    ? $("item").toArray().map((item) => parseRssItem($, $(item), sourceId))
+    : $("feed > entry").toArray().map((entry) => parseAtomEntry($, $(entry), sourceId));
+
+  if (posts.length === 0 && !$("rss, rdf\\:RDF, feed").length) {
+    throw new FeedError("Feed Error: the URL did not return an RSS or Atom feed");
+  }
+  return posts.filter((post): post is SourcePost => !!post);
+};
+
+async function fetchFeed(url: string, sourceId: number) {
+  let response: Response;
+  try {
+    response = await fetch(url, { headers: { Accept: "application/rss+xml, application/atom+xml, application/xml;q=0.9, */*;q=0.8" } });
+  } catch (err: any) {
+    throw new FeedError(`Feed Error: ${err.message}`);
+  }
+  if (!response.ok) {
+    console.error("Feed Error:", url, response.status);
+    throw new FeedError(`Feed Error: ${url} answered with HTTP ${response.status}`);
+  }
+  return parseFeed(await response.text(), sourceId);
+}
+
+// Feeds only ever list their most recent entries, so there is no way to tell
+// a removed post from an old one; feed sources are left out of reconciliation.
+export const createFeedAdapter = (sourceId: number, url: string): SourceAdapter => ({
+  async listPosts(options) {
+    return applyListOptions(await fetchFeed(url, sourceId), options);
+  },
+
+  async getPost(id) {
+    const posts = await fetchFeed(url, sourceId);
+    return posts.find((post) => post.id === id) ?? null;
+  },
+});
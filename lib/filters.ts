@@ -0,0 +1,132 @@
+import { getSetting, setSetting } from "./db";
+import { METADATA_FIELDS, MetadataField } from "./metadata";
+import { MovieDetails } from "./render";
+import { SourcePost } from "./source";
+
+// Checked for every post before it is routed to any destination. Posts that
+// fail a rule are recorded as skipped with the rule that blocked them.
+export interface FilterRules {
+  // The post needs at least one of these labels; empty allows any
+  includeLabels: string[];
+  excludeLabels: string[];
+  // Regular expressions, matched without regard to case
+  titleInclude: string;
+  titleExclude: string;
+  minImdbRating: number | null;
+  requiredFields: MetadataField[];
+  // New posts wait this long, so authors have time to fix mistakes
+  minAgeMinutes: number;
+}
+
+export const DEFAULT_FILTER_RULES: FilterRules = {
+  includeLabels: [],
+  excludeLabels: [],
+  titleInclude: "",
+  titleExclude: "",
+  minImdbRating: null,
+  requiredFields: [],
+  minAgeMinutes: 0,
+};
+
+export class FilterRuleError extends Error {}
+
+const toList = (value: unknown) =>
+  [...new Set((Array.isArray(value) ? value : typeof value === "string" ? value.split(",") : []).map((item) => String(item).trim()).filter(Boolean))];
+
+const toPattern = (value: unknown, label: string) => {
+  const pattern = typeof value === "string" ? value.trim() : "";
+  if (pattern) {
+    try {
+      new RegExp(pattern, "iu");
+    } catch (err: any) {
+      throw new FilterRuleError(`Invalid ${label} pattern: ${err.message}`);
+    }
+  }
+  return pattern;
+};
+
+const parseFilterRules = (input: Record<string, unknown>): FilterRules => {
+  const rating = input.minImdbRating === null || input.minImdbRating === "" ? NaN : Number(input.minImdbRating);
+  if (!Number.isNaN(rating) && (rating < 0 || rating > 10)) {
+    throw new FilterRuleError("Minimum IMDb rating must be between 0 and 10");
+  }
+  const minAge = Number(input.minAgeMinutes || 0);
+  if (!Number.isFinite(minAge) || minAge < 0) {
+    throw new FilterRuleError("Minimum post age must be a positive number of minutes");
+  }
+  return {
+    includeLabels: toList(input.includeLabels),
+    excludeLabels: toList(input.excludeLabels),
+    titleInclude: toPattern(input.titleInclude, "title include"),
+    titleExclude: toPattern(input.titleExclude, "title exclude"),
+    minImdbRating: Number.isNaN(rating) ? null : rating,
+    requiredFields: toList(input.requiredFields).filter((field): field is MetadataField =>
+      (METADATA_FIELDS as readonly string[]).includes(field)
+    ),
+    minAgeMinutes: Math.floor(minAge),
+  };
+};
+
+export const getFilterRules = async (): Promise<FilterRules> => {
+  const stored = (await getSetting("FILTER_RULES")) || "{}";
+  try {
+    return parseFilterRules(JSON.parse(stored));
+  } catch (e) {
+    console.error("Ignoring malformed FILTER_RULES setting");
+    return DEFAULT_FILTER_RULES;
+  }
+};
+
+export const updateFilterRules = async (input: Record<string, unknown>) => {
+  const rules = parseFilterRules(input);
+  await setSetting("FILTER_RULES", JSON.stringify(rules));
+  // In SQLite's CURRENT_TIMESTAMP format, to compare with outbox.updated_at
+  await setSetting("FILTER_RULES_CHANGED_AT", new Date().toISOString().replace("T", " ").slice(0, 19));
+  return rules;
+};
+
+export const getFilterRulesChangedAt = async () => (await getSetting("FILTER_RULES_CHANGED_AT")) || "";
+
+// Ratings appear as "7.5", "7.5/10" or "IMDb 7.5"; the first number is the score.
+export const parseImdbRating = (value: string | null) => {
+  const rating = Number(value?.match(/\d+(?:[.,]\d+)?/)?.[0].replace(",", "."));
+  return Number.isFinite(rating) && rating <= 10 ? rating : null;
+};
+
+// When a post is too new to send, the time it may go out; null when it can go now.
+export const getHoldUntil = (rules: FilterRules, post: SourcePost, now = Date.now()) => {
+  if (!rules.minAgeMinutes || !post.published) return null;
+  const readyAt = new Date(post.published).getTime() + rules.minAgeMinutes * 60 * 1000;
+  return readyAt > now ? new Date(readyAt) : null;
+};
+
+// The rule a post fails, described for the dashboard, or null when it passes.
+// Without details only the label and title rules are checked, so posts they
+// block never reach metadata extraction.
+export const findBlockingRule = (rules: FilterRules, post: SourcePost, details?: MovieDetails): string | null => {
+  const labels = (post.labels || []).map((label) => label.toLowerCase());
+  if (rules.includeLabels.length && !rules.includeLabels.some((label) => labels.includes(label.toLowerCase()))) {
+    return `No included label (${rules.includeLabels.join(", ")})`;
+  }
+  const excluded = rules.excludeLabels.find((label) => labels.includes(label.toLowerCase()));
+  if (excluded) return `Excluded label "${excluded}"`;
+
+  const title = post.title || "";
+  if (rules.titleInclude && !new RegExp(rules.titleInclude, "iu").test(title)) {
+    return `Title does not match /${rules.titleInclude}/`;
+  }
+  if (rules.titleExclude && new RegExp(rules.titleExclude, "iu").test(title)) {
+    return `Title matches /${rules.titleExclude}/`;
+  }
+
+  if (!details) return null;
+  const missing = rules.requiredFields.filter((field) => !details[field]);
+  if (missing.length) return `Missing ${missing.join(", ")}`;
+
+  if (rules.minImdbRating !== null) {
+    const rating = parseImdbRating(details.imdb);
+    if (rating === null) return `No IMDb rating (minimum ${rules.minImdbRating})`;
+    if (rating < rules.minImdbRating) return `IMDb rating ${rating} is below ${rules.minImdbRating}`;
+  }
+  return null;
+};
@@ -0,0 +1,88 @@
+import { db } from "./db";
+
+export type HistoryStatus = "sent" | "failed" | "skipped";
+
+// One row per delivery attempt or routing decision; never updated, so the log
+// keeps every failure even after a later attempt succeeds.
+export interface HistoryEntry {
+  postId: string;
+  destinationId: number | null;
+  title: string | null;
+  url: string | null;
+  status: HistoryStatus;
+  // The send error, or why the post was skipped
+  error?: string | null;
+  messageId?: number | null;
+  attempt?: number | null;
+}
+
+export const recordHistory = async (entry: HistoryEntry) => {
+  await db.prepare(
+    `INSERT INTO delivery_history (post_id, destination_id, title, url, status, error, message_id, attempt)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+  ).run(
+    entry.postId,
+    entry.destinationId,
+    entry.title,
+    entry.url,
+    entry.status,
+    entry.error ?? null,
+    entry.messageId ?? null,
+    entry.attempt ?? null
+  );
+};
+
+export interface HistoryQuery {
+  page?: number;
+  pageSize?: number;
+  search?: string;
+  status?: string;
+  destinationId?: number;
+}
+
+const MAX_PAGE_SIZE = 100;
+
+// `state` is where the post stands with the destination now, which decides
+// the actions the dashboard offers: the outbox status, or "sent" for posts
+// synced before the outbox kept them. `clicks` counts opens of the post's
+// tracked link at that destination, over all time.
+export const listHistory = async (query: HistoryQuery = {}) => {
+  const pageSize = Math.min(Math.max(Math.floor(query.pageSize || 20), 1), MAX_PAGE_SIZE);
+  const page = Math.max(Math.floor(query.page || 1), 1);
+
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  if (query.search?.trim()) {
+    const term = `%${query.search.trim().replace(/[\\%_]/g, "\\$&")}%`;
+    conditions.push("(h.title LIKE ? ESCAPE '\\' OR h.url LIKE ? ESCAPE '\\' OR h.post_id LIKE ? ESCAPE '\\' OR h.error LIKE ? ESCAPE '\\')");
+    params.push(term, term, term, term);
+  }
+  if (query.status === "sent" || query.status === "failed" || query.status === "skipped") {
+    conditions.push("h.status = ?");
+    params.push(query.status);
+  }
+  if (query.destinationId) {
+    conditions.push("h.destination_id = ?");
+    params.push(query.destinationId);
+  }
+  const where = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+
+  const { total } = (await db.prepare(`SELECT COUNT(*) as total FROM delivery_history h ${where}`).get(...params)) as { total: number };
+  const items = (
+    (await db
+      .prepare(
+        `SELECT h.*, d.name as destination, s.metadata, o.id IS NOT NULL as resendable,
+           COALESCE(o.status, CASE WHEN s.id IS NOT NULL THEN 'sent' END) as state,
+           (SELECT COUNT(*) FROM tracked_links l JOIN link_clicks c ON c.code = l.code
+            WHERE l.post_id = h.post_id AND l.destination_id = h.destination_id) as clicks
+         FROM delivery_history h
+         LEFT JOIN destinations d ON d.id = h.destination_id
+         LEFT JOIN outbox o ON o.post_id = h.post_id AND o.destination_id = h.destination_id
+         LEFT JOIN synced_posts s ON s.post_id = h.post_id AND s.destination_id = h.destination_id
+         ${where} ORDER BY h.id DESC LIMIT ? OFFSET ?`
+      )
+      .all(...params, pageSize, (page - 1) * pageSize)) as Array<Record<string, any>>
+  ).map((row) => ({ ...row, resendable: !!row.resendable, metadata: row.metadata ? JSON.parse(row.metadata) : null }));
+
+  return { items, total, page, pageSize };
+};
@@ -0,0 +1,135 @@
+// Tags Telegram accepts with parse_mode "HTML", and the attributes it keeps on each.
+const ALLOWED_TAGS: Record<string, string[]> = {
+  b: [],
+  strong: [],
+  i: [],
+  em: [],
+  u: [],
+  ins: [],
+  s: [],
+  strike: [],
+  del: [],
+  a: ["href"],
+  code: ["class"],
+  pre: [],
+  blockquote: [],
+  "tg-spoiler": [],
+};
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+const TAG_OR_ENTITY = /<(\/?)([a-z][\w-]*)([^<>]*)>|&(#\d+|#x[\da-f]+|[a-z]+);|[<>&]/gi;
+const ATTRIBUTE = /([\w-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g;
+
+export const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+export const decodeEntities = (value: string) =>
+  value.replace(/&(#\d+|#x[\da-f]+|[a-z]+);/gi, (raw, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1].toLowerCase() === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : raw;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? raw;
+  });
+
+const isSafeHref = (href: string) => /^(https?:|tg:|mailto:)/i.test(href.trim());
+
+// Rewrites arbitrary markup into something Telegram will parse: unsupported
+// tags and stray "<", ">" or "&" become text, <br> becomes a newline, and
+// unbalanced tags are closed in the right order.
+export const sanitizeTelegramHtml = (html: string) => {
+  const open: string[] = [];
+  let output = "";
+  let lastIndex = 0;
+
+  for (const match of html.matchAll(TAG_OR_ENTITY)) {
+    const [raw, closing, rawTag, rawAttributes, entity] = match;
+    output += html.slice(lastIndex, match.index);
+    lastIndex = match.index! + raw.length;
+
+    if (entity !== undefined) {
+      // Telegram only understands numeric entities and the four basic named ones
+      output += /^(#|amp$|lt$|gt$|quot$)/i.test(entity) ? raw : escapeHtml(decodeEntities(raw));
+      continue;
+    }
+    if (rawTag === undefined) {
+      output += escapeHtml(raw);
+      continue;
+    }
+
+    const tag = rawTag.toLowerCase();
+    if (tag === "br") {
+      output += "\n";
+      continue;
+    }
+    if (!(tag in ALLOWED_TAGS)) {
+      output += escapeHtml(raw);
+      continue;
+    }
+
+    if (closing) {
+      const position = open.lastIndexOf(tag);
+      if (position === -1) continue;
+      while (open.length > position) output += `</${open.pop()}>`;
+      continue;
+    }
+
+    let attributes = "";
+    for (const [, name, double, single, bare] of rawAttributes.matchAll(ATTRIBUTE)) {
+      const attribute = name.toLowerCase();
+      const value = decodeEntities(double ?? single ?? bare);
+      if (!ALLOWED_TAGS[tag].includes(attribute)) continue;
+      if (attribute === "href" && !isSafeHref(value)) continue;
+      attributes += ` ${attribute}="${escapeHtml(value)}"`;
+    }
+    output += `<${tag}${attributes}>`;
+    open.push(tag);
+  }
+
+  output += html.slice(lastIndex);
+  while (open.length) output += `</${open.pop()}>`;
+  return output;
+};
+
+// Length as Telegram counts it: visible text only, in UTF-16 code units.
+export const htmlTextLength = (html: string) => decodeEntities(html.replace(/<[^>]*>/g, "")).length;
+
+// Cuts sanitized markup down to `maxLength` visible characters, ending with an
+// ellipsis and keeping every open tag closed.
+export const truncateHtml = (html: string, maxLength: number, ellipsis = "…") => {
+  if (htmlTextLength(html) <= maxLength) return html;
+
+  const budget = maxLength - ellipsis.length;
+  const open: string[] = [];
+  let output = "";
+  let used = 0;
+
+  for (const [token] of html.matchAll(/<\/?([a-z][\w-]*)[^>]*>|&[^;\s]+;|[\s\S]/gi)) {
+    if (token.startsWith("<") && token.length > 1) {
+      const tag = token.match(/^<\/?([a-z][\w-]*)/i)![1].toLowerCase();
+      if (token[1] === "/") open.pop();
+      else open.push(tag);
+      output += token;
+      continue;
+    }
+
+    const length = token.startsWith("&") ? 1 : token.length;
+    if (used + length > budget) break;
+    // Never leave half of a surrogate pair behind
+    if (length === 1 && /[\ud800-\udbff]/.test(token) && used + 2 > budget) break;
+    output += token;
+    used += length;
+  }
+
+  output = output.replace(/\s+$/, "") + escapeHtml(ellipsis);
+  while (open.length) output += `</${open.pop()}>`;
+  return output;
+};
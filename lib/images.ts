@@ -0,0 +1,64 @@
+import sharp from "sharp";
+
+// Telegram accepts uploaded photos up to 10 MB whose width and height add up
+// to at most 10000 pixels. Larger images are scaled down to fit well inside.
+const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+const MAX_DIMENSION = 2560;
+const MAX_DOWNLOAD_BYTES = 25 * 1024 * 1024;
+const DOWNLOAD_TIMEOUT_MS = 20 * 1000;
+
+export interface UploadImage {
+  data: Buffer;
+  filename: string;
+  contentType: string;
+}
+
+export class ImageError extends Error {}
+
+// Blog hosts with hotlink protection usually allow requests that appear to
+// come from their own pages.
+export async function downloadImage(url: string) {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      headers: { "User-Agent": "Mozilla/5.0 (compatible; MoviePoster/1.0)", Referer: `${new URL(url).origin}/` },
+      signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS),
+    });
+  } catch (err: any) {
+    throw new ImageError(`Downloading ${url} failed: ${err.message}`);
+  }
+  if (!response.ok) {
+    throw new ImageError(`Downloading ${url} failed with HTTP ${response.status}`);
+  }
+  if (Number(response.headers.get("Content-Length")) > MAX_DOWNLOAD_BYTES) {
+    throw new ImageError(`${url} is too large to download`);
+  }
+
+  const data = Buffer.from(await response.arrayBuffer());
+  if (data.length > MAX_DOWNLOAD_BYTES) throw new ImageError(`${url} is too large to download`);
+  return data;
+}
+
+// Re-encodes any format sharp reads (WebP, AVIF, PNG, huge JPEGs) as a JPEG
+// Telegram will take, lowering the quality until it is under the size limit.
+export async function prepareImage(data: Buffer, name = "image"): Promise<UploadImage> {
+  let quality = 85;
+  try {
+    const resized = sharp(data, { failOn: "none" })
+      .rotate()
+      .resize({ width: MAX_DIMENSION, height: MAX_DIMENSION, fit: "inside", withoutEnlargement: true })
+      .flatten({ background: "#ffffff" });
+    let output = await resized.clone().jpeg({ quality, mozjpeg: true }).toBuffer();
+    while (output.length > MAX_UPLOAD_BYTES && quality > 40) {
+      quality -= 15;
+      output = await resized.clone().jpeg({ quality, mozjpeg: true }).toBuffer();
+    }
+    if (output.length > MAX_UPLOAD_BYTES) throw new ImageError("Image is still too large after compression");
+    return { data: output, filename: `${name}.jpg`, contentType: "image/jpeg" };
+  } catch (err: any) {
+    if (err instanceof ImageError) throw err;
+    throw new ImageError(`Could not process image: ${err.message}`);
+  }
+}
+
+export const fetchImageForUpload = async (url: string, name?: string) => prepareImage(await downloadImage(url), name);
@@ -0,0 +1,67 @@
+import fs from "fs";
+import path from "path";
+import Database from "better-sqlite3";
+import { describeFileStorage, Storage, StorageError } from "./storage";
+import { wrapSqlite } from "./sqlite";
+
+// Keeps the data in a plain JSON file for hosts where a SQLite file cannot
+// be used, such as mounted volumes without file locking. Queries run on an
+// in-memory SQLite copy, and the whole file is rewritten after each change
+// or transaction, so it suits small databases only: writing just what changed
+// is out of scope, and larger installs should use sqlite or libsql. Only one
+// process may use a file at a time.
+interface Snapshot {
+  version: 1;
+  // CREATE statements in the order SQLite created them
+  schema: string[];
+  tables: Record<string, Array<Record<string, unknown>>>;
+}
+
+const loadSnapshot = (sqlite: any, file: string) => {
+  if (!fs.existsSync(file)) return;
+  let snapshot: Snapshot;
+  try {
+    snapshot = JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (err: any) {
+    throw new StorageError(`${file} is not a valid storage file: ${err.message}`);
+  }
+
+  sqlite.transaction(() => {
+    for (const sql of snapshot.schema) sqlite.exec(sql);
+    // sqlite_sequence only exists once a table with AUTOINCREMENT does
+    for (const [table, rows] of Object.entries(snapshot.tables)) {
+      for (const row of rows) {
+        const columns = Object.keys(row);
+        sqlite
+          .prepare(`INSERT INTO "${table}" (${columns.map((column) => `"${column}"`).join(", ")}) VALUES (${columns.map(() => "?").join(", ")})`)
+          .run(...columns.map((column) => row[column]));
+      }
+    }
+  })();
+};
+
+const saveSnapshot = (sqlite: any, file: string) => {
+  const objects = sqlite
+    .prepare("SELECT type, name, sql FROM sqlite_master WHERE sql IS NOT NULL AND name NOT LIKE 'sqlite_%' ORDER BY rowid")
+    .all() as Array<{ type: string; name: string; sql: string }>;
+  const tables: Snapshot["tables"] = {};
+  for (const { name } of objects.filter((object) => object.type === "table")) {
+    tables[name] = sqlite.prepare(`SELECT * FROM "${name}"`).all();
+  }
+  if (sqlite.prepare("SELECT 1 FROM sqlite_master WHERE name = 'sqlite_sequence'").get()) {
+    tables.sqlite_sequence = sqlite.prepare("SELECT * FROM sqlite_sequence").all();
+  }
+
+  const snapshot: Snapshot = { version: 1, schema: objects.map((object) => object.sql), tables };
+  // Written aside and renamed, so a crash never leaves half a file behind
+  const temp = `${file}.tmp`;
+  fs.writeFileSync(temp, JSON.stringify(snapshot));
+  fs.renameSync(temp, file);
+};
+
+export const openJsonStorage = (file: string): Storage => {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const sqlite = new Database(":memory:");
+  loadSnapshot(sqlite, file);
+  return wrapSqlite(sqlite, describeFileStorage("json", file), () => saveSnapshot(sqlite, file));
+};
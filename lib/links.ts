@@ -0,0 +1,59 @@
+import crypto from "crypto";
+import { db, getSetting } from "./db";
+
+// Telegram, Discord and Slack fetch a link as soon as it is posted to build a
+// preview; those requests are not clicks.
+const BOT_AGENTS = /bot\b|bot\/|crawler|spider|preview|facebookexternalhit|embedly|whatsapp/i;
+
+export interface TrackedLink {
+  code: string;
+  post_id: string;
+  destination_id: number | null;
+  url: string;
+  title: string | null;
+  created_at: string;
+}
+
+// Links are only rewritten when the server knows the public address that
+// serves /r/:code.
+export const getTrackingBaseUrl = () => {
+  const url = process.env.APP_URL?.trim().replace(/\/+$/, "");
+  return url && /^https?:\/\//i.test(url) ? url : null;
+};
+
+export const isClickTrackingEnabled = async () => (await getSetting("CLICK_TRACKING")) === "on" && !!getTrackingBaseUrl();
+
+// Stands in for the code a preview has not created yet; codes are 8 characters too.
+const PREVIEW_CODE = "new-link";
+
+// One code per post and destination, so clicks can be counted per channel.
+// The same code is kept when the post is rendered again, whether for an edit
+// or a resend, and follows the post if its URL changes.
+export const getTrackedUrl = async (post: { id: string; url: string; title?: string }, destinationId: number) => {
+  await db.prepare(
+    `INSERT INTO tracked_links (code, post_id, destination_id, url, title) VALUES (?, ?, ?, ?, ?)
+     ON CONFLICT (post_id, destination_id) DO UPDATE SET url = excluded.url, title = excluded.title`
+  ).run(crypto.randomBytes(6).toString("base64url"), post.id, destinationId, post.url, post.title || null);
+  const { code } = (await db.prepare("SELECT code FROM tracked_links WHERE post_id = ? AND destination_id = ?").get(post.id, destinationId)) as {
+    code: string;
+  };
+  return `${getTrackingBaseUrl()}/r/${code}`;
+};
+
+// The link a post would be sent with, without creating a code for it, so
+// previews leave no rows behind.
+export const previewTrackedUrl = async (post: { id: string }, destinationId: number) => {
+  const row = (await db.prepare("SELECT code FROM tracked_links WHERE post_id = ? AND destination_id = ?").get(post.id, destinationId)) as
+    | { code: string }
+    | undefined;
+  return `${getTrackingBaseUrl()}/r/${row?.code ?? PREVIEW_CODE}`;
+};
+
+export const getTrackedLink = async (code: string) =>
+  (await db.prepare("SELECT * FROM tracked_links WHERE code = ?").get(code)) as TrackedLink | undefined;
+
+export const recordClick = async (code: string, userAgent: string | undefined) => {
+  if (!userAgent || BOT_AGENTS.test(userAgent)) return false;
+  await db.prepare("INSERT INTO link_clicks (code) VALUES (?)").run(code);
+  return true;
+};
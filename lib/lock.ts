@@ -0,0 +1,40 @@
+import crypto from "crypto";
+import { db } from "./db";
+
+export interface LockRow {
+  name: string;
+  owner: string;
+  acquired_at: string;
+  expires_at: string;
+}
+
+// Leases live in SQLite rather than in memory so that separate processes
+// (dev server, serverless instances, the scheduled function) see each other.
+// A lease that is not renewed expires, so a crashed run cannot block syncing forever.
+export const acquireLock = async (name: string, ttlMs: number) => {
+  const owner = crypto.randomUUID();
+  const now = new Date();
+  const result = await db
+    .prepare(
+      `INSERT INTO locks (name, owner, acquired_at, expires_at) VALUES (?, ?, ?, ?)
+       ON CONFLICT(name) DO UPDATE SET owner = excluded.owner, acquired_at = excluded.acquired_at, expires_at = excluded.expires_at
+       WHERE locks.expires_at <= ?`
+    )
+    .run(name, owner, now.toISOString(), new Date(now.getTime() + ttlMs).toISOString(), now.toISOString());
+  return result.changes > 0 ? owner : null;
+};
+
+export const renewLock = async (name: string, owner: string, ttlMs: number) => {
+  const result = await db
+    .prepare("UPDATE locks SET expires_at = ? WHERE name = ? AND owner = ?")
+    .run(new Date(Date.now() + ttlMs).toISOString(), name, owner);
+  return result.changes > 0;
+};
+
+export const releaseLock = async (name: string, owner: string) => {
+  await db.prepare("DELETE FROM locks WHERE name = ? AND owner = ?").run(name, owner);
+};
+
+export const getActiveLock = async (name: string) =>
+  ((await db.prepare("SELECT * FROM locks WHERE name = ? AND expires_at > ?").get(name, new Date().toISOString())) as LockRow | undefined) ??
+  null;
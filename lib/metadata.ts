@@ -0,0 +1,198 @@
+import { load, CheerioAPI } from "cheerio";
+import { getSetting, setSetting } from "./db";
+
+export const METADATA_FIELDS = ["imdb", "genre", "language", "released", "director", "cast", "plot"] as const;
+
+export type MetadataField = (typeof METADATA_FIELDS)[number];
+export type MetadataSource = "selector" | "json-ld" | "ai";
+export type SelectorRules = Record<MetadataField, string>;
+
+export interface ExtractedMetadata {
+  fields: Record<MetadataField, string | null>;
+  // Where each found field came from; missing fields are absent
+  sources: Partial<Record<MetadataField, MetadataSource>>;
+}
+
+// The class names from the original blog theme, plus schema.org microdata.
+export const DEFAULT_SELECTORS: SelectorRules = {
+  imdb: ".imdb-rating, [itemprop=ratingValue]",
+  genre: ".movie-genre, [itemprop=genre]",
+  language: ".movie-language, [itemprop=inLanguage]",
+  released: ".movie-release, [itemprop=datePublished]",
+  director: ".movie-director, [itemprop=director]",
+  cast: ".movie-cast, [itemprop=actor]",
+  plot: ".movie-plot, [itemprop=description]",
+};
+
+// Fields that themes often split across several elements, one per person or genre.
+const LIST_FIELDS: MetadataField[] = ["genre", "director", "cast"];
+
+export class SelectorError extends Error {}
+
+export const getSelectorRules = async (): Promise<SelectorRules> => {
+  const raw = (await getSetting("EXTRACTION_SELECTORS")) || "{}";
+  let stored: Partial<SelectorRules> = {};
+  try {
+    stored = JSON.parse(raw);
+  } catch (e) {
+    console.error("Ignoring malformed EXTRACTION_SELECTORS setting");
+  }
+  const rules = { ...DEFAULT_SELECTORS };
+  for (const field of METADATA_FIELDS) {
+    if (typeof stored[field] === "string" && stored[field]!.trim()) rules[field] = stored[field]!.trim();
+  }
+  return rules;
+};
+
+// Blank selectors reset a field to its default.
+export const updateSelectorRules = async (input: Partial<Record<MetadataField, string | null>>) => {
+  const $ = load("");
+  const stored: Partial<SelectorRules> = {};
+  for (const field of METADATA_FIELDS) {
+    const selector = input[field]?.trim();
+    if (!selector || selector === DEFAULT_SELECTORS[field]) continue;
+    try {
+      $(selector);
+    } catch (err: any) {
+      throw new SelectorError(`Invalid selector for ${field}: ${err.message}`);
+    }
+    stored[field] = selector;
+  }
+  await setSetting("EXTRACTION_SELECTORS", JSON.stringify(stored));
+  return getSelectorRules();
+};
+
+const cleanText = (value: string) => value.replace(/\s+/g, " ").trim();
+
+// Plain text of a post, one line per block element.
+export const htmlToText = (html: string) => {
+  const $ = load(html);
+  $("script, style").remove();
+  $("br").replaceWith("\n");
+  $("p, div, li, tr, h1, h2, h3, h4, h5, h6, blockquote").after("\n");
+  return $.root()
+    .text()
+    .replace(/[^\S\n]+/g, " ")
+    .replace(/ *\n[\s]*/g, "\n")
+    .trim();
+};
+
+const selectField = ($: CheerioAPI, field: MetadataField, selector: string) => {
+  const values = $(selector)
+    .toArray()
+    .map((element) => cleanText($(element).attr("content") || $(element).text()))
+    .filter(Boolean);
+  if (values.length === 0) return null;
+  return LIST_FIELDS.includes(field) ? [...new Set(values)].join(", ") : values[0];
+};
+
+// JSON-LD values are a string, a { name } object, or an array of either.
+const namesOf = (value: any): string | null => {
+  const names = (Array.isArray(value) ? value : [value])
+    .map((item) => (typeof item === "string" || typeof item === "number" ? String(item) : item?.name))
+    .filter((name): name is string => typeof name === "string" && !!name.trim())
+    .map(cleanText);
+  return names.length ? [...new Set(names)].join(", ") : null;
+};
+
+const findMovieNode = ($: CheerioAPI): any => {
+  const queue: any[] = [];
+  $('script[type="application/ld+json"]').each((_, element) => {
+    try {
+      queue.push(JSON.parse($(element).text()));
+    } catch (e) {
+      // Themes sometimes ship broken JSON-LD; the selectors still apply
+    }
+  });
+
+  while (queue.length) {
+    const node = queue.shift();
+    if (Array.isArray(node)) {
+      queue.push(...node);
+    } else if (node && typeof node === "object") {
+      const types = Array.isArray(node["@type"]) ? node["@type"] : [node["@type"]];
+      if (types.includes("Movie")) return node;
+      if (node["@graph"]) queue.push(node["@graph"]);
+    }
+  }
+  return null;
+};
+
+const fromJsonLd = (movie: any): Record<MetadataField, string | null> => ({
+  imdb: namesOf(movie.aggregateRating?.ratingValue),
+  genre: namesOf(movie.genre),
+  language: namesOf(movie.inLanguage),
+  released: namesOf(movie.datePublished ?? movie.dateCreated),
+  director: namesOf(movie.director),
+  cast: namesOf(movie.actor ?? movie.actors),
+  plot: namesOf(movie.description),
+});
+
+// Configured selectors win; schema.org Movie data fills whatever they miss.
+export const extractMetadata = (html: string, rules: SelectorRules): ExtractedMetadata => {
+  const $ = load(html);
+  const movie = findMovieNode($);
+  const structured = movie ? fromJsonLd(movie) : null;
+
+  const fields = {} as ExtractedMetadata["fields"];
+  const sources: ExtractedMetadata["sources"] = {};
+  for (const field of METADATA_FIELDS) {
+    let value: string | null = null;
+    try {
+      value = selectField($, field, rules[field]);
+    } catch (err) {
+      console.error(`Extraction selector for ${field} failed:`, err);
+    }
+
+    if (value) {
+      sources[field] = "selector";
+    } else if (structured?.[field]) {
+      value = structured[field];
+      sources[field] = "json-ld";
+    }
+    fields[field] = value;
+  }
+  return { fields, sources };
+};
+
+export interface PostLinks {
+  trailer: string | null;
+  imdb_url: string | null;
+}
+
+const YOUTUBE_ID = /(?:youtube(?:-nocookie)?\.com\/(?:embed\/|watch\?(?:.*&)?v=|shorts\/)|youtu\.be\/)([\w-]{11})/;
+const IMDB_TITLE = /imdb\.com\/(?:[a-z]{2}\/)?title\/(tt\d+)/;
+
+// The first YouTube embed or link is taken as the trailer, and the first
+// IMDb title link as the movie's page. Both are normalised to canonical URLs.
+export const extractLinks = (html: string): PostLinks => {
+  const $ = load(html);
+  const urls = $("iframe[src], a[href]")
+    .toArray()
+    .map((element) => $(element).attr("src") || $(element).attr("href") || "");
+  const movie = findMovieNode($);
+  if (movie) urls.push(...[movie.trailer?.embedUrl, movie.trailer?.url, movie.sameAs, movie.url].flat().filter((url) => typeof url === "string"));
+
+  const youtubeId = urls.map((url) => url.match(YOUTUBE_ID)?.[1]).find(Boolean);
+  const imdbId = urls.map((url) => url.match(IMDB_TITLE)?.[1]).find(Boolean);
+  return {
+    trailer: youtubeId ? `https://www.youtube.com/watch?v=${youtubeId}` : null,
+    imdb_url: imdbId ? `https://www.imdb.com/title/${imdbId}/` : null,
+  };
+};
+
+// Every image in the post body, in order, without inline data, duplicates or
+// images sized as icons.
+export const extractImageUrls = (html: string) => {
+  const $ = load(html);
+  const urls = $("img[src]")
+    .toArray()
+    .filter((element) => {
+      const width = Number($(element).attr("width"));
+      const height = Number($(element).attr("height"));
+      return !(width && width < 100) && !(height && height < 100);
+    })
+    .map((element) => $(element).attr("src")!.trim())
+    .filter((url) => /^https?:\/\//i.test(url));
+  return [...new Set(urls)];
+};
@@ -0,0 +1,246 @@
+import { Storage } from "./storage";
+
+// Each migration runs once per database, in its own transaction, and is
+// recorded in schema_migrations. Append new ones with the next version;
+// never edit one that has shipped.
+interface Migration {
+  version: number;
+  name: string;
+  up: (db: Storage) => Promise<void>;
+}
+
+const getColumns = async (db: Storage, table: string) =>
+  ((await db.prepare(`PRAGMA table_info(${table})`).all()) as Array<{ name: string }>).map((col) => col.name);
+
+async function ensureColumn(db: Storage, table: string, column: string, definition: string) {
+  if (!(await getColumns(db, table)).includes(column)) {
+    await db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+// synced_posts and outbox were keyed by post ID alone until posts could go to
+// several destinations. Older tables are moved aside before the new ones are
+// created, then copied across with no destination; the first destination
+// claims those rows when it is seeded.
+const KEYED_BY_DESTINATION = ["synced_posts", "outbox"];
+
+async function setAsideLegacyTables(db: Storage) {
+  const legacy: string[] = [];
+  for (const table of KEYED_BY_DESTINATION) {
+    const columns = await getColumns(db, table);
+    if (columns.length > 0 && !columns.includes("destination_id")) legacy.push(table);
+  }
+  for (const table of legacy) {
+    await db.exec(`ALTER TABLE ${table} RENAME TO ${table}_legacy`);
+    // Index names are global, so the old ones would stop the new table's from being created
+    const indexes = (await db
+      .prepare("SELECT name FROM sqlite_master WHERE type = 'index' AND tbl_name = ? AND sql IS NOT NULL")
+      .all(`${table}_legacy`)) as Array<{ name: string }>;
+    for (const { name } of indexes) await db.exec(`DROP INDEX ${name}`);
+  }
+  return legacy;
+}
+
+async function copyLegacyTables(db: Storage, legacy: string[]) {
+  for (const table of legacy) {
+    const columns = (await getColumns(db, `${table}_legacy`)).join(", ");
+    await db.exec(`INSERT INTO ${table} (${columns}) SELECT ${columns} FROM ${table}_legacy`);
+    await db.exec(`DROP TABLE ${table}_legacy`);
+  }
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    // Also brings databases from before migrations were tracked up to date,
+    // so every step here has to be safe to run on one.
+    name: "initial schema",
+    up: async (db) => {
+      const legacy = await setAsideLegacyTables(db);
+      const hasHistory = (await getColumns(db, "delivery_history")).length > 0;
+      await db.exec(`
+        CREATE TABLE IF NOT EXISTS synced_posts (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          post_id TEXT NOT NULL,
+          destination_id INTEGER,
+          synced_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE (post_id, destination_id)
+        );
+        CREATE TABLE IF NOT EXISTS settings (
+          key TEXT PRIMARY KEY,
+          value TEXT
+        );
+        CREATE TABLE IF NOT EXISTS backfill_jobs (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          status TEXT NOT NULL,
+          start_date TEXT NOT NULL,
+          end_date TEXT NOT NULL,
+          total INTEGER DEFAULT 0,
+          processed INTEGER DEFAULT 0,
+          sent INTEGER DEFAULT 0,
+          skipped INTEGER DEFAULT 0,
+          failed INTEGER DEFAULT 0,
+          error TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          finished_at DATETIME
+        );
+        CREATE TABLE IF NOT EXISTS outbox (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          post_id TEXT NOT NULL,
+          destination_id INTEGER,
+          chat_id TEXT NOT NULL,
+          title TEXT,
+          payload TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'pending',
+          attempts INTEGER NOT NULL DEFAULT 0,
+          next_attempt_at TEXT NOT NULL,
+          last_error TEXT,
+          error_kind TEXT,
+          message_id INTEGER,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE (post_id, destination_id)
+        );
+        CREATE INDEX IF NOT EXISTS idx_outbox_due ON outbox (status, next_attempt_at);
+        CREATE TABLE IF NOT EXISTS templates (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          body TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE TABLE IF NOT EXISTS sources (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          type TEXT NOT NULL,
+          name TEXT NOT NULL,
+          config TEXT NOT NULL DEFAULT '{}',
+          enabled INTEGER NOT NULL DEFAULT 1,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE TABLE IF NOT EXISTS destinations (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          type TEXT NOT NULL,
+          name TEXT NOT NULL,
+          config TEXT NOT NULL DEFAULT '{}',
+          template_id INTEGER,
+          rules TEXT NOT NULL DEFAULT '{}',
+          enabled INTEGER NOT NULL DEFAULT 1,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE TABLE IF NOT EXISTS delivery_history (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          post_id TEXT NOT NULL,
+          destination_id INTEGER,
+          title TEXT,
+          url TEXT,
+          status TEXT NOT NULL,
+          error TEXT,
+          message_id INTEGER,
+          attempt INTEGER,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE INDEX IF NOT EXISTS idx_history_post ON delivery_history (post_id, destination_id);
+        CREATE TABLE IF NOT EXISTS locks (
+          name TEXT PRIMARY KEY,
+          owner TEXT NOT NULL,
+          acquired_at TEXT NOT NULL,
+          expires_at TEXT NOT NULL
+        );
+      `);
+
+      // Columns added after the first release; older databases are upgraded in place
+      await ensureColumn(db, "synced_posts", "chat_id", "TEXT");
+      await ensureColumn(db, "synced_posts", "message_id", "INTEGER");
+      await ensureColumn(db, "synced_posts", "message_type", "TEXT");
+      await ensureColumn(db, "synced_posts", "photo_message_id", "INTEGER");
+      await ensureColumn(db, "synced_posts", "image_url", "TEXT");
+      await ensureColumn(db, "synced_posts", "content_hash", "TEXT");
+      await ensureColumn(db, "synced_posts", "metadata", "TEXT");
+      await ensureColumn(db, "synced_posts", "post_updated", "TEXT");
+      await ensureColumn(db, "synced_posts", "published", "TEXT");
+      await ensureColumn(db, "synced_posts", "source_id", "INTEGER");
+      await ensureColumn(db, "synced_posts", "removed_at", "DATETIME");
+      await ensureColumn(db, "synced_posts", "message_ref", "TEXT");
+      await ensureColumn(db, "synced_posts", "media_message_ids", "TEXT");
+      await ensureColumn(db, "outbox", "claimed_by", "TEXT");
+      await ensureColumn(db, "outbox", "claim_expires_at", "TEXT");
+      // Metadata extracted when the post was routed, so every destination renders the same details
+      await ensureColumn(db, "outbox", "details", "TEXT");
+      // The filter rule that kept a post from every destination
+      await ensureColumn(db, "outbox", "skip_reason", "TEXT");
+      await ensureColumn(db, "destinations", "options", "TEXT NOT NULL DEFAULT '{}'");
+
+      await copyLegacyTables(db, legacy);
+
+      // Deliveries from before the history existed start it off
+      if (!hasHistory) {
+        await db.exec(`
+          INSERT INTO delivery_history (post_id, destination_id, title, url, status, message_id, created_at)
+          SELECT s.post_id, s.destination_id, o.title, json_extract(o.payload, '$.url'), 'sent', s.message_id, s.synced_at
+          FROM synced_posts s LEFT JOIN outbox o ON o.post_id = s.post_id AND o.destination_id IS s.destination_id
+          ORDER BY s.synced_at, s.id
+        `);
+      }
+    },
+  },
+  {
+    version: 2,
+    name: "click tracking",
+    up: async (db) => {
+      await db.exec(`
+        CREATE TABLE IF NOT EXISTS tracked_links (
+          code TEXT PRIMARY KEY,
+          post_id TEXT NOT NULL,
+          destination_id INTEGER,
+          url TEXT NOT NULL,
+          title TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE (post_id, destination_id)
+        );
+        CREATE TABLE IF NOT EXISTS link_clicks (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          code TEXT NOT NULL,
+          clicked_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE INDEX IF NOT EXISTS idx_link_clicks_code ON link_clicks (code, clicked_at);
+      `);
+    },
+  },
+  {
+    version: 3,
+    // Backfills counted held, filtered and already synced posts together as skipped
+    name: "backfill skip reasons",
+    up: async (db) => {
+      await db.exec(`
+        ALTER TABLE backfill_jobs RENAME COLUMN skipped TO already_synced;
+        ALTER TABLE backfill_jobs ADD COLUMN held INTEGER DEFAULT 0;
+        ALTER TABLE backfill_jobs ADD COLUMN filtered INTEGER DEFAULT 0;
+      `);
+    },
+  },
+];
+
+export const getSchemaVersion = async (db: Storage) =>
+  ((await db.prepare("SELECT MAX(version) as version FROM schema_migrations").get()) as { version: number | null }).version ?? 0;
+
+// Brings the schema up to date. Stops at the first migration that fails, so
+// later ones never run against a schema they were not written for.
+export async function migrate(db: Storage) {
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+  const current = await getSchemaVersion(db);
+  for (const migration of MIGRATIONS.filter((m) => m.version > current)) {
+    await db.transaction(async () => {
+      await migration.up(db);
+      await db.prepare("INSERT INTO schema_migrations (version, name) VALUES (?, ?)").run(migration.version, migration.name);
+    });
+    console.log(`Applied database migration ${migration.version}: ${migration.name}.`);
+  }
+}
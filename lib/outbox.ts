@@ -0,0 +1,551 @@
+import crypto from "crypto";
+import { db } from "./db";
+import { extractMovieDetails, MovieDetails, RenderedPost, renderPost } from "./render";
+import { recordSyncedPost } from "./posts";
+import { DeliveryRecord, getDeliveryRetryAfterMs, isTransientDeliveryError } from "./destination";
+import { ActiveDestination, matchesRules } from "./destinations";
+import { SourceAdapter, SourceError, SourcePost } from "./source";
+import { findBlockingRule, getFilterRules, getFilterRulesChangedAt, getHoldUntil } from "./filters";
+import { HistoryEntry, recordHistory } from "./history";
+import { METADATA_FIELDS } from "./metadata";
+import { emitSyncEvent } from "./events";
+
+const MAX_ATTEMPTS = 8;
+const BASE_BACKOFF_MS = 30 * 1000;
+const MAX_BACKOFF_MS = 6 * 60 * 60 * 1000;
+
+// "sending" marks an item claimed by a run; the claim expires if that run dies.
+// "skipped" records that the post did not match the destination's rules, or
+// failed a filter rule, which is then kept in skip_reason until the post is
+// routed again.
+export type OutboxStatus = "pending" | "sending" | "sent" | "failed" | "skipped";
+
+// A claim is renewed while its send is in flight, since an album upload can
+// take longer than the TTL; it only runs out once its run has died.
+const CLAIM_TTL_MS = 2 * 60 * 1000;
+const CLAIM_RENEW_MS = 30 * 1000;
+
+// Writing down a message that was already sent is retried rather than given up
+const RECORD_ATTEMPTS = 3;
+const RECORD_RETRY_MS = 500;
+
+// Items sent while the database refused every write; they are never claimed
+// again by this process, whatever the outbox row still says.
+const unrecorded = new Set<number>();
+
+export interface OutboxItem {
+  id: number;
+  post_id: string;
+  destination_id: number | null;
+  chat_id: string;
+  title: string | null;
+  payload: string;
+  details: string | null;
+  status: OutboxStatus;
+  skip_reason: string | null;
+  attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  error_kind: "transient" | "permanent" | null;
+  message_id: number | null;
+  claimed_by: string | null;
+  claim_expires_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type DeliveryOutcome =
+  | { status: "sent"; messageId: number | null }
+  | { status: "retry"; error: string; nextAttemptAt: string; rateLimited: boolean }
+  | { status: "failed"; error: string }
+  | { status: "busy" };
+
+// Exponential backoff with jitter; Telegram's retry_after wins when it is longer.
+const nextAttemptDelay = (attempts: number, retryAfterMs: number | null) => {
+  const backoff = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** (attempts - 1));
+  const jittered = backoff * (0.8 + Math.random() * 0.4);
+  return Math.max(jittered, retryAfterMs ?? 0);
+};
+
+// Queues a post for delivery to one destination. Posts already in the outbox
+// for that destination are left alone, so repeated syncs never queue the same
+// post twice; the exception is a post a filter skipped, which planRoute hands
+// back for another look and is replaced with the new decision.
+export const enqueuePost = async (
+  post: any,
+  target: ActiveDestination,
+  details: MovieDetails | null,
+  status: OutboxStatus = "pending",
+  skipReason: string | null = null
+) => {
+  const result = await db
+    .prepare(
+      `INSERT INTO outbox (post_id, destination_id, chat_id, title, payload, details, status, skip_reason, next_attempt_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (post_id, destination_id) DO UPDATE SET
+         chat_id = excluded.chat_id, title = excluded.title, payload = excluded.payload, details = excluded.details,
+         status = excluded.status, skip_reason = excluded.skip_reason, next_attempt_at = excluded.next_attempt_at,
+         attempts = 0, last_error = NULL, error_kind = NULL, updated_at = CURRENT_TIMESTAMP
+       WHERE outbox.status = 'skipped' AND outbox.skip_reason IS NOT NULL`
+    )
+    .run(
+      post.id,
+      target.destination.id,
+      target.adapter.target,
+      post.title || null,
+      JSON.stringify(post),
+      details ? JSON.stringify(details) : null,
+      status,
+      skipReason,
+      new Date().toISOString()
+    );
+  return result.changes > 0;
+};
+
+export interface RoutePlan {
+  // Destinations that have not seen the post yet
+  targets: ActiveDestination[];
+  // Set while the post is younger than the minimum age
+  heldUntil: Date | null;
+  // The filter rule the post fails, if any
+  blocked: string | null;
+  details: MovieDetails | null;
+}
+
+// Decides where a post would go without recording anything, so a sync and a
+// preview of it reach the same answer. A post a filter skipped is decided
+// again once it has been edited or the filter rules have changed since.
+export async function planRoute(post: SourcePost, destinations: ActiveDestination[]): Promise<RoutePlan> {
+  const isTracked = db.prepare(
+    `SELECT 1 FROM outbox WHERE post_id = ? AND destination_id = ?
+       AND NOT (status = 'skipped' AND skip_reason IS NOT NULL AND (json_extract(payload, '$.updated') IS NOT ? OR updated_at < ?))
+     UNION ALL SELECT 1 FROM synced_posts WHERE post_id = ? AND destination_id = ?`
+  );
+  const filtersChangedAt = await getFilterRulesChangedAt();
+  const targets: ActiveDestination[] = [];
+  for (const target of destinations) {
+    const { id } = target.destination;
+    if (!(await isTracked.get(post.id, id, post.updated ?? null, filtersChangedAt, post.id, id))) targets.push(target);
+  }
+  if (targets.length === 0) return { targets, heldUntil: null, blocked: null, details: null };
+
+  const filters = await getFilterRules();
+  const heldUntil = getHoldUntil(filters, post);
+  if (heldUntil) return { targets, heldUntil, blocked: null, details: null };
+
+  // Extracted once for every destination, so the AI step runs once per post
+  let blocked = findBlockingRule(filters, post);
+  const details = blocked ? null : await extractMovieDetails(post);
+  if (details) blocked = findBlockingRule(filters, post, details);
+  return { targets, heldUntil, blocked, details };
+}
+
+export const matchesPlan = ({ blocked, details }: RoutePlan, target: ActiveDestination, post: SourcePost) =>
+  !blocked && !!details && matchesRules(target.destination.rules, post, details);
+
+export const SKIPPED_BY_RULES = "Did not match the destination's routing rules";
+
+export interface RouteOutcome {
+  queued: number;
+  // Destinations the post was skipped for by a filter or routing rule
+  skipped: number;
+  // Left for a later run because of the minimum post age
+  held: boolean;
+}
+
+// Queues a post for every destination whose rules it matches, and records a
+// skip for the rest so the decision is not made again on the next run.
+// Destinations the post already went to are left alone, which is what keeps
+// a newly added channel from resending everything to the existing ones.
+// Posts younger than the minimum age are left for a later run, and posts
+// failing a filter rule are skipped everywhere.
+export async function routePost(post: SourcePost, destinations: ActiveDestination[]): Promise<RouteOutcome> {
+  const title = post.title || post.id;
+  emitSyncEvent({ type: "processing", postId: post.id, title });
+  const plan = await planRoute(post, destinations);
+  if (plan.heldUntil) {
+    console.log(`Holding ${post.title} (${post.id}) until ${plan.heldUntil.toISOString()} (minimum post age).`);
+    emitSyncEvent({ type: "held", postId: post.id, title, until: plan.heldUntil.toISOString() });
+    return { queued: 0, skipped: 0, held: true };
+  }
+  const { blocked, details } = plan;
+  if (blocked) console.log(`Skipping ${post.title} (${post.id}): ${blocked}`);
+  if (details) {
+    const fields = Object.fromEntries(METADATA_FIELDS.flatMap((field) => (details[field] ? [[field, details[field]]] : [])));
+    emitSyncEvent({ type: "extracted", postId: post.id, title, fields });
+  }
+
+  let queued = 0;
+  let skipped = 0;
+  for (const target of plan.targets) {
+    const matches = matchesPlan(plan, target, post);
+    if (!(await enqueuePost(post, target, details, matches ? "pending" : "skipped", blocked))) continue;
+    if (matches) {
+      queued++;
+    } else {
+      skipped++;
+      const error = blocked || SKIPPED_BY_RULES;
+      emitSyncEvent({ type: "skipped", postId: post.id, title, destination: target.destination.name, error });
+      await recordHistory({
+        postId: post.id,
+        destinationId: target.destination.id,
+        title: post.title || null,
+        url: post.url || null,
+        status: "skipped",
+        error,
+      });
+    }
+  }
+  if (queued > 0) emitSyncEvent({ type: "queued", postId: post.id, title, destinations: queued });
+  return { queued, skipped, held: false };
+}
+
+// Posts a filter skipped are only fetched again in catch-up mode when they
+// are newer than the watermark, so they are looked up one by one instead:
+// the ones edited since (found among `recentlyUpdated`) and, after a rule
+// change, every one not checked since. The longest unchecked go first, and
+// the rest wait for the next run.
+const MAX_RECHECKS_PER_RUN = 20;
+
+export async function recheckSkippedPosts(
+  sourceId: number,
+  adapter: SourceAdapter,
+  recentlyUpdated: SourcePost[],
+  destinations: ActiveDestination[]
+) {
+  if (destinations.length === 0) return 0;
+  const filtersChangedAt = await getFilterRulesChangedAt();
+  const rows = (await db
+    .prepare(
+      `SELECT post_id, json_extract(payload, '$.updated') as post_updated, MIN(updated_at) as checked_at FROM outbox
+       WHERE status = 'skipped' AND skip_reason IS NOT NULL AND json_extract(payload, '$.sourceId') = ?
+         AND destination_id IN (${destinations.map(() => "?").join(", ")})
+       GROUP BY post_id ORDER BY checked_at`
+    )
+    .all(sourceId, ...destinations.map(({ destination }) => destination.id))) as Array<{
+    post_id: string;
+    post_updated: string | null;
+    checked_at: string;
+  }>;
+
+  const edited = new Map(recentlyUpdated.map((post) => [post.id, post]));
+  const due = rows
+    .filter((row) => {
+      const post = edited.get(row.post_id);
+      return (!!post?.updated && post.updated !== row.post_updated) || row.checked_at < filtersChangedAt;
+    })
+    .slice(0, MAX_RECHECKS_PER_RUN);
+
+  let queued = 0;
+  for (const row of due) {
+    let post: SourcePost | null;
+    try {
+      post = await adapter.getPost(row.post_id);
+    } catch (err: any) {
+      if (!(err instanceof SourceError)) throw err;
+      console.error(`Re-checking skipped post ${row.post_id} failed:`, err.message);
+      return queued;
+    }
+    if (!post) {
+      // No longer published; marked as checked so it stops coming up
+      await db
+        .prepare("UPDATE outbox SET updated_at = CURRENT_TIMESTAMP WHERE post_id = ? AND status = 'skipped' AND skip_reason IS NOT NULL")
+        .run(row.post_id);
+      continue;
+    }
+    queued += (await routePost(post, destinations)).queued;
+  }
+  return queued;
+}
+
+export const getOutboxItem = async (id: number) =>
+  (await db.prepare("SELECT * FROM outbox WHERE id = ?").get(id)) as OutboxItem | undefined;
+
+export const getDueOutboxItemsForPost = async (postId: string) =>
+  (await db
+    .prepare("SELECT * FROM outbox WHERE post_id = ? AND status = 'pending' AND next_attempt_at <= ? ORDER BY id")
+    .all(postId, new Date().toISOString())) as OutboxItem[];
+
+// Takes exclusive ownership of an item before anything is sent, so two runs
+// can never deliver the same post.
+const claimOutboxItem = async (id: number) => {
+  if (unrecorded.has(id)) return null;
+  const now = new Date();
+  const claimant = crypto.randomUUID();
+  const result = await db
+    .prepare(
+      `UPDATE outbox SET status = 'sending', claimed_by = ?, claim_expires_at = ?, updated_at = CURRENT_TIMESTAMP
+       WHERE id = ? AND (status = 'pending' OR (status = 'sending' AND claim_expires_at <= ?))`
+    )
+    .run(claimant, new Date(now.getTime() + CLAIM_TTL_MS).toISOString(), id, now.toISOString());
+  return result.changes > 0 ? claimant : null;
+};
+
+// Keeps a claim alive until stop() is called.
+const holdClaim = (id: number, claimant: string) => {
+  const timer = setInterval(() => {
+    db.prepare("UPDATE outbox SET claim_expires_at = ? WHERE id = ? AND status = 'sending' AND claimed_by = ?")
+      .run(new Date(Date.now() + CLAIM_TTL_MS).toISOString(), id, claimant)
+      .catch((err) => console.error(`Outbox Claim Error (item ${id}):`, err));
+  }, CLAIM_RENEW_MS);
+  return { stop: () => clearInterval(timer) };
+};
+
+export async function deliverOutboxItem(item: OutboxItem, target: ActiveDestination): Promise<DeliveryOutcome> {
+  const claimant = await claimOutboxItem(item.id);
+  if (!claimant) {
+    console.log(`Outbox item ${item.id} is already being delivered by another run.`);
+    return { status: "busy" };
+  }
+  const claim = holdClaim(item.id, claimant);
+  try {
+    return await sendOutboxItem(item, target);
+  } finally {
+    claim.stop();
+  }
+}
+
+async function sendOutboxItem(item: OutboxItem, target: ActiveDestination): Promise<DeliveryOutcome> {
+  const post = JSON.parse(item.payload);
+  const details = item.details ? (JSON.parse(item.details) as MovieDetails) : undefined;
+  const attempts = item.attempts + 1;
+  const now = new Date();
+  const entry = { postId: post.id, destinationId: target.destination.id, title: post.title || null, url: post.url || null, attempt: attempts };
+  const event = { postId: post.id, title: post.title || post.id, destination: target.destination.name };
+
+  let rendered: RenderedPost;
+  let record: DeliveryRecord;
+  try {
+    rendered = await renderPost(post, target.templateBody, details, target.renderOptions);
+    console.log(`Sending to ${target.destination.name}: ${post.title} (${post.id}), attempt ${attempts}...`);
+    emitSyncEvent({ type: "sending", ...event, attempt: attempts });
+    record = await target.adapter.send(post, rendered);
+  } catch (err: any) {
+    const error = err.message || String(err);
+    const transient = isTransientDeliveryError(err);
+    console.error(`${target.destination.name} Send Failed (${transient ? "transient" : "permanent"}):`, error);
+    await recordHistory({ ...entry, status: "failed", error });
+
+    if (!transient || attempts >= MAX_ATTEMPTS) {
+      await db.prepare(
+        `UPDATE outbox SET status = 'failed', attempts = ?, last_error = ?, error_kind = ?,
+         claimed_by = NULL, claim_expires_at = NULL, updated_at = CURRENT_TIMESTAMP WHERE id = ?`
+      ).run(attempts, error, transient ? "transient" : "permanent", item.id);
+      emitSyncEvent({ type: "failed", ...event, error });
+      return { status: "failed", error };
+    }
+
+    const retryAfterMs = getDeliveryRetryAfterMs(err);
+    const nextAttemptAt = new Date(now.getTime() + nextAttemptDelay(attempts, retryAfterMs)).toISOString();
+    await db.prepare(
+      `UPDATE outbox SET status = 'pending', attempts = ?, next_attempt_at = ?, last_error = ?, error_kind = 'transient',
+       claimed_by = NULL, claim_expires_at = NULL, updated_at = CURRENT_TIMESTAMP WHERE id = ?`
+    ).run(attempts, nextAttemptAt, error, item.id);
+    emitSyncEvent({ type: "retry", ...event, error });
+    return { status: "retry", error, nextAttemptAt, rateLimited: retryAfterMs !== null };
+  }
+
+  // The message is out, so a failure from here on must never put the item
+  // back in the queue: that would post it a second time.
+  await recordDelivery(item, target, post, rendered, record, entry);
+  console.log(`Successfully sent to ${target.destination.name}.`);
+  emitSyncEvent({ type: "sent", ...event });
+  return { status: "sent", messageId: record.messageId };
+}
+
+// Records a sent message, retrying the writes a few times. If they keep
+// failing, the item is still marked sent with the error kept on it; edits and
+// deletions will not find that message, but it is never posted twice.
+async function recordDelivery(
+  item: OutboxItem,
+  target: ActiveDestination,
+  post: any,
+  rendered: RenderedPost,
+  record: DeliveryRecord,
+  entry: Omit<HistoryEntry, "status">
+) {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await db.transaction(async () => {
+        await recordSyncedPost(post, target.destination.id, target.adapter.target, record, rendered);
+        await db.prepare(
+          `UPDATE outbox SET status = 'sent', attempts = ?, message_id = ?, last_error = NULL, error_kind = NULL,
+           claimed_by = NULL, claim_expires_at = NULL, updated_at = CURRENT_TIMESTAMP WHERE id = ?`
+        ).run(entry.attempt, record.messageId, item.id);
+        await recordHistory({ ...entry, status: "sent", messageId: record.messageId });
+      });
+      return;
+    } catch (err: any) {
+      if (attempt < RECORD_ATTEMPTS) {
+        await new Promise((resolve) => setTimeout(resolve, RECORD_RETRY_MS * attempt));
+        continue;
+      }
+      console.error(`Outbox Record Error (item ${item.id} was sent to ${target.destination.name}):`, err);
+      try {
+        await db.prepare(
+          `UPDATE outbox SET status = 'sent', attempts = ?, message_id = ?, last_error = ?, error_kind = NULL,
+           claimed_by = NULL, claim_expires_at = NULL, updated_at = CURRENT_TIMESTAMP WHERE id = ?`
+        ).run(entry.attempt, record.messageId, `Sent, but the delivery could not be recorded: ${err.message || err}`, item.id);
+      } catch (markErr: any) {
+        unrecorded.add(item.id);
+        console.error(`Outbox Record Error (item ${item.id} could not be marked sent either):`, markErr);
+      }
+      return;
+    }
+  }
+}
+
+// Delivers every due item for the given destinations, oldest post first.
+// Items for paused destinations wait until they are enabled again. A
+// destination that hits a rate limit is skipped for the rest of the run,
+// since every other send to it would be rejected too.
+export async function processOutbox(destinations: ActiveDestination[], limit: number, heartbeat?: () => Promise<unknown>) {
+  const counts = { sent: 0, failed: 0, deferred: 0 };
+  if (destinations.length === 0) return counts;
+
+  const targets = new Map(destinations.map((target) => [target.destination.id, target]));
+  const now = new Date().toISOString();
+  const due = (await db
+    .prepare(
+      `SELECT * FROM outbox
+       WHERE destination_id IN (${destinations.map(() => "?").join(", ")})
+         AND ((status = 'pending' AND next_attempt_at <= ?) OR (status = 'sending' AND claim_expires_at <= ?))
+       ORDER BY json_extract(payload, '$.published'), id LIMIT ?`
+    )
+    .all(...targets.keys(), now, now, limit)) as OutboxItem[];
+
+  const rateLimited = new Set<number>();
+  for (const item of due) {
+    const target = targets.get(item.destination_id!)!;
+    if (rateLimited.has(target.destination.id)) continue;
+
+    await heartbeat?.();
+    const outcome = await deliverOutboxItem(item, target);
+    if (outcome.status === "sent") counts.sent++;
+    else if (outcome.status === "failed") counts.failed++;
+    else if (outcome.status === "retry") {
+      counts.deferred++;
+      if (outcome.rateLimited) rateLimited.add(target.destination.id);
+    }
+  }
+  return counts;
+}
+
+export const getOutboxCounts = async () => {
+  const rows = (await db.prepare("SELECT status, COUNT(*) as count FROM outbox WHERE status NOT IN ('sent', 'skipped') GROUP BY status").all()) as Array<{
+    status: OutboxStatus;
+    count: number;
+  }>;
+  const counts = { pending: 0, failed: 0 };
+  for (const row of rows) {
+    if (row.status === "failed") counts.failed += row.count;
+    else counts.pending += row.count;
+  }
+  return counts;
+};
+
+export interface DeliveryStats {
+  sent: number;
+  pending: number;
+  failed: number;
+  skipped: number;
+  lastSentAt: string | null;
+  lastError: string | null;
+  lastErrorAt: string | null;
+}
+
+// Delivery state for each destination, keyed by destination ID. The last
+// error is only reported while a failure is still unresolved.
+export const getDeliveryStats = async () => {
+  const rows = (await db
+    .prepare(
+      `SELECT destination_id, status, COUNT(*) as count, MAX(updated_at) as updated_at
+       FROM outbox WHERE destination_id IS NOT NULL GROUP BY destination_id, status`
+    )
+    .all()) as Array<{ destination_id: number; status: OutboxStatus; count: number; updated_at: string }>;
+  const errors = (await db
+    .prepare(
+      `SELECT destination_id, last_error, updated_at FROM outbox o
+       WHERE last_error IS NOT NULL AND status != 'sent'
+         AND updated_at = (SELECT MAX(updated_at) FROM outbox WHERE destination_id = o.destination_id AND last_error IS NOT NULL AND status != 'sent')`
+    )
+    .all()) as Array<{ destination_id: number; last_error: string; updated_at: string }>;
+
+  const stats = new Map<number, DeliveryStats>();
+  const entry = (id: number) => {
+    if (!stats.has(id)) {
+      stats.set(id, { sent: 0, pending: 0, failed: 0, skipped: 0, lastSentAt: null, lastError: null, lastErrorAt: null });
+    }
+    return stats.get(id)!;
+  };
+  for (const row of rows) {
+    const current = entry(row.destination_id);
+    if (row.status === "sent") {
+      current.sent += row.count;
+      current.lastSentAt = row.updated_at;
+    } else if (row.status === "skipped") current.skipped += row.count;
+    else if (row.status === "failed") current.failed += row.count;
+    else current.pending += row.count;
+  }
+  for (const row of errors) {
+    const current = entry(row.destination_id);
+    current.lastError = row.last_error;
+    current.lastErrorAt = row.updated_at;
+  }
+  return stats;
+};
+
+export const listOutbox = async (status?: OutboxStatus) => {
+  const columns = "id, post_id, destination_id, chat_id, title, status, skip_reason, attempts, next_attempt_at, last_error, error_kind, message_id, created_at, updated_at";
+  if (status) {
+    return db.prepare(`SELECT ${columns} FROM outbox WHERE status = ? ORDER BY id DESC LIMIT 100`).all(status);
+  }
+  return db.prepare(`SELECT ${columns} FROM outbox WHERE status NOT IN ('sent', 'skipped') ORDER BY id DESC LIMIT 100`).all();
+};
+
+// Puts a post's failed delivery to one destination back in the queue.
+export const retryPostDelivery = async (postId: string, destinationId: number) => {
+  const item = (await db.prepare("SELECT id FROM outbox WHERE post_id = ? AND destination_id = ?").get(postId, destinationId)) as
+    | { id: number }
+    | undefined;
+  return item ? retryOutboxItem(item.id) : false;
+};
+
+// Queues a post to go out to a destination again, whether it was sent,
+// skipped or failed. A message already in the channel stays there; the
+// post is sent as a new one.
+export const resendPost = (postId: string, destinationId: number) =>
+  db.transaction(async () => {
+    const result = await db
+      .prepare(
+        `UPDATE outbox SET status = 'pending', attempts = 0, next_attempt_at = ?, last_error = NULL, error_kind = NULL,
+         skip_reason = NULL, message_id = NULL, updated_at = CURRENT_TIMESTAMP
+         WHERE post_id = ? AND destination_id = ? AND status != 'sending'`
+      )
+      .run(new Date().toISOString(), postId, destinationId);
+    if (result.changes === 0) return false;
+    await db.prepare("DELETE FROM synced_posts WHERE post_id = ? AND destination_id = ?").run(postId, destinationId);
+    return true;
+  });
+
+// Drops every record of a post at a destination, so the next sync treats it
+// as new if its source still lists it.
+export const forgetPost = (postId: string, destinationId: number) =>
+  db.transaction(async () => {
+    const outbox = await db
+      .prepare("DELETE FROM outbox WHERE post_id = ? AND destination_id = ? AND status != 'sending'")
+      .run(postId, destinationId);
+    const synced = await db.prepare("DELETE FROM synced_posts WHERE post_id = ? AND destination_id = ?").run(postId, destinationId);
+    return outbox.changes + synced.changes > 0;
+  });
+
+// Puts a failed delivery back in the queue for the next run.
+export const retryOutboxItem = async (id: number) => {
+  const result = await db
+    .prepare(
+      `UPDATE outbox SET status = 'pending', attempts = 0, next_attempt_at = ?, updated_at = CURRENT_TIMESTAMP
+       WHERE id = ? AND status = 'failed'`
+    )
+    .run(new Date().toISOString(), id);
+  return result.changes > 0;
+};
@@ -0,0 +1,54 @@
+import crypto from "crypto";
+import { db } from "./db";
+import { RenderedPost } from "./render";
+import { DeliveryRecord } from "./destination";
+
+// One row per post and destination it was sent to.
+export interface SyncedPostRow {
+  id: number;
+  post_id: string;
+  destination_id: number | null;
+  chat_id: string | null;
+  message_id: number | null;
+  // "photo" or "text" on Telegram; the destination type elsewhere
+  message_type: string | null;
+  photo_message_id: number | null;
+  // JSON list of album messages sent alongside the main one
+  media_message_ids: string | null;
+  message_ref: string | null;
+  image_url: string | null;
+  content_hash: string | null;
+  post_updated: string | null;
+  source_id: number | null;
+}
+
+export const hashContent = (text: string, imageUrl?: string | null) =>
+  crypto.createHash("sha256").update(`${imageUrl || ""}\n${text}`).digest("hex");
+
+// Only the extracted fields are kept, so the dashboard can show what was found.
+export const serializeMetadata = ({ details }: RenderedPost) => {
+  const { title, snippet, hook, ...metadata } = details;
+  return JSON.stringify(metadata);
+};
+
+export const recordSyncedPost = async (post: any, destinationId: number, target: string, record: DeliveryRecord, rendered: RenderedPost) => {
+  await db.prepare(
+    `INSERT INTO synced_posts (post_id, destination_id, chat_id, message_id, message_type, photo_message_id, media_message_ids, message_ref, image_url, content_hash, metadata, post_updated, published, source_id)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  ).run(
+    post.id,
+    destinationId,
+    target,
+    record.messageId,
+    record.messageType,
+    record.photoMessageId,
+    record.mediaMessageIds?.length ? JSON.stringify(record.mediaMessageIds) : null,
+    record.messageRef,
+    record.imageUrl,
+    record.contentHash,
+    serializeMetadata(rendered),
+    post.updated || null,
+    post.published || null,
+    post.sourceId ?? null
+  );
+};
@@ -0,0 +1,194 @@
+import { db } from "./db";
+import { ActiveDestination } from "./destinations";
+import { ActiveSource } from "./sources";
+import { findBlockingRule, getFilterRules } from "./filters";
+import { extractMovieDetails, MovieDetails, renderPost } from "./render";
+import { SourceError, SourcePost, sortChronologically } from "./source";
+import { buildKeyboard, InlineKeyboard } from "./telegram";
+import { deliverOutboxItem, enqueuePost, getOutboxItem, matchesPlan, OutboxItem, planRoute, resendPost, SKIPPED_BY_RULES } from "./outbox";
+import { assertStorageReady, fetchNewPosts, getSyncMode, resolveSyncConfig, resolveTargets, SyncConfig, SyncError } from "./sync";
+
+// "queued" posts are already in the outbox waiting for a send or a retry;
+// "ready" ones would be queued and sent by the next run.
+export type PreviewStatus = "ready" | "queued" | "held" | "skipped";
+
+export interface PreviewItem {
+  postId: string;
+  sourceId: number;
+  title: string;
+  url: string;
+  published: string;
+  destinationId: number;
+  destination: string;
+  type: string;
+  // The chat or webhook the message would go to
+  target: string;
+  status: PreviewStatus;
+  // Why the post is held or skipped
+  reason: string | null;
+  // Exactly what would be sent; null for skipped posts, which are never rendered
+  text: string | null;
+  caption: string | null;
+  imageUrl: string | null;
+  // Every image, when the destination sends albums
+  imageUrls: string[];
+  buttons: InlineKeyboard["inline_keyboard"] | null;
+}
+
+const renderItem = async (
+  post: SourcePost,
+  target: ActiveDestination,
+  status: PreviewStatus,
+  reason: string | null,
+  details?: MovieDetails
+): Promise<PreviewItem> => {
+  const { destination, adapter } = target;
+  const rendered =
+    status === "skipped" ? null : await renderPost(post, target.templateBody, details, { ...target.renderOptions, preview: true });
+  const isTelegram = destination.type === "telegram";
+  return {
+    postId: post.id,
+    sourceId: post.sourceId,
+    title: post.title,
+    url: post.url,
+    published: post.published,
+    destinationId: destination.id,
+    destination: destination.name,
+    type: destination.type,
+    target: adapter.target,
+    status,
+    reason,
+    text: rendered?.text ?? null,
+    caption: rendered?.caption ?? null,
+    imageUrl: rendered?.imageUrl ?? null,
+    imageUrls: rendered && isTelegram && destination.options.album ? rendered.imageUrls : rendered?.imageUrl ? [rendered.imageUrl] : [],
+    buttons: rendered && isTelegram && destination.options.linkButtons ? buildKeyboard(rendered)?.inline_keyboard ?? null : null,
+  };
+};
+
+// Runs a sync up to the point of sending: fetches, filters, routes and
+// renders every pending post, but sends nothing and records nothing.
+export async function previewSync(overrides: SyncConfig = {}) {
+  const { sources, destinations, errors } = await resolveTargets(resolveSyncConfig(overrides));
+  const targets = new Map(destinations.map((target) => [target.destination.id, target]));
+  const items: PreviewItem[] = [];
+
+  // Posts queued by earlier runs go out before anything new
+  const queued = (await db
+    .prepare(
+      `SELECT * FROM outbox WHERE status = 'pending' AND destination_id IN (${destinations.map(() => "?").join(", ")})
+       ORDER BY json_extract(payload, '$.published'), id`
+    )
+    .all(...targets.keys())) as OutboxItem[];
+  for (const item of queued) {
+    const details = item.details ? (JSON.parse(item.details) as MovieDetails) : undefined;
+    const reason = item.last_error ? `Retrying after: ${item.last_error}` : null;
+    items.push(await renderItem(JSON.parse(item.payload), targets.get(item.destination_id!)!, "queued", reason, details));
+  }
+
+  const posts: SourcePost[] = [];
+  const mode = await getSyncMode();
+  for (const entry of sources) {
+    try {
+      posts.push(...(await fetchNewPosts(entry, mode)));
+    } catch (err: any) {
+      if (!(err instanceof SourceError)) throw err;
+      errors.push(`${entry.source.name}: ${err.message}`);
+    }
+  }
+
+  for (const post of sortChronologically(posts)) {
+    const plan = await planRoute(post, destinations);
+    for (const target of plan.targets) {
+      if (plan.heldUntil) {
+        items.push(await renderItem(post, target, "held", `Minimum post age; ready at ${plan.heldUntil.toISOString()}`));
+      } else if (matchesPlan(plan, target, post)) {
+        items.push(await renderItem(post, target, "ready", null, plan.details!));
+      } else {
+        items.push(await renderItem(post, target, "skipped", plan.blocked || SKIPPED_BY_RULES));
+      }
+    }
+  }
+
+  return { items, errors: errors.length ? errors : undefined };
+}
+
+// Sends one previewed post to one destination right away. Filter and routing
+// rules are not applied again: publishing is an explicit choice to send it.
+export async function publishPreviewedPost(postId: string, sourceId: number, destinationId: number, overrides: SyncConfig = {}) {
+  await assertStorageReady();
+  const { sources, destinations } = await resolveTargets(resolveSyncConfig(overrides));
+  const target = destinations.find(({ destination }) => destination.id === destinationId);
+  if (!target) throw new SyncError("Destination not found or paused", 404);
+
+  const existing = (await db.prepare("SELECT * FROM outbox WHERE post_id = ? AND destination_id = ?").get(postId, destinationId)) as
+    | OutboxItem
+    | undefined;
+  if (existing?.status === "sent") throw new SyncError("This post was already sent to that destination", 409);
+  if (existing?.status === "sending") throw new SyncError("This post is being sent right now", 409);
+
+  if (existing) {
+    await resendPost(postId, destinationId);
+  } else {
+    const source = sources.find((entry) => entry.source.id === sourceId);
+    if (!source) throw new SyncError("Source not found or paused", 404);
+    let post: SourcePost | null;
+    try {
+      post = await source.adapter.getPost(postId);
+    } catch (err: any) {
+      if (!(err instanceof SourceError)) throw err;
+      throw new SyncError(`${source.source.name}: ${err.message}`);
+    }
+    if (!post) throw new SyncError("The post is no longer published", 404);
+    const { details } = await planRoute(post, [target]);
+    await enqueuePost(post, target, details, "pending");
+  }
+
+  const item = (await db.prepare("SELECT id FROM outbox WHERE post_id = ? AND destination_id = ?").get(postId, destinationId)) as {
+    id: number;
+  };
+  return deliverOutboxItem((await getOutboxItem(item.id))!, target);
+}
+
+// Compares post URLs without the scheme, query, fragment or trailing slash,
+// which differ between what admins paste and what sources report.
+const normalizeUrl = (url: string) => url.trim().replace(/^https?:\/\//i, "").replace(/[?#].*$/, "").replace(/\/+$/, "").toLowerCase();
+
+const POST_LOOKUP_LIMIT = 25;
+
+// Queued posts are found in the outbox; anything else has to be among the
+// newest posts of an enabled source.
+async function findPostByUrl(url: string, sources: ActiveSource[]) {
+  const wanted = normalizeUrl(url);
+  const stored = (await db
+    .prepare("SELECT payload FROM outbox WHERE json_extract(payload, '$.url') IS NOT NULL ORDER BY id DESC LIMIT 500")
+    .all()) as Array<{ payload: string }>;
+  const queued = stored.map((row) => JSON.parse(row.payload) as SourcePost).find((post) => normalizeUrl(post.url) === wanted);
+  if (queued) {
+    const source = sources.find((entry) => entry.source.id === queued.sourceId);
+    return (await source?.adapter.getPost(queued.id).catch(() => null)) ?? queued;
+  }
+
+  for (const { adapter } of sources) {
+    try {
+      const post = (await adapter.listPosts({ limit: POST_LOOKUP_LIMIT })).find((item) => normalizeUrl(item.url) === wanted);
+      if (post) return post;
+    } catch (err: any) {
+      if (!(err instanceof SourceError)) throw err;
+    }
+  }
+  return null;
+}
+
+// Renders one post, found by its URL, for the first Telegram destination;
+// null when no enabled source has it. Sent or skipped posts are rendered too.
+export async function previewPostByUrl(url: string) {
+  const { sources, destinations } = await resolveTargets(resolveSyncConfig());
+  const post = await findPostByUrl(url, sources);
+  if (!post) return null;
+
+  const target = destinations.find(({ destination }) => destination.type === "telegram") ?? destinations[0];
+  const details = await extractMovieDetails(post);
+  const blocked = findBlockingRule(await getFilterRules(), post, details);
+  return renderItem(post, target, "ready", blocked ? `Filter rules would skip it: ${blocked}` : null, details);
+}
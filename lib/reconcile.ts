@@ -0,0 +1,86 @@
+import { db, getSetting, setSetting } from "./db";
+import { ActiveSource } from "./sources";
+import { ActiveDestination } from "./destinations";
+import { RemovedPostAction } from "./destination";
+import { SourceError } from "./source";
+import { SyncedPostRow } from "./posts";
+
+// Listing every published post costs API quota, so the pass is throttled.
+const RECONCILE_INTERVAL_MS = 10 * 60 * 1000;
+
+export const getRemovedPostAction = async (): Promise<RemovedPostAction> =>
+  (await getSetting("REMOVED_POST_ACTION")) === "delete" ? "delete" : "mark";
+
+export async function reconcileRemovedPosts(sources: ActiveSource[], destinations: ActiveDestination[], force = false) {
+  const lastRun = Number((await getSetting("RECONCILE_LAST_RUN")) || 0);
+  if (!force && Date.now() - lastRun < RECONCILE_INTERVAL_MS) {
+    return 0;
+  }
+
+  const action = await getRemovedPostAction();
+  let removedCount = 0;
+  let complete = true;
+
+  for (const { source, adapter } of sources) {
+    if (!adapter.listPublishedIds || !adapter.isGone) continue;
+
+    const tracked = (await db
+      .prepare("SELECT * FROM synced_posts WHERE source_id = ? AND removed_at IS NULL")
+      .all(source.id)) as SyncedPostRow[];
+    if (tracked.length === 0) continue;
+
+    const published = await adapter.listPublishedIds().catch((err) => {
+      console.error(`Listing ${source.name} for reconciliation failed:`, err.message);
+      return null;
+    });
+    if (!published) {
+      complete = false;
+      continue;
+    }
+
+    // A post sent to several destinations only needs confirming once
+    const gone = new Map<string, boolean>();
+    for (const row of tracked) {
+      if (published.has(row.post_id)) continue;
+      // Messages in paused or deleted destinations are left as they are
+      const target = destinations.find(({ destination }) => destination.id === row.destination_id);
+      if (!target) continue;
+
+      if (!gone.has(row.post_id)) {
+        try {
+          gone.set(row.post_id, await adapter.isGone(row.post_id));
+        } catch (err: any) {
+          if (!(err instanceof SourceError)) throw err;
+          // A throttled or rejected key says nothing about the post; the rest of
+          // this source waits for the next run
+          console.error(`Checking ${source.name} for removed posts failed:`, err.message);
+          complete = false;
+          break;
+        }
+      }
+      if (!gone.get(row.post_id)) continue;
+
+      try {
+        console.log(`Post ${row.post_id} is no longer published on ${source.name} (${action} in ${target.destination.name}).`);
+
+        // Destinations that cannot change what they sent only record the removal
+        const outcome = target.adapter.remove ? await target.adapter.remove(row, action) : "marked";
+        if (outcome === "deleted") {
+          // Forget the post entirely so it is sent again if it is ever republished
+          await db.prepare("DELETE FROM synced_posts WHERE id = ?").run(row.id);
+          await db.prepare("DELETE FROM outbox WHERE post_id = ? AND destination_id = ?").run(row.post_id, row.destination_id);
+        } else {
+          // Clearing the hash lets the edit pass restore the message if the post comes back
+          await db.prepare("UPDATE synced_posts SET removed_at = CURRENT_TIMESTAMP, content_hash = NULL WHERE id = ?").run(row.id);
+        }
+        removedCount++;
+      } catch (err) {
+        console.error(`Error reconciling post ${row.post_id}:`, err);
+      }
+    }
+  }
+
+  // An incomplete listing is retried on the next run instead of waiting out the interval
+  if (complete) await setSetting("RECONCILE_LAST_RUN", String(Date.now()));
+  return removedCount;
+}
@@ -0,0 +1,152 @@
+import { getActiveTemplate, renderTemplate, TemplateValues } from "./templates";
+import { escapeHtml, htmlTextLength, sanitizeTelegramHtml, truncateHtml } from "./html";
+import { CAPTION_LIMIT, MESSAGE_LIMIT } from "./telegram";
+import {
+  ExtractedMetadata,
+  extractImageUrls,
+  extractLinks,
+  extractMetadata,
+  getSelectorRules,
+  htmlToText,
+  METADATA_FIELDS,
+  PostLinks,
+} from "./metadata";
+import { enrichWithAi } from "./ai";
+import { getTrackedUrl, previewTrackedUrl } from "./links";
+
+export interface MovieDetails extends PostLinks {
+  title: string;
+  imdb: string | null;
+  genre: string | null;
+  language: string | null;
+  released: string | null;
+  director: string | null;
+  cast: string | null;
+  plot: string | null;
+  snippet: string;
+  // Written by the AI step when it is enabled
+  hook: string | null;
+  sources: ExtractedMetadata["sources"];
+}
+
+export async function extractMovieDetails(post: any): Promise<MovieDetails> {
+  const title = post.title || "New Movie Post";
+  const content = post.content || "";
+  const { fields, sources } = extractMetadata(content, await getSelectorRules());
+  const text = htmlToText(content);
+
+  // The AI only fills gaps; anything the HTML states explicitly is kept as-is
+  const missing = METADATA_FIELDS.filter((field) => !fields[field]);
+  const enrichment = await enrichWithAi({ title, text, missing });
+  for (const field of missing) {
+    const value = enrichment?.fields[field];
+    if (value) {
+      fields[field] = value;
+      sources[field] = "ai";
+    }
+  }
+
+  return {
+    title,
+    ...fields,
+    // Fallback for plot if no selector or JSON-LD matched
+    snippet: fields.plot || text.replace(/\s+/g, " ").substring(0, 250) + "...",
+    hook: enrichment?.hook ?? null,
+    ...extractLinks(content),
+    sources,
+  };
+}
+
+export const buildTemplateValues = (post: any, details: MovieDetails): TemplateValues => {
+  const { sources, ...fields } = details;
+  const labels: string[] = post.labels || [];
+  return {
+    ...fields,
+    title_upper: details.title.toUpperCase(),
+    url: post.url || null,
+    labels: labels.length ? labels.join(", ") : null,
+    hashtags: labels.length ? labels.map((label) => `#${label.replace(/[^\p{L}\p{N}_]+/gu, "")}`).join(" ") : null,
+  };
+};
+
+// Images the source lists for the post come first, then those in the body.
+const findImageUrls = (post: any): string[] => {
+  const listed: string[] = (post.images || []).map((image: any) => image?.url).filter(Boolean);
+  return [...new Set([...listed, ...extractImageUrls(post.content || "")])];
+};
+
+// Field values are plain text; only the template itself may contain markup.
+const renderHtml = (body: string, values: TemplateValues) => {
+  const escaped: TemplateValues = {};
+  for (const [field, value] of Object.entries(values)) {
+    escaped[field as keyof TemplateValues] = value ? escapeHtml(value) : value;
+  }
+  return sanitizeTelegramHtml(renderTemplate(body, escaped));
+};
+
+// The plot is the only part of a post worth losing, so it is shortened until
+// the message fits. Returns null when even an empty plot is too long.
+const TRIMMABLE_FIELDS = ["plot", "snippet"] as const;
+
+const fitToLimit = (body: string, values: TemplateValues, limit: number) => {
+  let current = values;
+  let text = renderHtml(body, current);
+
+  while (htmlTextLength(text) > limit) {
+    const excess = htmlTextLength(text) - limit;
+    if (!TRIMMABLE_FIELDS.some((field) => current[field])) return null;
+
+    current = { ...current };
+    for (const field of TRIMMABLE_FIELDS) {
+      const chars = Array.from(current[field] || "");
+      const keep = chars.length - excess - 1;
+      current[field] = keep > 0 ? chars.slice(0, keep).join("").trimEnd() + "…" : null;
+    }
+    text = renderHtml(body, current);
+  }
+  return text;
+};
+
+export interface RenderOptions {
+  // The download link goes out as a button, so it is left out of the text
+  linkButtons?: boolean;
+  // Destination whose click-tracked redirect replaces the post's link
+  trackClicksFor?: number;
+  // Renders for a preview: a tracked link shows its existing code, or a
+  // placeholder, instead of creating one
+  preview?: boolean;
+}
+
+export interface RenderedPost {
+  text: string;
+  // Fitted to the photo caption limit; null when the text has to go in its own message
+  caption: string | null;
+  imageUrl?: string;
+  // Every image in the post, imageUrl first
+  imageUrls: string[];
+  values: TemplateValues;
+  details: MovieDetails;
+}
+
+// Renders a post with the given template body, or the active template.
+// Details already extracted for the post are reused instead of extracted again.
+export async function renderPost(
+  post: any,
+  templateBody?: string,
+  extracted?: MovieDetails,
+  options: RenderOptions = {}
+): Promise<RenderedPost> {
+  const body = templateBody ?? (await getActiveTemplate()).body;
+  const details = extracted ?? (await extractMovieDetails(post));
+  const values = buildTemplateValues(post, details);
+  if (values.url && options.trackClicksFor) {
+    values.url = await (options.preview ? previewTrackedUrl(post, options.trackClicksFor) : getTrackedUrl(post, options.trackClicksFor));
+  }
+  const imageUrls = findImageUrls(post);
+  const imageUrl = imageUrls[0];
+
+  const shown = options.linkButtons ? { ...values, url: null } : values;
+  const text = fitToLimit(body, shown, MESSAGE_LIMIT) ?? truncateHtml(renderHtml(body, shown), MESSAGE_LIMIT);
+  const caption = imageUrl ? fitToLimit(body, shown, CAPTION_LIMIT) : null;
+  return { text, caption, imageUrl, imageUrls, values, details };
+}
@@ -0,0 +1,184 @@
+import { Cron } from "croner";
+import { getSetting, setSetting } from "./db";
+import { runSync, SYNC_LOCK, SyncInProgressError, SyncResult } from "./sync";
+import { getActiveLock } from "./lock";
+
+const DEFAULT_INTERVAL_SECONDS = 30;
+const MIN_INTERVAL_SECONDS = 10;
+// setTimeout overflows past ~24.8 days, so long waits are chained.
+const MAX_TIMER_MS = 2 ** 31 - 1;
+// Stored when the dashboard clears the cron expression. An empty value would
+// fall back to the SYNC_CRON environment variable and bring it back.
+const CRON_OFF = "off";
+
+export interface LastRun {
+  at: string;
+  synced?: number;
+  message?: string;
+  error?: string;
+}
+
+export interface SchedulerStatus {
+  mode: "interval" | "cron";
+  intervalSeconds: number;
+  cron: string | null;
+  paused: boolean;
+  running: boolean;
+  external: boolean;
+  nextRunAt: string | null;
+  lastRun: LastRun | null;
+}
+
+let timer: NodeJS.Timeout | null = null;
+let nextRunAt: Date | null = null;
+let started = false;
+// Settings are read between clearing the timer and setting the next one, so
+// only the latest call may set it
+let generation = 0;
+
+const getScheduleConfig = async () => {
+  const stored = (await getSetting("SYNC_CRON"))?.trim();
+  const cron = stored && stored.toLowerCase() !== CRON_OFF ? stored : null;
+  const intervalSeconds = Math.max(MIN_INTERVAL_SECONDS, Number(await getSetting("SYNC_INTERVAL_SECONDS")) || DEFAULT_INTERVAL_SECONDS);
+  return { cron, intervalSeconds };
+};
+
+const isPaused = async () => (await getSetting("SYNC_PAUSED")) === "true";
+
+const getLastRun = async (): Promise<LastRun | null> => {
+  const raw = await getSetting("SYNC_LAST_RUN");
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw);
+  } catch (e) {
+    return null;
+  }
+};
+
+const computeNextRun = async (from: Date) => {
+  const { cron, intervalSeconds } = await getScheduleConfig();
+  if (cron) return new Cron(cron).nextRun(from);
+  return new Date(from.getTime() + intervalSeconds * 1000);
+};
+
+export const validateCron = (expression: string) => {
+  try {
+    return new Cron(expression).nextRun() ? null : "Cron expression never fires";
+  } catch (err: any) {
+    return err.message || "Invalid cron expression";
+  }
+};
+
+export async function runScheduledSync(): Promise<SyncResult | null> {
+  if (await isPaused()) {
+    console.log("Scheduled sync skipped: scheduler is paused.");
+    return null;
+  }
+
+  const at = new Date().toISOString();
+  try {
+    console.log("Running scheduled sync...");
+    const result = await runSync();
+    await setSetting("SYNC_LAST_RUN", JSON.stringify({ at, synced: result.synced, message: result.message }));
+    return result;
+  } catch (err: any) {
+    // Another run (manual or from another instance) is already covering this slot
+    if (err instanceof SyncInProgressError) return null;
+    console.error("Scheduled Sync Error:", err);
+    await setSetting("SYNC_LAST_RUN", JSON.stringify({ at, error: err.message })).catch((settingErr) =>
+      console.error("Scheduled Sync Error:", settingErr)
+    );
+    return null;
+  }
+}
+
+// Entry point for platform schedulers (Netlify scheduled functions) that tick
+// on a fixed cadence: only syncs once the configured schedule is due.
+export async function runDueSync() {
+  const lastRun = await getLastRun();
+  const next = lastRun ? await computeNextRun(new Date(lastRun.at)) : new Date();
+  if (!next || next.getTime() > Date.now()) {
+    return null;
+  }
+  return runScheduledSync();
+}
+
+const scheduleNext = async () => {
+  const current = ++generation;
+  if (timer) clearTimeout(timer);
+  timer = null;
+  nextRunAt = null;
+
+  if (!started || (await isPaused())) return;
+
+  const next = await computeNextRun(new Date());
+  if (current !== generation) return;
+  if (!next) {
+    console.log("Scheduler: cron expression has no upcoming runs.");
+    return;
+  }
+
+  nextRunAt = next;
+  const delay = Math.max(0, next.getTime() - Date.now());
+  if (delay > MAX_TIMER_MS) {
+    timer = setTimeout(rescheduleInBackground, MAX_TIMER_MS);
+    return;
+  }
+  timer = setTimeout(async () => {
+    await runScheduledSync();
+    rescheduleInBackground();
+  }, delay);
+};
+
+const rescheduleInBackground = () => {
+  scheduleNext().catch((err) => console.error("Scheduler Error:", err));
+};
+
+export const startScheduler = async () => {
+  started = true;
+  await scheduleNext();
+  console.log(nextRunAt ? `Scheduler started. Next run at ${nextRunAt.toISOString()}` : "Scheduler started (paused).");
+};
+
+export const pauseScheduler = async () => {
+  await setSetting("SYNC_PAUSED", "true");
+  await scheduleNext();
+};
+
+export const resumeScheduler = async () => {
+  await setSetting("SYNC_PAUSED", "false");
+  await scheduleNext();
+};
+
+export const updateSchedule = async ({ intervalSeconds, cron }: { intervalSeconds?: number; cron?: string | null }) => {
+  if (intervalSeconds !== undefined) {
+    await setSetting("SYNC_INTERVAL_SECONDS", String(Math.max(MIN_INTERVAL_SECONDS, Math.floor(intervalSeconds))));
+  }
+  if (cron !== undefined) {
+    await setSetting("SYNC_CRON", cron?.trim() || CRON_OFF);
+  }
+  await scheduleNext();
+};
+
+export const getSchedulerStatus = async (): Promise<SchedulerStatus> => {
+  const { cron, intervalSeconds } = await getScheduleConfig();
+  const paused = await isPaused();
+  const lastRun = await getLastRun();
+
+  // Without an in-process timer, the next run is derived from the last one.
+  let next = nextRunAt;
+  if (!started && !paused) {
+    next = lastRun ? await computeNextRun(new Date(lastRun.at)) : new Date();
+  }
+
+  return {
+    mode: cron ? "cron" : "interval",
+    intervalSeconds,
+    cron,
+    paused,
+    running: !!(await getActiveLock(SYNC_LOCK)),
+    external: !started,
+    nextRunAt: paused ? null : next?.toISOString() ?? null,
+    lastRun,
+  };
+};
@@ -0,0 +1,123 @@
+import { db, deleteSetting, getSetting, setSetting } from "./db";
+import { encryptSecret, hasEncryptionKey, maskSecret } from "./crypto";
+
+export type SettingKey =
+  | "BLOGGER_API_KEY"
+  | "BLOGGER_BLOG_ID"
+  | "TELEGRAM_BOT_TOKEN"
+  | "TELEGRAM_CHANNEL_ID"
+  | "REMOVED_POST_ACTION"
+  | "SYNC_MODE"
+  | "AI_PROVIDER"
+  | "GEMINI_API_KEY"
+  | "TELEGRAM_UPDATES"
+  | "TELEGRAM_ADMIN_IDS"
+  | "TELEGRAM_WEBHOOK_SECRET"
+  | "CLICK_TRACKING";
+
+interface SettingField {
+  secret: boolean;
+  required: boolean;
+  options?: string[];
+}
+
+// Settings the dashboard can manage. Secrets are encrypted at rest and never
+// returned in full.
+export const SETTING_FIELDS: Record<SettingKey, SettingField> = {
+  // Used by Blogger sources that have no credentials of their own
+  BLOGGER_API_KEY: { secret: true, required: false },
+  BLOGGER_BLOG_ID: { secret: false, required: false },
+  // Used by Telegram destinations that have no bot token or channel of their own
+  TELEGRAM_BOT_TOKEN: { secret: true, required: false },
+  TELEGRAM_CHANNEL_ID: { secret: false, required: false },
+  // What to do with a channel message once its Blogger post is deleted or reverted to draft
+  REMOVED_POST_ACTION: { secret: false, required: false, options: ["mark", "delete"] },
+  // "catch_up" sends everything published since the last synced post; "latest" only looks at the newest page
+  SYNC_MODE: { secret: false, required: false, options: ["catch_up", "latest"] },
+  // Optional AI step that writes a hook line and fills in missing metadata; "stub" works offline
+  AI_PROVIDER: { secret: false, required: false, options: ["off", "gemini", "stub"] },
+  GEMINI_API_KEY: { secret: true, required: false },
+  // How bot commands reach the server: long polling, or a webhook at /api/telegram/webhook
+  TELEGRAM_UPDATES: { secret: false, required: false, options: ["off", "polling", "webhook"] },
+  // Numeric Telegram user IDs allowed to send bot commands, comma-separated
+  TELEGRAM_ADMIN_IDS: { secret: false, required: false },
+  // Telegram sends it with every webhook update; updates without it are refused
+  TELEGRAM_WEBHOOK_SECRET: { secret: true, required: false },
+  // Sends post links through /r/:code on APP_URL so clicks can be counted
+  CLICK_TRACKING: { secret: false, required: false, options: ["off", "on"] },
+};
+
+export interface PublicSetting {
+  value: string;
+  secret: boolean;
+  configured: boolean;
+  source: "db" | "env" | null;
+  options?: string[];
+}
+
+const isSettingKey = (key: string): key is SettingKey => key in SETTING_FIELDS;
+
+export const getPublicSettings = async () => {
+  const settings = {} as Record<SettingKey, PublicSetting>;
+
+  for (const key of Object.keys(SETTING_FIELDS) as SettingKey[]) {
+    const { secret, options } = SETTING_FIELDS[key];
+    const stored = await db.prepare("SELECT 1 FROM settings WHERE key = ? AND value != ''").get(key);
+    const value = (await getSetting(key)) || "";
+    settings[key] = {
+      value: secret && value ? maskSecret(value) : value,
+      secret,
+      configured: !!value,
+      source: stored ? "db" : value ? "env" : null,
+      options,
+    };
+  }
+
+  return {
+    settings,
+    encryptionAvailable: hasEncryptionKey(),
+    configured: (Object.keys(SETTING_FIELDS) as SettingKey[]).every(
+      (key) => !SETTING_FIELDS[key].required || settings[key].configured
+    ),
+  };
+};
+
+// Blank secrets are left untouched so masked values never round-trip back
+// into storage; `null` removes the stored value and falls back to the env.
+export const updateSettings = async (input: Record<string, unknown>) => {
+  const updates: Array<[SettingKey, string | null]> = [];
+
+  for (const [key, raw] of Object.entries(input)) {
+    if (!isSettingKey(key)) {
+      throw new Error(`Unknown setting: ${key}`);
+    }
+    if (raw !== null && typeof raw !== "string") {
+      throw new Error(`Setting ${key} must be a string or null`);
+    }
+
+    const value = typeof raw === "string" ? raw.trim() : null;
+    if (SETTING_FIELDS[key].secret && value === "") continue;
+    const { options } = SETTING_FIELDS[key];
+    if (value && options && !options.includes(value)) {
+      throw new Error(`Setting ${key} must be one of: ${options.join(", ")}`);
+    }
+    updates.push([key, value || null]);
+  }
+
+  const needsEncryption = updates.some(([key, value]) => value && SETTING_FIELDS[key].secret);
+  if (needsEncryption && !hasEncryptionKey()) {
+    throw new Error("SETTINGS_ENCRYPTION_KEY must be set on the server before secrets can be stored");
+  }
+
+  await db.transaction(async () => {
+    for (const [key, value] of updates) {
+      if (value === null) {
+        await deleteSetting(key);
+      } else {
+        await setSetting(key, SETTING_FIELDS[key].secret ? encryptSecret(value) : value);
+      }
+    }
+  });
+
+  return getPublicSettings();
+};
@@ -0,0 +1,69 @@
+import { hashContent } from "./posts";
+import { RenderedPost } from "./render";
+import { clip, DeliveryError, DestinationAdapter, FIELD_LABELS, requestJson } from "./destination";
+
+// Block Kit limits: section text 3000 characters, at most 10 fields of 2000.
+const TEXT_LIMIT = 2900;
+const FIELD_LIMIT = 500;
+
+// Slack's mrkdwn only reserves these three characters.
+const escapeMrkdwn = (text: string) => text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+export const buildBlocks = ({ values, details, imageUrl }: RenderedPost) => {
+  // A pipe would end the link text early
+  const title = escapeMrkdwn(details.title.replace(/\|/g, "¦"));
+  const heading = values.url ? `*<${values.url}|${title}>*` : `*${title}*`;
+  const body = [heading, details.hook && `_${escapeMrkdwn(details.hook)}_`, escapeMrkdwn(details.plot || details.snippet)]
+    .filter(Boolean)
+    .join("\n");
+
+  const blocks: any[] = [
+    {
+      type: "section",
+      text: { type: "mrkdwn", text: clip(body, TEXT_LIMIT) },
+      accessory: imageUrl ? { type: "image", image_url: imageUrl, alt_text: clip(details.title, 100) } : undefined,
+    },
+  ];
+
+  const fields = FIELD_LABELS.filter(([field]) => details[field]).map(([field, label]) => ({
+    type: "mrkdwn",
+    text: `*${label}*\n${escapeMrkdwn(clip(details[field]!, FIELD_LIMIT))}`,
+  }));
+  if (fields.length) blocks.push({ type: "section", fields });
+
+  if (values.labels) {
+    blocks.push({ type: "context", elements: [{ type: "mrkdwn", text: escapeMrkdwn(values.labels) }] });
+  }
+  return blocks;
+};
+
+// Incoming webhooks can only post: Slack returns no message reference, so
+// edits and removals at the source are not reflected in the channel.
+export const createSlackAdapter = (webhookUrl: string): DestinationAdapter => ({
+  target: "Slack webhook",
+
+  async send(post, rendered) {
+    const blocks = buildBlocks(rendered);
+    // `text` is the notification and screen-reader fallback for the blocks
+    await requestJson("Slack", webhookUrl, "POST", { text: rendered.details.title, blocks });
+    return {
+      messageId: null,
+      photoMessageId: null,
+      messageRef: null,
+      messageType: "slack",
+      imageUrl: rendered.imageUrl ?? null,
+      contentHash: hashContent(JSON.stringify(blocks)),
+    };
+  },
+
+  // An empty payload is refused with 400 by a live webhook and 403/404 by a
+  // revoked one, so the URL can be checked without posting anything.
+  async test() {
+    try {
+      await requestJson("Slack", webhookUrl, "POST", {});
+    } catch (err) {
+      if (!(err instanceof DeliveryError && err.status === 400)) throw err;
+    }
+    return "the webhook";
+  },
+});
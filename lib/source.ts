@@ -0,0 +1,59 @@
+// The shape every source adapter produces. It mirrors the Blogger v3 post
+// resource the rest of the pipeline was written against, so renderers and
+// queued payloads work the same whichever site a post came from.
+export interface SourcePost {
+  // Stable and unique across sources; Blogger keeps its native IDs
+  id: string;
+  sourceId: number;
+  title: string;
+  url: string;
+  // HTML body
+  content: string;
+  published: string;
+  updated: string | null;
+  labels: string[];
+  images: Array<{ url: string }>;
+}
+
+export interface ListOptions {
+  // Inclusive ISO timestamps on the publish date
+  since?: string;
+  until?: string;
+  // Newest first by this date; sources that cannot sort server-side sort locally
+  orderBy?: "published" | "updated";
+  limit?: number;
+}
+
+export interface SourceAdapter {
+  // Newest first
+  listPosts(options?: ListOptions): Promise<SourcePost[]>;
+  // null when the post no longer exists or is not public
+  getPost(id: string): Promise<SourcePost | null>;
+  // Every published post ID, or null when the listing could not be fetched
+  // completely. Sources that cannot enumerate their posts leave this out and
+  // are skipped by reconciliation.
+  listPublishedIds?(): Promise<Set<string> | null>;
+  // Only true once the source confirms the post is gone; throws a SourceError
+  // when it cannot tell, so reconciliation leaves the post alone
+  isGone?(id: string): Promise<boolean>;
+}
+
+export class SourceError extends Error {}
+
+export const sortChronologically = <T extends { published: string }>(posts: T[]) =>
+  [...posts].sort((a, b) => new Date(a.published).getTime() - new Date(b.published).getTime());
+
+// Applies ListOptions to sources that return everything they have at once.
+export const applyListOptions = (posts: SourcePost[], { since, until, orderBy = "published", limit }: ListOptions = {}) => {
+  const sinceTime = since ? new Date(since).getTime() : -Infinity;
+  const untilTime = until ? new Date(until).getTime() : Infinity;
+  const dateOf = (post: SourcePost) => new Date((orderBy === "updated" && post.updated) || post.published).getTime();
+
+  const filtered = posts
+    .filter((post) => {
+      const published = new Date(post.published).getTime();
+      return published >= sinceTime && published <= untilTime;
+    })
+    .sort((a, b) => dateOf(b) - dateOf(a));
+  return limit ? filtered.slice(0, limit) : filtered;
+};
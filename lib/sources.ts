@@ -0,0 +1,179 @@
+import { db, getSetting, setSetting } from "./db";
+import { buildConfig, ConfigField, maskConfig, parseConfig, serializeConfig } from "./config";
+import { createBloggerAdapter } from "./blogger";
+import { createFeedAdapter } from "./feed";
+import { createWordPressAdapter } from "./wordpress";
+import { SourceAdapter, SourceError } from "./source";
+
+export type SourceType = "blogger" | "rss" | "wordpress";
+
+// Blogger sources without their own blog ID or API key use the BLOGGER_*
+// settings, which is how installs from before sources existed keep working.
+export const SOURCE_TYPES: Record<SourceType, { label: string; fields: ConfigField[] }> = {
+  blogger: {
+    label: "Blogger",
+    fields: [
+      { key: "blogId", label: "Blog ID", secret: false, required: false },
+      { key: "apiKey", label: "API Key", secret: true, required: false },
+    ],
+  },
+  rss: {
+    label: "RSS / Atom Feed",
+    fields: [{ key: "url", label: "Feed URL", secret: false, required: true, url: true }],
+  },
+  wordpress: {
+    label: "WordPress",
+    fields: [
+      { key: "url", label: "Site URL", secret: false, required: true, url: true },
+      { key: "username", label: "Username", secret: false, required: false },
+      { key: "appPassword", label: "Application Password", secret: true, required: false },
+    ],
+  },
+};
+
+interface SourceRow {
+  id: number;
+  type: SourceType;
+  name: string;
+  config: string;
+  enabled: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface Source {
+  id: number;
+  type: SourceType;
+  name: string;
+  config: Record<string, string>;
+  enabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SourceInput {
+  type?: string;
+  name?: string;
+  config?: Record<string, unknown>;
+  enabled?: boolean;
+}
+
+export class SourceConfigError extends SourceError {}
+
+const isSourceType = (type: unknown): type is SourceType => typeof type === "string" && type in SOURCE_TYPES;
+
+const fromRow = (row: SourceRow): Source => ({ ...row, config: parseConfig(row.config), enabled: !!row.enabled });
+
+// The Blogger blog configured through settings becomes the first source, and
+// posts synced before sources existed are attributed to it.
+const ensureDefaultSource = async () => {
+  if ((await getSetting("SOURCES_INITIALIZED")) === "true") return;
+  await db.transaction(async () => {
+    const row = (await db.prepare("SELECT COUNT(*) as count FROM sources").get()) as { count: number };
+    if (row.count === 0) {
+      const { lastInsertRowid } = await db.prepare("INSERT INTO sources (type, name, config) VALUES ('blogger', 'Blogger', '{}')").run();
+      await db.prepare("UPDATE synced_posts SET source_id = ? WHERE source_id IS NULL").run(lastInsertRowid);
+    }
+    await setSetting("SOURCES_INITIALIZED", "true");
+  });
+};
+
+export const listSources = async () => {
+  await ensureDefaultSource();
+  return ((await db.prepare("SELECT * FROM sources ORDER BY id").all()) as SourceRow[]).map(fromRow);
+};
+
+export const getEnabledSources = async () => (await listSources()).filter((source) => source.enabled);
+
+export const getSource = async (id: number) => {
+  const row = (await db.prepare("SELECT * FROM sources WHERE id = ?").get(id)) as SourceRow | undefined;
+  return row ? fromRow(row) : undefined;
+};
+
+// Secrets are masked, the same way settings are.
+export const toPublicSource = (source: Source) => ({
+  ...source,
+  config: maskConfig(SOURCE_TYPES[source.type].fields, source.config),
+});
+
+export const createSource = async (input: SourceInput) => {
+  if (!isSourceType(input.type)) {
+    throw new SourceConfigError(`Source type must be one of: ${Object.keys(SOURCE_TYPES).join(", ")}`);
+  }
+  const name = input.name?.trim() || SOURCE_TYPES[input.type].label;
+  const { fields } = SOURCE_TYPES[input.type];
+  const config = buildConfig(fields, input.config || {});
+
+  await ensureDefaultSource();
+  const { lastInsertRowid } = await db
+    .prepare("INSERT INTO sources (type, name, config, enabled) VALUES (?, ?, ?, ?)")
+    .run(input.type, name, serializeConfig(fields, config), input.enabled === false ? 0 : 1);
+  return (await getSource(Number(lastInsertRowid)))!;
+};
+
+export const updateSource = async (id: number, input: SourceInput) => {
+  const source = await getSource(id);
+  if (!source) return null;
+
+  const { fields } = SOURCE_TYPES[source.type];
+  const name = input.name?.trim() || source.name;
+  const config = input.config ? buildConfig(fields, input.config, source.config) : source.config;
+  const enabled = input.enabled ?? source.enabled;
+
+  await db.prepare("UPDATE sources SET name = ?, config = ?, enabled = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?").run(
+    name,
+    serializeConfig(fields, config),
+    enabled ? 1 : 0,
+    id
+  );
+  return (await getSource(id))!;
+};
+
+export const deleteSource = async (id: number) => (await db.prepare("DELETE FROM sources WHERE id = ?").run(id)).changes > 0;
+
+export interface BloggerDefaults {
+  apiKey?: string;
+  blogId?: string;
+}
+
+export interface ActiveSource {
+  source: Source;
+  adapter: SourceAdapter;
+}
+
+// Sources with incomplete configuration are reported instead of thrown, so
+// one bad source never holds up the others.
+export const getActiveSources = async (defaults: BloggerDefaults = {}) => {
+  const active: ActiveSource[] = [];
+  const errors: string[] = [];
+  for (const source of await getEnabledSources()) {
+    try {
+      active.push({ source, adapter: await createAdapter(source, defaults) });
+    } catch (err: any) {
+      errors.push(err.message);
+    }
+  }
+  return { active, errors };
+};
+
+export const createAdapter = async (source: Source, defaults: BloggerDefaults = {}): Promise<SourceAdapter> => {
+  const { config } = source;
+  switch (source.type) {
+    case "blogger": {
+      const apiKey = config.apiKey || defaults.apiKey || (await getSetting("BLOGGER_API_KEY"));
+      const blogId = config.blogId || defaults.blogId || (await getSetting("BLOGGER_BLOG_ID"));
+      if (!apiKey || !blogId) {
+        throw new SourceConfigError(`${source.name}: Blogger API key and blog ID are not configured`);
+      }
+      return createBloggerAdapter(source.id, apiKey, blogId);
+    }
+    case "rss":
+      return createFeedAdapter(source.id, config.url);
+    case "wordpress":
+      return createWordPressAdapter(source.id, {
+        url: config.url,
+        username: config.username,
+        appPassword: config.appPassword,
+      });
+  }
+};
@@ -0,0 +1,86 @@
+import fs from "fs";
+import path from "path";
+import { AsyncLocalStorage } from "async_hooks";
+import Database from "better-sqlite3";
+import { describeFileStorage, Storage, StorageInfo } from "./storage";
+
+// better-sqlite3 runs each query to completion before returning, so the
+// statements only need an async face. A transaction is different: its
+// callback awaits, and anything else using the connection meanwhile would
+// land inside it. Queries started from within the transaction are told apart
+// by their async context; everything else waits for it to end.
+//
+// `afterWrite` runs once a statement that changed data completes outside a
+// transaction, or when a transaction commits.
+export const wrapSqlite = (sqlite: any, info: StorageInfo, afterWrite?: () => void): Storage => {
+  const context = new AsyncLocalStorage<object>();
+  // The open transaction, and a promise that settles when it ends. Work the
+  // transaction started but did not await still carries its context once it
+  // is over, so the context has to match the open transaction.
+  let current: object | null = null;
+  let open: Promise<void> | null = null;
+
+  const inTransaction = () => !!current && context.getStore() === current;
+  // Checked again after every wait, and nothing is awaited between the check
+  // and the query, so a transaction cannot begin in between
+  const mustWait = () => !!open && !inTransaction();
+  const written = () => {
+    if (afterWrite && !open) afterWrite();
+  };
+
+  return {
+    prepare: (sql) => {
+      const statement = sqlite.prepare(sql);
+      const query =
+        <T>(method: (...params: unknown[]) => T) =>
+        async (...params: unknown[]) => {
+          while (mustWait()) await open;
+          const result = method.apply(statement, params);
+          if (!statement.readonly) written();
+          return result;
+        };
+      return {
+        get: query(statement.get),
+        all: query(statement.all),
+        run: query(statement.run),
+      };
+    },
+    exec: async (sql) => {
+      while (mustWait()) await open;
+      sqlite.exec(sql);
+      written();
+    },
+    transaction: async <T>(fn: () => Promise<T>) => {
+      if (inTransaction()) return fn();
+      while (open) await open;
+
+      const token = {};
+      let end!: () => void;
+      current = token;
+      open = new Promise((resolve) => (end = resolve));
+      try {
+        sqlite.exec("BEGIN");
+        const result = await context.run(token, fn);
+        sqlite.exec("COMMIT");
+        current = open = null;
+        written();
+        return result;
+      } catch (err) {
+        if (sqlite.inTransaction) sqlite.exec("ROLLBACK");
+        throw err;
+      } finally {
+        current = open = null;
+        end();
+      }
+    },
+    info,
+  };
+};
+
+export const openSqliteStorage = (file: string): Storage => {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  return wrapSqlite(new Database(file), describeFileStorage("sqlite", file));
+};
+
+export const openMemoryStorage = (warning: string): Storage =>
+  wrapSqlite(new Database(":memory:"), { backend: "memory", location: ":memory:", volatile: true, warning });
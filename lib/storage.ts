@@ -0,0 +1,69 @@
+import os from "os";
+import path from "path";
+
+// The database API the rest of the app is written against: prepared
+// statements and transactions in the style of better-sqlite3, but async, so
+// a query to a database on the network never holds up the server. SQL is
+// written in SQLite's dialect, and every backend runs it on an SQLite engine,
+// either in this process or on a libSQL server.
+//
+// This is a driver interface, not a data-access layer: each module keeps its
+// own SQL. Databases with another dialect, such as Postgres, are out of scope;
+// supporting one would mean moving that SQL behind per-module repositories.
+export interface RunResult {
+  changes: number;
+  lastInsertRowid: number | bigint;
+}
+
+export interface Statement {
+  get(...params: unknown[]): Promise<unknown>;
+  all(...params: unknown[]): Promise<unknown[]>;
+  run(...params: unknown[]): Promise<RunResult>;
+}
+
+export type StorageBackend = "sqlite" | "json" | "libsql" | "memory";
+
+export interface StorageInfo {
+  backend: StorageBackend;
+  // File path or server host; never includes credentials
+  location: string;
+  // Data is lost on restart or cold start, so posts would be sent again
+  volatile: boolean;
+  // Why the storage is volatile or not what was configured
+  warning: string | null;
+}
+
+export interface Storage {
+  prepare(sql: string): Statement;
+  // Runs one or more statements that take no parameters
+  exec(sql: string): Promise<void>;
+  // Runs fn in a single transaction, committed when it resolves and rolled
+  // back when it throws. Every query fn makes, however deep in its awaits,
+  // joins the transaction, and so do nested calls; queries from elsewhere
+  // stay out of it. Keep fn to database work, since other writers wait on it.
+  transaction<T>(fn: () => Promise<T>): Promise<T>;
+  info: StorageInfo;
+}
+
+export class StorageError extends Error {}
+
+export const STORAGE_BACKENDS = ["sqlite", "json", "libsql"] as const;
+
+export const isServerless = () => !!(process.env.NETLIFY || process.env.AWS_LAMBDA_FUNCTION_NAME);
+
+// Serverless platforms only let functions write to the temp directory, and
+// wipe it whenever a new instance starts.
+export const describeFileStorage = (backend: "sqlite" | "json", file: string): StorageInfo => {
+  const resolved = path.resolve(file);
+  const inTemp = resolved.startsWith(path.resolve(os.tmpdir()) + path.sep) || resolved.startsWith("/tmp/");
+  const volatile = isServerless() && inTemp;
+  return {
+    backend,
+    location: resolved,
+    volatile,
+    warning: volatile
+      ? `${resolved} is in the temp directory of a serverless function, which is wiped on every cold start. ` +
+        "Synced posts are forgotten and may be sent again. Set STORAGE_BACKEND=libsql to keep them."
+      : null,
+  };
+};
@@ -0,0 +1,251 @@
+import { db, getMigrationError, getSetting, getStorageInfo } from "./db";
+import { reconcileRemovedPosts } from "./reconcile";
+import { ActiveSource, BloggerDefaults, getActiveSources } from "./sources";
+import { ActiveDestination, getActiveDestinations, TelegramDefaults } from "./destinations";
+import { SourceAdapter, SourceError, SourcePost, sortChronologically } from "./source";
+import { extractMovieDetails, renderPost } from "./render";
+import { serializeMetadata, SyncedPostRow } from "./posts";
+import { processOutbox, recheckSkippedPosts, routePost } from "./outbox";
+import { acquireLock, getActiveLock, releaseLock, renewLock } from "./lock";
+import { emitSyncEvent, trackRunEvents } from "./events";
+
+export const SYNC_LOCK = "sync";
+// Renewed between posts, so only a stalled or crashed run ever lets it lapse.
+const RUN_LEASE_MS = 5 * 60 * 1000;
+
+// First sync on a fresh install only picks up the newest few posts.
+const INITIAL_SYNC_LIMIT = 3;
+// Keeps a long catch-up from tripping Telegram flood control; the rest stay queued for the next run.
+export const MAX_POSTS_PER_RUN = 20;
+
+export interface SyncConfig {
+  BLOGGER_API_KEY?: string;
+  BLOGGER_BLOG_ID?: string;
+  TELEGRAM_BOT_TOKEN?: string;
+  TELEGRAM_CHANNEL_ID?: string;
+}
+
+export interface SyncResult {
+  message: string;
+  synced: number;
+  updated?: number;
+  removed?: number;
+  failed?: number;
+  deferred?: number;
+  runId?: string;
+  // Sources and destinations that could not be used this run
+  errors?: string[];
+}
+
+// Carries the HTTP status the /api/sync route should answer with.
+export class SyncError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.status = status;
+  }
+}
+
+export class SyncInProgressError extends SyncError {
+  runId: string | null;
+
+  constructor(runId: string | null) {
+    super("Sync already in progress", 409);
+    this.runId = runId;
+  }
+}
+
+// The posts a source changed most recently; none when it cannot be reached.
+async function listRecentlyUpdated(adapter: SourceAdapter) {
+  try {
+    return await adapter.listPosts({ orderBy: "updated", limit: 10 });
+  } catch (err) {
+    if (err instanceof SourceError) return [];
+    throw err;
+  }
+}
+
+async function syncEditedPosts(recentlyUpdated: SourcePost[], destinations: ActiveDestination[]) {
+  let updatedCount = 0;
+  for (const post of recentlyUpdated) {
+    try {
+      if (!post.updated) continue;
+      const rows = ((await db.prepare("SELECT * FROM synced_posts WHERE post_id = ?").all(post.id)) as SyncedPostRow[]).filter(
+        (row) => !row.post_updated || new Date(post.updated!) > new Date(row.post_updated)
+      );
+      if (rows.length === 0) continue;
+
+      // Extracted once; each destination renders it with its own template
+      const details = await extractMovieDetails(post);
+      for (const row of rows) {
+        // Messages in paused or deleted destinations are left as they are
+        const target = destinations.find(({ destination }) => destination.id === row.destination_id);
+        if (!target) continue;
+
+        const rendered = await renderPost(post, target.templateBody, details, target.renderOptions);
+        // Destinations that cannot edit what they sent only keep the metadata current
+        const edited = target.adapter.edit ? await target.adapter.edit(row, post, rendered) : null;
+        if (edited) {
+          console.log(`Updated ${target.destination.name} message for edited post: ${post.title} (${post.id})`);
+          await db.prepare(
+            "UPDATE synced_posts SET content_hash = ?, image_url = ?, metadata = ?, post_updated = ?, removed_at = NULL WHERE id = ?"
+          ).run(edited.contentHash, edited.imageUrl, serializeMetadata(rendered), post.updated, row.id);
+          updatedCount++;
+        } else {
+          await db.prepare("UPDATE synced_posts SET metadata = ?, post_updated = ? WHERE id = ?").run(serializeMetadata(rendered), post.updated, row.id);
+        }
+      }
+    } catch (postError) {
+      console.error(`Error updating post ${post.id}:`, postError);
+    }
+  }
+  return updatedCount;
+}
+
+// Newest publish date among a source's synced posts; catch-up mode resumes from here.
+const getSyncWatermark = async (sourceId: number) => {
+  const row = (await db.prepare("SELECT MAX(published) as published FROM synced_posts WHERE source_id = ?").get(sourceId)) as {
+    published: string | null;
+  };
+  return row.published;
+};
+
+// Values passed in `overrides` win over stored settings and the environment.
+// They apply to Blogger sources and Telegram destinations that have no
+// credentials of their own.
+export const resolveSyncConfig = (overrides: SyncConfig = {}) => ({
+  blogger: { apiKey: overrides.BLOGGER_API_KEY, blogId: overrides.BLOGGER_BLOG_ID } as BloggerDefaults,
+  telegram: { botToken: overrides.TELEGRAM_BOT_TOKEN, chatId: overrides.TELEGRAM_CHANNEL_ID } as TelegramDefaults,
+});
+
+// Loads what a run posts to and reads from; each is reported separately when
+// nothing usable is configured.
+export const resolveTargets = async ({ blogger, telegram }: ReturnType<typeof resolveSyncConfig>) => {
+  const destinations = await getActiveDestinations(telegram);
+  if (destinations.active.length === 0) {
+    console.error("Sync failed: no usable destinations", destinations.errors);
+    throw new SyncError(destinations.errors[0] || "No destinations configured. Add a channel to post to.");
+  }
+  const sources = await getActiveSources(blogger);
+  if (sources.active.length === 0) {
+    throw new SyncError(sources.errors[0] || "No sources configured. Add a source to sync from.");
+  }
+  return { sources: sources.active, destinations: destinations.active, errors: [...destinations.errors, ...sources.errors] };
+};
+
+// Refuses to send anything while running on the temporary in-memory database or a
+// half-migrated schema: what was sent might not be remembered, so it would be sent again.
+export const assertStorageReady = async () => {
+  const storage = await getStorageInfo();
+  if (storage.backend === "memory") throw new SyncError(storage.warning || "Storage is unavailable", 503);
+  const migrationError = await getMigrationError();
+  if (migrationError) throw new SyncError(migrationError, 503);
+};
+
+// Only one run may talk to the sources and Telegram at a time, across processes.
+export async function runSync(overrides: SyncConfig = {}): Promise<SyncResult> {
+  await assertStorageReady();
+  const targets = await resolveTargets(resolveSyncConfig(overrides));
+
+  const runId = await acquireLock(SYNC_LOCK, RUN_LEASE_MS);
+  if (!runId) {
+    const active = await getActiveLock(SYNC_LOCK);
+    console.log(`Sync skipped: run ${active?.owner} is already in progress.`);
+    throw new SyncInProgressError(active?.owner ?? null);
+  }
+
+  console.log(`Sync run ${runId} started.`);
+  try {
+    return await trackRunEvents(runId, async () => ({
+      ...(await executeSync(targets, () => renewLock(SYNC_LOCK, runId, RUN_LEASE_MS))),
+      runId,
+    }));
+  } finally {
+    await releaseLock(SYNC_LOCK, runId);
+  }
+}
+
+export const getSyncMode = async () => ((await getSetting("SYNC_MODE")) === "latest" ? "latest" : "catch_up");
+
+export async function fetchNewPosts({ source, adapter }: ActiveSource, mode: "catch_up" | "latest") {
+  const watermark = await getSyncWatermark(source.id);
+  if (mode === "catch_up" && watermark) {
+    console.log(`Catching up on ${source.name} posts published since ${watermark}...`);
+    return adapter.listPosts({ since: watermark });
+  }
+
+  console.log(`Fetching from ${source.name}...`);
+  const posts = await adapter.listPosts({ limit: 10 });
+  // Nothing synced yet: start from the newest few instead of the whole page
+  return mode === "catch_up" ? posts.slice(0, INITIAL_SYNC_LIMIT) : posts;
+}
+
+async function executeSync(
+  { sources: active, destinations, errors }: Awaited<ReturnType<typeof resolveTargets>>,
+  heartbeat: () => Promise<unknown>
+): Promise<SyncResult> {
+  const mode = await getSyncMode();
+
+  // A failing source is reported, but never stops the others from syncing
+  const posts: SourcePost[] = [];
+  const reachable: ActiveSource[] = [];
+  for (const entry of active) {
+    await heartbeat();
+    try {
+      const fetched = await fetchNewPosts(entry, mode);
+      emitSyncEvent({ type: "fetched", source: entry.source.name, count: fetched.length });
+      posts.push(...fetched);
+      reachable.push(entry);
+    } catch (err: any) {
+      if (!(err instanceof SourceError)) throw err;
+      emitSyncEvent({ type: "source_failed", source: entry.source.name, error: err.message });
+      errors.push(`${entry.source.name}: ${err.message}`);
+    }
+  }
+  if (reachable.length === 0) {
+    throw new SyncError(errors.join("; "));
+  }
+
+  let queued = 0;
+  for (const post of sortChronologically(posts)) {
+    await heartbeat();
+    queued += (await routePost(post, destinations)).queued;
+  }
+  console.log(`Found ${posts.length} posts, ${queued} newly queued across ${destinations.length} destinations.`);
+
+  // Skipped posts that were edited, or that new filter rules may now let through
+  const edits = new Map<ActiveSource, SourcePost[]>();
+  let requeued = 0;
+  for (const entry of reachable) {
+    await heartbeat();
+    const recentlyUpdated = await listRecentlyUpdated(entry.adapter);
+    edits.set(entry, recentlyUpdated);
+    requeued += await recheckSkippedPosts(entry.source.id, entry.adapter, recentlyUpdated, destinations);
+  }
+  if (requeued > 0) console.log(`Queued ${requeued} previously skipped deliveries after an edit or a filter rule change.`);
+
+  // Delivers the new posts along with any earlier ones that are due for a retry
+  const delivery = await processOutbox(destinations, MAX_POSTS_PER_RUN, heartbeat);
+
+  let updatedCount = 0;
+  for (const [, recentlyUpdated] of edits) {
+    await heartbeat();
+    updatedCount += await syncEditedPosts(recentlyUpdated, destinations);
+  }
+  await heartbeat();
+  const removedCount = await reconcileRemovedPosts(reachable, destinations);
+
+  let message = posts.length === 0 ? "No posts found" : "Sync complete";
+  if (errors.length) message += ` (${errors.join("; ")})`;
+
+  return {
+    message,
+    synced: delivery.sent,
+    failed: delivery.failed,
+    deferred: delivery.deferred,
+    updated: updatedCount,
+    removed: removedCount,
+    errors: errors.length ? errors : undefined,
+  };
+}
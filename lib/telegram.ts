@@ -0,0 +1,363 @@
+import { truncateHtml } from "./html";
+import { hashContent } from "./posts";
+import { DeliveryRecord, DestinationAdapter } from "./destination";
+import { RenderedPost } from "./render";
+import { SourcePost } from "./source";
+import { fetchImageForUpload, ImageError, UploadImage } from "./images";
+
+// Telegram counts these in characters of visible text, after entity parsing.
+export const CAPTION_LIMIT = 1024;
+export const MESSAGE_LIMIT = 4096;
+
+export class TelegramError extends Error {
+  code: number;
+  parameters?: { retry_after?: number; migrate_to_chat_id?: number };
+
+  constructor(method: string, data: any) {
+    super(`Telegram ${method} failed: ${data?.description || JSON.stringify(data)}`);
+    this.code = data?.error_code ?? 0;
+    this.parameters = data?.parameters;
+  }
+}
+
+// Uploads go as multipart: each file under its own field, every other
+// parameter as a string and objects as JSON.
+const toFormData = (body: Record<string, unknown>, files: Record<string, UploadImage>) => {
+  const form = new FormData();
+  for (const [key, value] of Object.entries(body)) {
+    if (value === undefined) continue;
+    form.append(key, typeof value === "object" ? JSON.stringify(value) : String(value));
+  }
+  for (const [key, file] of Object.entries(files)) {
+    form.append(key, new Blob([new Uint8Array(file.data)], { type: file.contentType }), file.filename);
+  }
+  return form;
+};
+
+export async function callTelegram(botToken: string, method: string, body: Record<string, unknown>, files?: Record<string, UploadImage>) {
+  const response = await fetch(
+    `https://api.telegram.org/bot${botToken}/${method}`,
+    files
+      ? { method: "POST", body: toFormData(body, files) }
+      : { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) }
+  );
+  const data = await response.json().catch(() => null);
+
+  if (!response.ok || !data?.ok) {
+    throw new TelegramError(method, data);
+  }
+  return data.result;
+}
+
+// Telegram rejects edits that would leave a message unchanged; for us that is a success.
+export const isNotModifiedError = (err: unknown) =>
+  err instanceof TelegramError && /message is not modified/i.test(err.message);
+
+// Network failures, flood control and Telegram-side outages are worth
+// retrying; anything else (bad request, bot not in the chat, invalid token)
+// will fail the same way again.
+export const isTransientError = (err: unknown) => {
+  if (!(err instanceof TelegramError)) return true;
+  return err.code === 429 || err.code >= 500 || err.code === 0;
+};
+
+export const getRetryAfterMs = (err: unknown) =>
+  err instanceof TelegramError && err.parameters?.retry_after ? err.parameters.retry_after * 1000 : null;
+
+export interface OutgoingPost {
+  text: string;
+  caption: string | null;
+  imageUrl?: string;
+  imageUrls?: string[];
+}
+
+export const LINK_PREVIEW_MODES = ["default", "disabled", "small", "large", "above"] as const;
+export type LinkPreviewMode = (typeof LINK_PREVIEW_MODES)[number];
+
+export interface MessageOptions {
+  // Every image in the post goes out as an album instead of just the first
+  album?: boolean;
+  silent?: boolean;
+  protectContent?: boolean;
+  linkPreview?: LinkPreviewMode;
+  // Attached to the message that carries the text
+  replyMarkup?: InlineKeyboard;
+}
+
+export interface InlineKeyboard {
+  inline_keyboard: Array<Array<{ text: string; url: string }>>;
+}
+
+const LINK_PREVIEW_OPTIONS: Record<LinkPreviewMode, Record<string, boolean> | undefined> = {
+  default: undefined,
+  disabled: { is_disabled: true },
+  small: { prefer_small_media: true },
+  large: { prefer_large_media: true },
+  above: { show_above_text: true },
+};
+
+// Parameters every message of a post is sent with. Unset options are left
+// out so Telegram applies its own defaults.
+const deliveryParams = (chatId: string, options: MessageOptions) => ({
+  chat_id: chatId,
+  disable_notification: options.silent || undefined,
+  protect_content: options.protectContent || undefined,
+});
+
+// Download, Trailer and IMDb buttons for whichever links the post has.
+export const buildKeyboard = ({ values, details }: RenderedPost): InlineKeyboard | undefined => {
+  const rows = [
+    values.url ? [{ text: "📥 Download", url: values.url }] : [],
+    [
+      details.trailer ? { text: "🎬 Trailer", url: details.trailer } : null,
+      details.imdb_url ? { text: "⭐ IMDb", url: details.imdb_url } : null,
+    ].filter((button): button is { text: string; url: string } => !!button),
+  ].filter((row) => row.length > 0);
+  return rows.length ? { inline_keyboard: rows } : undefined;
+};
+
+// Only the fields we read back from what Telegram returns for a sent message
+interface TelegramMessage {
+  message_id: number;
+}
+
+export interface SentPost {
+  message: any;
+  // Set when the photo went out on its own, ahead of the text message
+  photoMessageId: number | null;
+  // The rest of an album sent with or ahead of the message
+  mediaMessageIds: number[];
+}
+
+// Failures worth falling back from rather than retrying: Telegram refusing
+// the image, or our own download of it failing.
+const isImageFailure = (err: unknown) => err instanceof ImageError || !isTransientError(err);
+
+// Sends a photo by URL, and uploads it ourselves when Telegram cannot use the
+// URL (hotlink protection, formats it does not take, images over its limits).
+async function sendPhoto(botToken: string, params: Record<string, unknown>, imageUrl: string) {
+  try {
+    return await callTelegram(botToken, "sendPhoto", { ...params, photo: imageUrl });
+  } catch (err) {
+    if (isTransientError(err)) throw err;
+    console.error("Telegram could not use the photo URL, uploading it instead:", (err as Error).message);
+  }
+  const photo = await fetchImageForUpload(imageUrl, "photo");
+  return callTelegram(botToken, "sendPhoto", params, { photo });
+}
+
+const ALBUM_LIMIT = 10;
+
+// Sends up to ten images as an album, with the caption on the first one when
+// given. Images that cannot be uploaded are left out of the album.
+async function sendAlbum(botToken: string, params: Record<string, unknown>, imageUrls: string[], caption: string | null) {
+  const toMedia = (photos: string[]) =>
+    photos.map((media, index) => ({ type: "photo", media, ...(index === 0 && caption !== null ? { caption, parse_mode: "HTML" } : {}) }));
+  const urls = imageUrls.slice(0, ALBUM_LIMIT);
+
+  try {
+    return (await callTelegram(botToken, "sendMediaGroup", { ...params, media: toMedia(urls) })) as TelegramMessage[];
+  } catch (err) {
+    if (isTransientError(err)) throw err;
+    console.error("Telegram could not use the album URLs, uploading them instead:", (err as Error).message);
+  }
+
+  const files: Record<string, UploadImage> = {};
+  for (const [index, url] of urls.entries()) {
+    try {
+      files[`photo${index}`] = await fetchImageForUpload(url, `photo${index}`);
+    } catch (err: any) {
+      console.error("Leaving image out of the album:", err.message);
+    }
+  }
+  const names = Object.keys(files);
+  if (names.length < 2) throw new ImageError("Too few images could be uploaded for an album");
+  return (await callTelegram(botToken, "sendMediaGroup", { ...params, media: toMedia(names.map((name) => `attach://${name}`)) }, files)) as TelegramMessage[];
+}
+
+// The single place posts are sent to a chat. Photos Telegram refuses to fetch
+// are uploaded by us, and if that fails too the post goes out as a text-only
+// message with the same content. Text too long for a caption follows the
+// photo as a separate message.
+export async function sendPost(botToken: string, chatId: string, post: OutgoingPost, options: MessageOptions = {}): Promise<SentPost> {
+  let photoMessageId: number | null = null;
+  let mediaMessageIds: number[] = [];
+  const params = deliveryParams(chatId, options);
+
+  if (options.album && post.imageUrls && post.imageUrls.length > 1) {
+    // Albums cannot carry buttons, so with a keyboard the text follows as its own message
+    const caption = options.replyMarkup ? null : post.caption;
+    try {
+      const messages = await sendAlbum(botToken, params, post.imageUrls, caption);
+      const ids = messages.map((message) => message.message_id);
+      if (caption !== null) return { message: messages[0], photoMessageId: null, mediaMessageIds: ids.slice(1) };
+      mediaMessageIds = ids;
+    } catch (err) {
+      if (!isImageFailure(err)) throw err;
+      console.error("Telegram sendMediaGroup failed, sending a single photo instead:", (err as Error).message);
+    }
+  }
+
+  if (post.imageUrl && mediaMessageIds.length === 0) {
+    try {
+      if (post.caption !== null) {
+        const message = await sendPhoto(
+          botToken,
+          { ...params, caption: post.caption, parse_mode: "HTML", reply_markup: options.replyMarkup },
+          post.imageUrl
+        );
+        return { message, photoMessageId: null, mediaMessageIds };
+      }
+      const photo = await sendPhoto(botToken, params, post.imageUrl);
+      photoMessageId = photo?.message_id ?? null;
+    } catch (err) {
+      if (!isImageFailure(err)) throw err;
+      console.error("Telegram sendPhoto failed, retrying as text only:", (err as Error).message);
+    }
+  }
+
+  try {
+    const message = await callTelegram(botToken, "sendMessage", {
+      ...params,
+      text: post.text,
+      parse_mode: "HTML",
+      link_preview_options: LINK_PREVIEW_OPTIONS[options.linkPreview ?? "default"],
+      reply_markup: options.replyMarkup,
+    });
+    return { message, photoMessageId, mediaMessageIds };
+  } catch (err) {
+    // Don't leave bare photos behind for the retry to duplicate
+    for (const messageId of photoMessageId ? [photoMessageId, ...mediaMessageIds] : mediaMessageIds) {
+      await callTelegram(botToken, "deleteMessage", { chat_id: chatId, message_id: messageId }).catch(() => null);
+    }
+    throw err;
+  }
+}
+
+const REMOVED_NOTICE = "🚫 <b>This post has been removed.</b>";
+
+// The keyboard is part of what an edit has to bring up to date, so it is
+// hashed along with the text whenever there is one.
+const hashMessage = (text: string, imageUrl: string | null, keyboard?: InlineKeyboard) =>
+  hashContent(keyboard ? `${text}\n${JSON.stringify(keyboard)}` : text, imageUrl);
+
+const toRecord = (sent: SentPost, post: OutgoingPost, keyboard?: InlineKeyboard): DeliveryRecord => {
+  const messageType = sent.message?.photo ? "photo" : "text";
+  const imageUrl = messageType === "photo" ? post.imageUrl ?? null : null;
+  return {
+    messageId: sent.message?.message_id ?? null,
+    photoMessageId: sent.photoMessageId,
+    mediaMessageIds: sent.mediaMessageIds,
+    messageRef: null,
+    messageType,
+    imageUrl,
+    contentHash: hashMessage(post.text, imageUrl, keyboard),
+  };
+};
+
+export interface TelegramDeliveryOptions extends Omit<MessageOptions, "replyMarkup"> {
+  // Download, Trailer and IMDb links go out as inline buttons
+  linkButtons?: boolean;
+  // Picks the posts to pin in the channel once sent
+  shouldPin?: (post: SourcePost, rendered: RenderedPost) => boolean;
+}
+
+export const createTelegramAdapter = (botToken: string, chatId: string, options: TelegramDeliveryOptions = {}): DestinationAdapter => {
+  const keyboardFor = (rendered: RenderedPost) => (options.linkButtons ? buildKeyboard(rendered) : undefined);
+
+  return {
+    target: chatId,
+
+    async send(post, rendered) {
+      const keyboard = keyboardFor(rendered);
+      const sent = await sendPost(botToken, chatId, rendered, { ...options, replyMarkup: keyboard });
+      const record = toRecord(sent, rendered, keyboard);
+
+      // The post is already out, so a failed pin must not fail the delivery
+      if (record.messageId && options.shouldPin?.(post, rendered)) {
+        await callTelegram(botToken, "pinChatMessage", {
+          chat_id: chatId,
+          message_id: record.messageId,
+          disable_notification: options.silent || undefined,
+        }).catch((err) => console.error("Telegram pinChatMessage failed:", err.message));
+      }
+      return record;
+    },
+
+    // Pushes changes made at the source to the message already in the channel.
+    async edit(row, post, rendered) {
+      const { text, imageUrl } = rendered;
+      const keyboard = keyboardFor(rendered);
+      const contentHash = hashMessage(text, row.message_type === "photo" ? imageUrl ?? null : null, keyboard);
+      if (contentHash === row.content_hash || !row.message_id || !row.chat_id) return null;
+
+      // Edits without reply_markup would drop the buttons
+      const target = { chat_id: row.chat_id, message_id: row.message_id, reply_markup: keyboard };
+      try {
+        if (row.message_type === "photo") {
+          // The message already has its photo, so an over-long caption is cut rather than split
+          const caption = rendered.caption ?? truncateHtml(text, CAPTION_LIMIT);
+          if (imageUrl && imageUrl !== row.image_url) {
+            try {
+              await callTelegram(botToken, "editMessageMedia", {
+                ...target,
+                media: { type: "photo", media: imageUrl, caption, parse_mode: "HTML" },
+              });
+              return { contentHash: hashMessage(text, imageUrl, keyboard), imageUrl };
+            } catch (err) {
+              if (isNotModifiedError(err)) return { contentHash: hashMessage(text, imageUrl, keyboard), imageUrl };
+              console.error("Telegram editMessageMedia failed, updating caption only:", err);
+            }
+          }
+          await callTelegram(botToken, "editMessageCaption", { ...target, caption, parse_mode: "HTML" });
+          return { contentHash: hashMessage(text, row.image_url, keyboard), imageUrl: row.image_url };
+        }
+
+        // Telegram cannot attach a photo to an existing text message
+        await callTelegram(botToken, "editMessageText", {
+          ...target,
+          text,
+          parse_mode: "HTML",
+          link_preview_options: LINK_PREVIEW_OPTIONS[options.linkPreview ?? "default"],
+        });
+        return { contentHash: hashMessage(text, null, keyboard), imageUrl: null };
+      } catch (err) {
+        if (isNotModifiedError(err)) return null;
+        throw err;
+      }
+    },
+
+    async remove(row, action) {
+      if (!row.message_id) return "marked";
+      const target = { chat_id: row.chat_id, message_id: row.message_id };
+      if (action === "delete") {
+        try {
+          await callTelegram(botToken, "deleteMessage", target);
+          const photoIds: number[] = [...(row.photo_message_id ? [row.photo_message_id] : []), ...JSON.parse(row.media_message_ids || "[]")];
+          for (const messageId of photoIds) {
+            await callTelegram(botToken, "deleteMessage", { chat_id: row.chat_id, message_id: messageId }).catch((err) =>
+              console.error("Telegram deleteMessage failed for photo:", err.message)
+            );
+          }
+          return "deleted";
+        } catch (err) {
+          if (!(err instanceof TelegramError)) throw err;
+          console.error("Telegram deleteMessage failed, marking as removed instead:", err.message);
+        }
+      }
+
+      // Leaving out reply_markup also takes the buttons off the removed post
+      if (row.message_type === "photo") {
+        await callTelegram(botToken, "editMessageCaption", { ...target, caption: REMOVED_NOTICE, parse_mode: "HTML" });
+      } else {
+        await callTelegram(botToken, "editMessageText", { ...target, text: REMOVED_NOTICE, parse_mode: "HTML" });
+      }
+      return "marked";
+    },
+
+    async test() {
+      const chat = await callTelegram(botToken, "getChat", { chat_id: chatId });
+      return chat.title || chat.username || String(chat.id);
+    },
+  };
+};
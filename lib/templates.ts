@@ -0,0 +1,185 @@
+import { db, getSetting, setSetting } from "./db";
+
+// Placeholders available to templates, in the order the editor lists them.
+export const TEMPLATE_FIELDS = [
+  "title",
+  "title_upper",
+  "hook",
+  "imdb",
+  "genre",
+  "language",
+  "released",
+  "director",
+  "cast",
+  "plot",
+  "snippet",
+  "url",
+  "trailer",
+  "imdb_url",
+  "labels",
+  "hashtags",
+] as const;
+
+export type TemplateField = (typeof TEMPLATE_FIELDS)[number];
+export type TemplateValues = Partial<Record<TemplateField, string | null>>;
+
+export interface MessageTemplate {
+  id: number;
+  name: string;
+  body: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Reproduces the layout that used to be hard-coded in the sync handler.
+export const DEFAULT_TEMPLATE = `🔥 <b>{{title_upper}}</b>
+{{#hook}}<i>{{hook}}</i>
+{{/hook}}
+⭐ <b>IMDb:</b> {{imdb|N/A}}
+🎭 <b>Genre:</b> {{genre|N/A}}
+🌍 <b>Language:</b> {{language|N/A}}
+📅 <b>Released:</b> {{released|N/A}}
+🎬 <b>Director:</b> {{director|N/A}}
+👥 <b>Cast:</b> {{cast|N/A}}
+
+📝 <b>Plot:</b>
+<i>{{snippet}}</i>
+
+{{#url}}━━━━━━━━━━━━━━━
+📥 <b>ডাউনলোড লিঙ্ক:</b>
+🔗 {{url}}{{/url}}`;
+
+// The default before the download block became a section. Installs that never
+// edited it are moved to the current one, so it can be left out when the
+// link is sent as a button instead.
+const PREVIOUS_DEFAULT_TEMPLATE = DEFAULT_TEMPLATE.replace("{{#url}}", "").replace("{{/url}}", "");
+
+// Syntax (a small Mustache subset):
+//   {{field}}              value, empty when missing
+//   {{field|fallback}}     value, or the fallback text when missing
+//   {{#field}}...{{/field}} section rendered only when the field is present
+//   {{^field}}...{{/field}} section rendered only when the field is missing
+type TemplateNode =
+  | { type: "text"; value: string }
+  | { type: "var"; field: string; fallback: string | null }
+  | { type: "section"; field: string; inverted: boolean; children: TemplateNode[] };
+
+const TAG = /\{\{\s*([#^/]?)\s*([a-z_]+)\s*(?:\|([^}]*))?\}\}/g;
+
+export class TemplateSyntaxError extends Error {}
+
+export const parseTemplate = (source: string): TemplateNode[] => {
+  const root: TemplateNode[] = [];
+  const stack: Array<{ field: string; children: TemplateNode[] }> = [{ field: "", children: root }];
+  let lastIndex = 0;
+
+  for (const match of source.matchAll(TAG)) {
+    const [raw, sigil, field, fallback] = match;
+    const current = stack[stack.length - 1];
+    if (match.index! > lastIndex) {
+      current.children.push({ type: "text", value: source.slice(lastIndex, match.index) });
+    }
+    lastIndex = match.index! + raw.length;
+
+    if (!(TEMPLATE_FIELDS as readonly string[]).includes(field)) {
+      throw new TemplateSyntaxError(`Unknown placeholder "${field}"`);
+    }
+
+    if (sigil === "#" || sigil === "^") {
+      const section: TemplateNode = { type: "section", field, inverted: sigil === "^", children: [] };
+      current.children.push(section);
+      stack.push({ field, children: section.children });
+    } else if (sigil === "/") {
+      if (stack.length === 1 || current.field !== field) {
+        throw new TemplateSyntaxError(`Unexpected closing tag {{/${field}}}`);
+      }
+      stack.pop();
+    } else {
+      current.children.push({ type: "var", field, fallback: fallback ?? null });
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new TemplateSyntaxError(`Section {{#${stack[stack.length - 1].field}}} is never closed`);
+  }
+  if (lastIndex < source.length) {
+    root.push({ type: "text", value: source.slice(lastIndex) });
+  }
+  return root;
+};
+
+const renderNodes = (nodes: TemplateNode[], values: TemplateValues): string =>
+  nodes
+    .map((node) => {
+      if (node.type === "text") return node.value;
+      const value = values[node.field as TemplateField];
+      if (node.type === "var") return value || node.fallback || "";
+      return !!value !== node.inverted ? renderNodes(node.children, values) : "";
+    })
+    .join("");
+
+export const renderTemplate = (source: string, values: TemplateValues) =>
+  renderNodes(parseTemplate(source), values)
+    // Sections for missing fields leave blank lines behind; keep at most one
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+const ensureDefaultTemplate = async () => {
+  const row = (await db.prepare("SELECT COUNT(*) as count FROM templates").get()) as { count: number };
+  if (row.count === 0) {
+    const { lastInsertRowid } = await db.prepare("INSERT INTO templates (name, body) VALUES (?, ?)").run("Default", DEFAULT_TEMPLATE);
+    await setSetting("ACTIVE_TEMPLATE_ID", String(lastInsertRowid));
+  }
+  if ((await getSetting("DEFAULT_TEMPLATE_UPGRADED")) !== "true") {
+    await db.prepare("UPDATE templates SET body = ? WHERE body = ?").run(DEFAULT_TEMPLATE, PREVIOUS_DEFAULT_TEMPLATE);
+    await setSetting("DEFAULT_TEMPLATE_UPGRADED", "true");
+  }
+};
+
+export const listTemplates = async () => {
+  await ensureDefaultTemplate();
+  return (await db.prepare("SELECT * FROM templates ORDER BY id").all()) as MessageTemplate[];
+};
+
+export const getTemplate = async (id: number) =>
+  (await db.prepare("SELECT * FROM templates WHERE id = ?").get(id)) as MessageTemplate | undefined;
+
+export const getActiveTemplateId = async () => {
+  await ensureDefaultTemplate();
+  const id = Number(await getSetting("ACTIVE_TEMPLATE_ID"));
+  if (id && (await getTemplate(id))) return id;
+  return (await listTemplates())[0].id;
+};
+
+export const getActiveTemplate = async () => (await getTemplate(await getActiveTemplateId()))!;
+
+export const createTemplate = async (name: string, body: string) => {
+  parseTemplate(body);
+  const { lastInsertRowid } = await db.prepare("INSERT INTO templates (name, body) VALUES (?, ?)").run(name, body);
+  return (await getTemplate(Number(lastInsertRowid)))!;
+};
+
+export const updateTemplate = async (id: number, name: string, body: string) => {
+  parseTemplate(body);
+  const result = await db
+    .prepare("UPDATE templates SET name = ?, body = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?")
+    .run(name, body, id);
+  return result.changes > 0 ? (await getTemplate(id))! : null;
+};
+
+export const deleteTemplate = async (id: number) => {
+  if (id === (await getActiveTemplateId())) {
+    throw new Error("The active template cannot be deleted");
+  }
+  const destination = (await db.prepare("SELECT name FROM destinations WHERE template_id = ?").get(id)) as { name: string } | undefined;
+  if (destination) {
+    throw new Error(`The template is used by the ${destination.name} destination`);
+  }
+  return (await db.prepare("DELETE FROM templates WHERE id = ?").run(id)).changes > 0;
+};
+
+export const activateTemplate = async (id: number) => {
+  if (!(await getTemplate(id))) return false;
+  await setSetting("ACTIVE_TEMPLATE_ID", String(id));
+  return true;
+};
@@ -0,0 +1,86 @@
+import crypto from "crypto";
+import { hashContent } from "./posts";
+import { RenderedPost } from "./render";
+import { DestinationAdapter, requestJson } from "./destination";
+import { METADATA_FIELDS } from "./metadata";
+import { SourcePost } from "./source";
+
+export type WebhookEvent = "post.published" | "post.updated" | "post.removed" | "ping";
+
+// The post as our own services receive it: the source fields plus everything
+// extracted from the body. The send time is added per request, outside what
+// is hashed, so only a change to the post causes a post.updated event.
+export const buildPayload = (post: SourcePost, { values, details, imageUrl }: RenderedPost) => {
+  const metadata: Record<string, string | null> = { hook: details.hook };
+  for (const field of METADATA_FIELDS) metadata[field] = details[field];
+
+  return {
+    post: {
+      id: post.id,
+      sourceId: post.sourceId,
+      title: details.title,
+      url: values.url ?? null,
+      published: post.published,
+      updated: post.updated,
+      labels: post.labels || [],
+      imageUrl: imageUrl ?? null,
+      snippet: details.snippet,
+    },
+    metadata,
+  };
+};
+
+// Receivers verify X-Webhook-Signature as the hex HMAC-SHA256 of
+// "<X-Webhook-Timestamp>.<raw body>" with the shared secret, and should
+// reject stale timestamps to stop replays.
+export const signPayload = (secret: string, timestamp: string, body: string) =>
+  crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+
+export const createWebhookAdapter = (url: string, secret: string): DestinationAdapter => {
+  const post = async (event: WebhookEvent, data: Record<string, unknown>) => {
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const body = JSON.stringify({ event, sentAt: new Date().toISOString(), ...data });
+    return requestJson("Webhook", url, "POST", body, {
+      "X-Webhook-Event": event,
+      "X-Webhook-Timestamp": timestamp,
+      "X-Webhook-Signature": `sha256=${signPayload(secret, timestamp, body)}`,
+    });
+  };
+
+  return {
+    target: new URL(url).host,
+
+    async send(sourcePost, rendered) {
+      const payload = buildPayload(sourcePost, rendered);
+      await post("post.published", payload);
+      return {
+        messageId: null,
+        photoMessageId: null,
+        messageRef: null,
+        messageType: "webhook",
+        imageUrl: rendered.imageUrl ?? null,
+        contentHash: hashContent(JSON.stringify(payload)),
+      };
+    },
+
+    async edit(row, sourcePost, rendered) {
+      const payload = buildPayload(sourcePost, rendered);
+      const contentHash = hashContent(JSON.stringify(payload));
+      if (contentHash === row.content_hash) return null;
+
+      await post("post.updated", payload);
+      return { contentHash, imageUrl: rendered.imageUrl ?? null };
+    },
+
+    // The receiver decides what removal means; `action` passes on the setting
+    async remove(row, action) {
+      await post("post.removed", { post: { id: row.post_id }, action });
+      return action === "delete" ? "deleted" : "marked";
+    },
+
+    async test() {
+      await post("ping", {});
+      return new URL(url).host;
+    },
+  };
+};
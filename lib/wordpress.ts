@@ -0,0 +1,132 @@
+import { decodeEntities } from "./html";
+import { SourceAdapter, SourceError, SourcePost } from "./source";
+
+const MAX_PER_PAGE = 100;
+// Deleted, or trashed and then emptied. 401 and 403 mean the credentials or a
+// security plugin got in the way, which says nothing about the post.
+const GONE_STATUSES = [404, 410];
+
+export class WordPressError extends SourceError {}
+
+export interface WordPressConfig {
+  url: string;
+  // Application password credentials; only needed for sites that hide the REST API
+  username?: string;
+  appPassword?: string;
+}
+
+const stripTags = (html: string) => decodeEntities(html.replace(/<[^>]*>/g, "")).trim();
+
+// WordPress reports GMT times without a zone designator.
+const gmtToIso = (value: string | undefined) => (value ? new Date(`${value}Z`).toISOString() : null);
+
+const normalizePost = (item: any, sourceId: number, host: string): SourcePost => {
+  const embedded = item._embedded || {};
+  const terms: any[] = (embedded["wp:term"] || []).flat();
+  const featured = embedded["wp:featuredmedia"]?.[0]?.source_url;
+
+  return {
+    id: `wp:${host}:${item.id}`,
+    sourceId,
+    title: stripTags(item.title?.rendered || ""),
+    url: item.link || "",
+    content: item.content?.rendered || "",
+    published: gmtToIso(item.date_gmt) ?? new Date(item.date).toISOString(),
+    updated: gmtToIso(item.modified_gmt),
+    labels: terms.filter((term) => term?.name && term.taxonomy !== "post_format").map((term) => stripTags(term.name)),
+    images: featured ? [{ url: featured }] : [],
+  };
+};
+
+export const createWordPressAdapter = (sourceId: number, { url, username, appPassword }: WordPressConfig): SourceAdapter => {
+  const site = url.replace(/\/+$/, "");
+  const host = new URL(site).host;
+  const headers: Record<string, string> = { Accept: "application/json" };
+  if (username && appPassword) {
+    headers.Authorization = `Basic ${Buffer.from(`${username}:${appPassword}`).toString("base64")}`;
+  }
+
+  const request = async (path: string, params: Record<string, string> = {}) => {
+    try {
+      return await fetch(`${site}/wp-json/wp/v2${path}?${new URLSearchParams(params)}`, { headers });
+    } catch (err: any) {
+      throw new WordPressError(`WordPress API Error: ${err.message}`);
+    }
+  };
+
+  const nativeId = (id: string) => id.slice(id.lastIndexOf(":") + 1);
+
+  return {
+    async listPosts({ since, until, orderBy, limit } = {}) {
+      const posts: SourcePost[] = [];
+      let page = 1;
+      let totalPages = 1;
+
+      do {
+        const params: Record<string, string> = {
+          per_page: String(Math.min(limit ?? MAX_PER_PAGE, MAX_PER_PAGE)),
+          page: String(page),
+          orderby: orderBy === "updated" ? "modified" : "date",
+          order: "desc",
+          _embed: "wp:featuredmedia,wp:term",
+        };
+        if (since) params.after = since;
+        if (until) params.before = until;
+
+        const response = await request("/posts", params);
+        const data = await response.json().catch(() => null);
+        if (!response.ok || !Array.isArray(data)) {
+          console.error("WordPress API Error:", data?.message || response.status);
+          throw new WordPressError(`WordPress API Error: ${data?.message || `HTTP ${response.status}`}`);
+        }
+
+        posts.push(...data.map((item) => normalizePost(item, sourceId, host)));
+        totalPages = Number(response.headers.get("X-WP-TotalPages")) || 1;
+        page++;
+      } while (page <= totalPages && (!limit || posts.length < limit));
+
+      return limit ? posts.slice(0, limit) : posts;
+    },
+
+    async getPost(id) {
+      const response = await request(`/posts/${nativeId(id)}`, { _embed: "wp:featuredmedia,wp:term" });
+      if (GONE_STATUSES.includes(response.status)) return null;
+      const data = await response.json().catch(() => null);
+      if (!response.ok || !data?.id) {
+        throw new WordPressError(`WordPress API Error: ${data?.message || `HTTP ${response.status}`}`);
+      }
+      return data.status && data.status !== "publish" ? null : normalizePost(data, sourceId, host);
+    },
+
+    async listPublishedIds() {
+      const ids = new Set<string>();
+      let page = 1;
+      let totalPages = 1;
+
+      do {
+        const response = await request("/posts", { per_page: String(MAX_PER_PAGE), page: String(page), _fields: "id" });
+        const data = await response.json().catch(() => null);
+        if (!response.ok || !Array.isArray(data)) {
+          console.error("WordPress API Error (reconcile):", data?.message || response.status);
+          return null;
+        }
+
+        for (const item of data) ids.add(`wp:${host}:${item.id}`);
+        totalPages = Number(response.headers.get("X-WP-TotalPages")) || 1;
+        page++;
+      } while (page <= totalPages);
+
+      return ids;
+    },
+
+    async isGone(id) {
+      const response = await request(`/posts/${nativeId(id)}`, { _fields: "id,status" });
+      if (GONE_STATUSES.includes(response.status)) return true;
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new WordPressError(`WordPress API Error: ${data?.message || `HTTP ${response.status}`}`);
+      }
+      return !!data?.status && data.status !== "publish";
+    },
+  };
+};
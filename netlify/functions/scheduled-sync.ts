@@ -0,0 +1,11 @@
+import { runDueSync } from "../../lib/scheduler";
+
+// Netlify ticks this every minute (see netlify.toml); the schedule configured
+// on the dashboard decides whether a sync is actually due.
+export const handler = async () => {
+  const result = await runDueSync();
+  return {
+    statusCode: 200,
+    body: JSON.stringify(result ?? { message: "Skipped" }),
+  };
+};
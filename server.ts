@@ -1,11 +1,87 @@
+import "dotenv/config";
 import express from "express";
 import path from "path";
-import fs from "fs";
 import { fileURLToPath } from "url";
-import Database from "better-sqlite3";
-import dotenv from "dotenv";
-
-dotenv.config();
+import { db, getMigrationError, getStorageInfo } from "./lib/db";
+import { runSync, SYNC_LOCK, SyncError, SyncInProgressError } from "./lib/sync";
+import { getActiveLock } from "./lib/lock";
+import { getRecentSyncEvents, SyncEvent, subscribeSyncEvents } from "./lib/events";
+import { previewSync, publishPreviewedPost } from "./lib/preview";
+import { configureBotUpdates, getUpdateMode, handleUpdate, isValidWebhookSecret } from "./lib/bot";
+import { getPublicSettings, updateSettings } from "./lib/settings";
+import { runDiagnostics } from "./lib/diagnostics";
+import { getTrackedLink, recordClick } from "./lib/links";
+import { getClickAnalytics } from "./lib/analytics";
+import {
+  checkAdminPassword,
+  clearSessionCookie,
+  isAuthConfigured,
+  isAuthDisabled,
+  isAuthenticated,
+  requireAuth,
+  setSessionCookie,
+} from "./lib/auth";
+import {
+  getSchedulerStatus,
+  pauseScheduler,
+  resumeScheduler,
+  startScheduler,
+  updateSchedule,
+  validateCron,
+} from "./lib/scheduler";
+import {
+  cancelBackfill,
+  getBackfillJob,
+  getLatestBackfillJob,
+  recoverInterruptedBackfills,
+  startBackfill,
+} from "./lib/backfill";
+import { DEFAULT_FILTER_RULES, getFilterRules, updateFilterRules } from "./lib/filters";
+import {
+  forgetPost,
+  getDeliveryStats,
+  getOutboxCounts,
+  listOutbox,
+  OutboxStatus,
+  resendPost,
+  retryOutboxItem,
+  retryPostDelivery,
+} from "./lib/outbox";
+import { listHistory } from "./lib/history";
+import {
+  activateTemplate,
+  createTemplate,
+  deleteTemplate,
+  getActiveTemplateId,
+  listTemplates,
+  parseTemplate,
+  TEMPLATE_FIELDS,
+  updateTemplate,
+} from "./lib/templates";
+import { renderPost } from "./lib/render";
+import { DEFAULT_SELECTORS, getSelectorRules, METADATA_FIELDS, updateSelectorRules } from "./lib/metadata";
+import {
+  createAdapter,
+  createSource,
+  deleteSource,
+  getEnabledSources,
+  getSource,
+  listSources,
+  SOURCE_TYPES,
+  toPublicSource,
+  updateSource,
+} from "./lib/sources";
+import {
+  createDestination,
+  deleteDestination,
+  DESTINATION_TYPES,
+  getDestination,
+  listDestinations,
+  resolveDestination,
+  RULE_FIELDS,
+  toPublicDestination,
+  updateDestination,
+} from "./lib/destinations";
 
 const getDirname = () => {
   try {
@@ -17,46 +93,6 @@ const getDirname = () => {
 
 const __dirname = getDirname();
 
-let db: Database.Database;
-try {
-  const isNetlify = process.env.NETLIFY || process.env.AWS_LAMBDA_FUNCTION_NAME;
-  const dbPath = isNetlify ? "/tmp/sync.db" : path.join(__dirname, "sync.db");
-  
-  // Ensure directory exists for local dev
-  if (!isNetlify && !fs.existsSync(path.dirname(dbPath))) {
-    fs.mkdirSync(path.dirname(dbPath), { recursive: true });
-  }
-  
-  db = new Database(dbPath);
-} catch (err) {
-  console.error("Failed to initialize file-based database, using in-memory:", err);
-  db = new Database(":memory:");
-}
-
-try {
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS synced_posts (
-      post_id TEXT PRIMARY KEY,
-      synced_at DATETIME DEFAULT CURRENT_TIMESTAMP
-    );
-    CREATE TABLE IF NOT EXISTS settings (
-      key TEXT PRIMARY KEY,
-      value TEXT
-    );
-  `);
-} catch (err) {
-  console.error("Database Initialization Error:", err);
-}
-
-const getSetting = (key: string) => {
-  const row = db.prepare("SELECT value FROM settings WHERE key = ?").get(key) as { value: string } | undefined;
-  return row?.value || process.env[key];
-};
-
-const setSetting = (key: string, value: string) => {
-  db.prepare("INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)").run(key, value);
-};
-
 const app = express();
 app.use(express.json());
 
@@ -64,211 +100,565 @@ export { app };
 
 const PORT = 3000;
 
-async function extractMovieDetails(post: any) {
-  const title = post.title || "New Movie Post";
-  const content = post.content || "";
-  
-  // Helper to extract text by class name
-  const extractByClass = (className: string) => {
-    const regex = new RegExp(`class=["']${className}["'][^>]*>([^<]+)<`, "i");
-    const match = content.match(regex);
-    return match ? match[1].trim() : null;
+// Express 4 does not catch rejected promises; this passes them to its error handler
+const asyncRoute =
+  (handler: (req: express.Request, res: express.Response) => Promise<unknown>): express.RequestHandler =>
+  (req, res, next) => {
+    handler(req, res).catch(next);
   };
 
-  // Try to find metadata using the user's template classes
-  const imdb = extractByClass("imdb-rating") || "N/A";
-  const genre = extractByClass("movie-genre") || "N/A";
-  const language = extractByClass("movie-language") || "N/A";
-  const released = extractByClass("movie-release") || "N/A";
-  const director = extractByClass("movie-director") || "N/A";
-  const cast = extractByClass("movie-cast") || "N/A";
-  const plot = extractByClass("movie-plot") || "";
-  
-  // Fallback for plot if class not found
-  const snippet = plot || content.replace(/<[^>]*>/g, " ").replace(/\s+/g, " ").trim().substring(0, 250) + "...";
-
-  // Premium Template
-  return `
-🔥 <b>${title.toUpperCase()}</b>
-
-⭐ <b>IMDb:</b> ${imdb}
-🎭 <b>Genre:</b> ${genre}
-🌍 <b>Language:</b> ${language}
-📅 <b>Released:</b> ${released}
-🎬 <b>Director:</b> ${director}
-👥 <b>Cast:</b> ${cast}
-
-📝 <b>Plot:</b>
-<i>${snippet}</i>
-  `.trim();
-}
-
-async function sendToTelegram(message: string, url: string, imageUrl?: string) {
-  const botToken = getSetting("TELEGRAM_BOT_TOKEN");
-  const chatId = getSetting("TELEGRAM_CHANNEL_ID");
+app.get("/api/auth/session", (req, res) => {
+  res.json({
+    authenticated: isAuthenticated(req),
+    authConfigured: isAuthConfigured() || isAuthDisabled(),
+  });
+});
 
-  if (!botToken || !chatId) {
-    throw new Error("Telegram credentials missing");
+app.post("/api/auth/login", async (req, res) => {
+  if (!isAuthConfigured()) {
+    return res.status(503).json({ error: "Authentication is not configured. Set ADMIN_PASSWORD_HASH or ADMIN_API_TOKEN on the server." });
   }
 
-  const fullMessage = `${message}\n\n🔗 Download Now: ${url}`;
-  
-  let telegramUrl = `https://api.telegram.org/bot${botToken}/sendMessage`;
-  let body: any = {
-    chat_id: chatId,
-    text: fullMessage,
-    parse_mode: "HTML",
-  };
-
-  if (imageUrl) {
-    telegramUrl = `https://api.telegram.org/bot${botToken}/sendPhoto`;
-    body = {
-      chat_id: chatId,
-      photo: imageUrl,
-      caption: fullMessage,
-      parse_mode: "HTML",
-    };
+  const { password } = req.body || {};
+  if (typeof password !== "string" || !checkAdminPassword(password)) {
+    // Slow down password guessing a little
+    await new Promise((resolve) => setTimeout(resolve, 750));
+    return res.status(401).json({ error: "Invalid password" });
   }
 
-  const response = await fetch(telegramUrl, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(body),
-  });
+  setSessionCookie(req, res);
+  res.json({ authenticated: true });
+});
 
-  if (!response.ok) {
-    const errorData = await response.json();
-    console.error("Telegram API Error:", errorData);
-    // If photo fails (e.g. invalid URL), try sending as text only
-    if (imageUrl) {
-      console.log("Retrying as text message...");
-      return sendToTelegram(message, url);
+app.post("/api/auth/logout", (req, res) => {
+  clearSessionCookie(res);
+  res.json({ authenticated: false });
+});
+
+// Telegram authenticates with the webhook secret instead of a session; who
+// may run commands is checked per message against TELEGRAM_ADMIN_IDS
+app.post(
+  "/api/telegram/webhook",
+  asyncRoute(async (req, res) => {
+    if ((await getUpdateMode()) !== "webhook") return res.status(404).json({ error: "Telegram webhook is not enabled" });
+    if (!(await isValidWebhookSecret(req.get("X-Telegram-Bot-Api-Secret-Token")))) {
+      return res.status(403).json({ error: "Invalid webhook secret" });
     }
-    throw new Error(`Telegram failed: ${JSON.stringify(errorData)}`);
-  }
-}
+    try {
+      await handleUpdate(req.body);
+    } catch (err: any) {
+      console.error("Telegram Webhook Error:", err);
+    }
+    res.json({ ok: true });
+  })
+);
+
+// Click-tracked links in sent posts; public, since channel members open them.
+// A failure to count the click never stops the redirect.
+app.get(
+  "/r/:code",
+  asyncRoute(async (req, res) => {
+    const link = await getTrackedLink(req.params.code);
+    if (!link) return res.status(404).send("Link not found");
+    if (req.method === "GET") {
+      try {
+        await recordClick(link.code, req.get("User-Agent"));
+      } catch (err: any) {
+        console.error("Click Tracking Error:", err);
+      }
+    }
+    res.redirect(302, link.url);
+  })
+);
 
-app.get("/api/status", (req, res) => {
+// Everything below this line requires an admin session or API token
+app.use("/api", requireAuth);
+
+app.get("/api/status", async (req, res) => {
+  const storage = await getStorageInfo();
+  const migrationError = await getMigrationError();
   try {
-    const countRow = db.prepare("SELECT COUNT(*) as count FROM synced_posts").get() as { count: number };
-    const recentPosts = db.prepare("SELECT post_id, synced_at FROM synced_posts ORDER BY synced_at DESC LIMIT 5").all();
+    const countRow = (await db.prepare("SELECT COUNT(DISTINCT post_id) as count FROM synced_posts").get()) as { count: number };
+    const activeRun = await getActiveLock(SYNC_LOCK);
     
     res.json({ 
       syncedCount: countRow.count,
-      recentPosts,
-      dbStatus: "ok"
+      scheduler: await getSchedulerStatus(),
+      outbox: await getOutboxCounts(),
+      currentRun: activeRun ? { runId: activeRun.owner, startedAt: activeRun.acquired_at } : null,
+      storage,
+      dbStatus: migrationError ? "error" : "ok",
+      ...(migrationError && { dbError: migrationError })
     });
   } catch (err: any) {
     console.error("Status DB Error:", err);
     res.json({ 
       syncedCount: 0,
-      recentPosts: [],
+      storage,
       dbStatus: "error",
       dbError: err.message
     });
   }
 });
 
+app.get(
+  "/api/settings",
+  asyncRoute(async (req, res) => {
+    res.json(await getPublicSettings());
+  })
+);
+
+app.put("/api/settings", async (req, res) => {
+  try {
+    const settings = await updateSettings(req.body || {});
+    if (["TELEGRAM_UPDATES", "TELEGRAM_BOT_TOKEN", "TELEGRAM_WEBHOOK_SECRET"].some((key) => key in (req.body || {}))) {
+      configureBotUpdates().catch((err) => console.error("Telegram Bot Setup Error:", err));
+    }
+    res.json(settings);
+  } catch (err: any) {
+    console.error("Settings Update Error:", err);
+    res.status(400).json({ error: err.message });
+  }
+});
+
+// Tests the Blogger and Telegram configuration, using any unsaved values sent with it
+app.post("/api/diagnostics", async (req, res) => {
+  try {
+    const { BLOGGER_API_KEY, BLOGGER_BLOG_ID, TELEGRAM_BOT_TOKEN, TELEGRAM_CHANNEL_ID } = req.body || {};
+    res.json(await runDiagnostics({ BLOGGER_API_KEY, BLOGGER_BLOG_ID, TELEGRAM_BOT_TOKEN, TELEGRAM_CHANNEL_ID }));
+  } catch (error: any) {
+    console.error("Diagnostics Error:", error);
+    res.status(500).json({ error: `Diagnostics failed: ${error.message}` });
+  }
+});
+
 app.post("/api/sync", async (req, res) => {
   try {
     console.log("Sync request received with body keys:", Object.keys(req.body));
     const { BLOGGER_API_KEY, BLOGGER_BLOG_ID, TELEGRAM_BOT_TOKEN, TELEGRAM_CHANNEL_ID } = req.body;
-    
-    const apiKey = BLOGGER_API_KEY || getSetting("BLOGGER_API_KEY");
-    const blogId = BLOGGER_BLOG_ID || getSetting("BLOGGER_BLOG_ID");
-    const botToken = TELEGRAM_BOT_TOKEN || getSetting("TELEGRAM_BOT_TOKEN");
-    const chatId = TELEGRAM_CHANNEL_ID || getSetting("TELEGRAM_CHANNEL_ID");
-
-    if (!apiKey || !blogId || !botToken || !chatId) {
-      console.error("Sync failed: Missing configuration", { apiKey: !!apiKey, blogId: !!blogId, botToken: !!botToken, chatId: !!chatId });
-      return res.status(400).json({ error: "Missing configuration. Please check your settings." });
+    const result = await runSync({ BLOGGER_API_KEY, BLOGGER_BLOG_ID, TELEGRAM_BOT_TOKEN, TELEGRAM_CHANNEL_ID });
+    res.json(result);
+  } catch (error: any) {
+    if (error instanceof SyncInProgressError) {
+      return res.status(error.status).json({ error: error.message, runId: error.runId });
     }
+    if (error instanceof SyncError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error("Global Sync Error:", error);
+    res.status(500).json({ error: `Sync failed: ${error.message}` });
+  }
+});
 
-    const bloggerUrl = `https://www.googleapis.com/blogger/v3/blogs/${blogId}/posts?key=${apiKey}&maxResults=10`;
-    console.log("Fetching from Blogger...");
-    const response = await fetch(bloggerUrl);
-    const data = await response.json();
+// Server-Sent Events for sync runs, starting with what the latest run has done so far
+app.get("/api/sync/events", (req, res) => {
+  res.set({
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    // Stops nginx-style proxies from holding events back
+    "X-Accel-Buffering": "no",
+  });
+  res.flushHeaders();
+
+  const send = (event: SyncEvent) => res.write(`id: ${event.id}\ndata: ${JSON.stringify(event)}\n\n`);
+  getRecentSyncEvents(Number(req.get("Last-Event-ID")) || 0).forEach(send);
+  const unsubscribe = subscribeSyncEvents(send);
+  // Comment lines keep idle connections from being closed by proxies
+  const keepAlive = setInterval(() => res.write(": keep-alive\n\n"), 25000);
+  req.on("close", () => {
+    clearInterval(keepAlive);
+    unsubscribe();
+  });
+});
 
-    if (data.error) {
-      console.error("Blogger API Error:", data.error);
-      return res.status(400).json({ error: `Blogger API Error: ${data.error.message || "Unknown error"}` });
+// Everything a sync would send, rendered but not sent
+app.post("/api/sync/preview", async (req, res) => {
+  try {
+    const { BLOGGER_API_KEY, BLOGGER_BLOG_ID, TELEGRAM_BOT_TOKEN, TELEGRAM_CHANNEL_ID } = req.body || {};
+    res.json(await previewSync({ BLOGGER_API_KEY, BLOGGER_BLOG_ID, TELEGRAM_BOT_TOKEN, TELEGRAM_CHANNEL_ID }));
+  } catch (error: any) {
+    if (error instanceof SyncError) {
+      return res.status(error.status).json({ error: error.message });
     }
+    console.error("Sync Preview Error:", error);
+    res.status(500).json({ error: `Preview failed: ${error.message}` });
+  }
+});
 
-    if (!data.items) {
-      console.log("No posts found in Blogger response.");
-      return res.json({ message: "No posts found", synced: 0 });
+app.post("/api/sync/preview/publish", async (req, res) => {
+  const { postId, sourceId, destinationId } = req.body || {};
+  if (!postId || !Number(sourceId) || !Number(destinationId)) {
+    return res.status(400).json({ error: "postId, sourceId and destinationId are required" });
+  }
+  try {
+    const outcome = await publishPreviewedPost(String(postId), Number(sourceId), Number(destinationId));
+    if (outcome.status === "failed") return res.status(400).json({ error: outcome.error });
+    res.json(outcome);
+  } catch (error: any) {
+    if (error instanceof SyncError) {
+      return res.status(error.status).json({ error: error.message });
     }
+    console.error("Publish Error:", error);
+    res.status(500).json({ error: `Publish failed: ${error.message}` });
+  }
+});
 
-    console.log(`Found ${data.items.length} posts. Processing top 3...`);
-    let syncedCount = 0;
-    const postsToProcess = data.items.slice(0, 3);
-    
-    for (const post of postsToProcess) {
-      try {
-        const exists = db.prepare("SELECT 1 FROM synced_posts WHERE post_id = ?").get(post.id);
-        
-        if (!exists) {
-          console.log(`Syncing post: ${post.title} (${post.id})`);
-          
-          let imageUrl = post.images?.[0]?.url;
-          if (!imageUrl) {
-            const imgMatch = post.content.match(/<img[^>]+src="([^">]+)"/);
-            if (imgMatch) imageUrl = imgMatch[1];
-          }
-
-          console.log("Formatting post details...");
-          const details = await extractMovieDetails(post);
-          
-          const fullMessage = `${details}\n\n━━━━━━━━━━━━━━━\n📥 <b>ডাউনলোড লিঙ্ক:</b>\n🔗 ${post.url}`;
-          let telegramUrl = `https://api.telegram.org/bot${botToken}/sendMessage`;
-          let body: any = { chat_id: chatId, text: fullMessage, parse_mode: "HTML" };
-
-          if (imageUrl) {
-            telegramUrl = `https://api.telegram.org/bot${botToken}/sendPhoto`;
-            body = { chat_id: chatId, photo: imageUrl, caption: fullMessage, parse_mode: "HTML" };
-          }
-
-          console.log("Sending to Telegram...");
-          const telRes = await fetch(telegramUrl, {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify(body),
-          });
-
-          if (telRes.ok) {
-            console.log("Successfully sent to Telegram.");
-            db.prepare("INSERT INTO synced_posts (post_id) VALUES (?)").run(post.id);
-            syncedCount++;
-          } else {
-            const telError = await telRes.json();
-            console.error("Telegram Send Failed:", telError);
-            // If it's a photo error, try text only as fallback
-            if (imageUrl) {
-              console.log("Retrying Telegram as text only...");
-              const textOnlyBody = { chat_id: chatId, text: fullMessage, parse_mode: "HTML" };
-              const textOnlyRes = await fetch(`https://api.telegram.org/bot${botToken}/sendMessage`, {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify(textOnlyBody),
-              });
-              if (textOnlyRes.ok) {
-                db.prepare("INSERT INTO synced_posts (post_id) VALUES (?)").run(post.id);
-                syncedCount++;
-              }
-            }
-          }
-        }
-      } catch (postError) {
-        console.error(`Error processing post ${post.id}:`, postError);
+app.get(
+  "/api/scheduler",
+  asyncRoute(async (req, res) => {
+    res.json(await getSchedulerStatus());
+  })
+);
+
+app.put(
+  "/api/scheduler",
+  asyncRoute(async (req, res) => {
+    const { intervalSeconds, cron } = req.body;
+
+    if (intervalSeconds !== undefined && !(Number(intervalSeconds) > 0)) {
+      return res.status(400).json({ error: "intervalSeconds must be a positive number" });
+    }
+    if (cron) {
+      const cronError = validateCron(cron);
+      if (cronError) {
+        return res.status(400).json({ error: `Invalid cron expression: ${cronError}` });
       }
     }
-    res.json({ message: "Sync complete", synced: syncedCount });
-  } catch (error: any) {
-    console.error("Global Sync Error:", error);
-    res.status(500).json({ error: `Sync failed: ${error.message}` });
+
+    await updateSchedule({
+      intervalSeconds: intervalSeconds !== undefined ? Number(intervalSeconds) : undefined,
+      cron,
+    });
+    res.json(await getSchedulerStatus());
+  })
+);
+
+app.post(
+  "/api/scheduler/pause",
+  asyncRoute(async (req, res) => {
+    await pauseScheduler();
+    res.json(await getSchedulerStatus());
+  })
+);
+
+app.post(
+  "/api/scheduler/resume",
+  asyncRoute(async (req, res) => {
+    await resumeScheduler();
+    res.json(await getSchedulerStatus());
+  })
+);
+
+app.get(
+  "/api/templates",
+  asyncRoute(async (req, res) => {
+    res.json({ templates: await listTemplates(), activeId: await getActiveTemplateId(), fields: TEMPLATE_FIELDS });
+  })
+);
+
+app.post("/api/templates", async (req, res) => {
+  const { name, body } = req.body || {};
+  if (!name || typeof body !== "string") {
+    return res.status(400).json({ error: "name and body are required" });
+  }
+  try {
+    res.json({ template: await createTemplate(String(name), body) });
+  } catch (err: any) {
+    res.status(400).json({ error: err.message });
+  }
+});
+
+app.put("/api/templates/:id", async (req, res) => {
+  const { name, body } = req.body || {};
+  if (!name || typeof body !== "string") {
+    return res.status(400).json({ error: "name and body are required" });
+  }
+  try {
+    const template = await updateTemplate(Number(req.params.id), String(name), body);
+    if (!template) return res.status(404).json({ error: "Template not found" });
+    res.json({ template });
+  } catch (err: any) {
+    res.status(400).json({ error: err.message });
   }
 });
 
+app.delete("/api/templates/:id", async (req, res) => {
+  try {
+    if (!(await deleteTemplate(Number(req.params.id)))) return res.status(404).json({ error: "Template not found" });
+    res.json({ deleted: true });
+  } catch (err: any) {
+    res.status(400).json({ error: err.message });
+  }
+});
+
+app.post(
+  "/api/templates/:id/activate",
+  asyncRoute(async (req, res) => {
+    if (!(await activateTemplate(Number(req.params.id)))) return res.status(404).json({ error: "Template not found" });
+    res.json({ activeId: await getActiveTemplateId() });
+  })
+);
+
+// Renders a template against a real post: the latest one from the first
+// enabled source, unless sourceId and postId are given
+app.post("/api/templates/preview", async (req, res) => {
+  const { body, postId, sourceId } = req.body || {};
+  if (typeof body !== "string") {
+    return res.status(400).json({ error: "body is required" });
+  }
+
+  try {
+    const source = sourceId ? await getSource(Number(sourceId)) : (await getEnabledSources())[0];
+    if (!source) {
+      return res.status(400).json({ error: "Add a source to preview templates against." });
+    }
+
+    parseTemplate(body);
+    const adapter = await createAdapter(source);
+    const post = postId ? await adapter.getPost(String(postId)) : (await adapter.listPosts({ limit: 1 }))[0];
+    if (!post) return res.status(404).json({ error: "No published posts to preview with" });
+
+    const { text, caption, imageUrl, values, details } = await renderPost(post, body);
+    res.json({
+      text,
+      caption,
+      imageUrl: imageUrl ?? null,
+      values,
+      sources: details.sources,
+      post: { id: post.id, title: post.title, url: post.url },
+    });
+  } catch (err: any) {
+    res.status(400).json({ error: err.message });
+  }
+});
+
+app.get(
+  "/api/extraction/selectors",
+  asyncRoute(async (req, res) => {
+    res.json({ selectors: await getSelectorRules(), defaults: DEFAULT_SELECTORS, fields: METADATA_FIELDS });
+  })
+);
+
+app.put("/api/extraction/selectors", async (req, res) => {
+  try {
+    res.json({ selectors: await updateSelectorRules(req.body?.selectors || {}), defaults: DEFAULT_SELECTORS, fields: METADATA_FIELDS });
+  } catch (err: any) {
+    res.status(400).json({ error: err.message });
+  }
+});
+
+app.get(
+  "/api/filters",
+  asyncRoute(async (req, res) => {
+    res.json({ rules: await getFilterRules(), defaults: DEFAULT_FILTER_RULES, fields: METADATA_FIELDS });
+  })
+);
+
+app.put("/api/filters", async (req, res) => {
+  try {
+    res.json({ rules: await updateFilterRules(req.body?.rules || {}), defaults: DEFAULT_FILTER_RULES, fields: METADATA_FIELDS });
+  } catch (err: any) {
+    res.status(400).json({ error: err.message });
+  }
+});
+
+app.get(
+  "/api/sources",
+  asyncRoute(async (req, res) => {
+    res.json({ sources: (await listSources()).map(toPublicSource), types: SOURCE_TYPES });
+  })
+);
+
+app.post("/api/sources", async (req, res) => {
+  try {
+    res.json({ source: toPublicSource(await createSource(req.body || {})) });
+  } catch (err: any) {
+    res.status(400).json({ error: err.message });
+  }
+});
+
+app.put("/api/sources/:id", async (req, res) => {
+  try {
+    const source = await updateSource(Number(req.params.id), req.body || {});
+    if (!source) return res.status(404).json({ error: "Source not found" });
+    res.json({ source: toPublicSource(source) });
+  } catch (err: any) {
+    res.status(400).json({ error: err.message });
+  }
+});
+
+app.delete(
+  "/api/sources/:id",
+  asyncRoute(async (req, res) => {
+    if (!(await deleteSource(Number(req.params.id)))) return res.status(404).json({ error: "Source not found" });
+    res.json({ deleted: true });
+  })
+);
+
+// Fetches the newest post to confirm the source is reachable and configured correctly
+app.post("/api/sources/:id/test", async (req, res) => {
+  try {
+    const source = await getSource(Number(req.params.id));
+    if (!source) return res.status(404).json({ error: "Source not found" });
+
+    const [latest] = await (await createAdapter(source)).listPosts({ limit: 1 });
+    res.json({ ok: true, latest: latest ? { id: latest.id, title: latest.title, url: latest.url, published: latest.published } : null });
+  } catch (err: any) {
+    res.status(400).json({ error: err.message });
+  }
+});
+
+app.get(
+  "/api/destinations",
+  asyncRoute(async (req, res) => {
+    const stats = await getDeliveryStats();
+    res.json({
+      destinations: (await listDestinations()).map((destination) => ({
+        ...toPublicDestination(destination),
+        delivery: stats.get(destination.id) ?? null,
+      })),
+      types: DESTINATION_TYPES,
+      ruleFields: RULE_FIELDS,
+    });
+  })
+);
+
+app.post("/api/destinations", async (req, res) => {
+  try {
+    res.json({ destination: toPublicDestination(await createDestination(req.body || {})) });
+  } catch (err: any) {
+    res.status(400).json({ error: err.message });
+  }
+});
+
+app.put("/api/destinations/:id", async (req, res) => {
+  try {
+    const destination = await updateDestination(Number(req.params.id), req.body || {});
+    if (!destination) return res.status(404).json({ error: "Destination not found" });
+    res.json({ destination: toPublicDestination(destination) });
+  } catch (err: any) {
+    res.status(400).json({ error: err.message });
+  }
+});
+
+app.delete(
+  "/api/destinations/:id",
+  asyncRoute(async (req, res) => {
+    if (!(await deleteDestination(Number(req.params.id)))) return res.status(404).json({ error: "Destination not found" });
+    res.json({ deleted: true });
+  })
+);
+
+// Checks the destination is reachable with its current configuration
+app.post("/api/destinations/:id/test", async (req, res) => {
+  try {
+    const destination = await getDestination(Number(req.params.id));
+    if (!destination) return res.status(404).json({ error: "Destination not found" });
+
+    const found = await (await resolveDestination(destination)).adapter.test();
+    res.json({ ok: true, message: `Reached ${found}` });
+  } catch (err: any) {
+    res.status(400).json({ error: err.message });
+  }
+});
+
+app.get(
+  "/api/history",
+  asyncRoute(async (req, res) => {
+    res.json(
+      await listHistory({
+        page: Number(req.query.page) || 1,
+        pageSize: Number(req.query.pageSize) || 20,
+        search: typeof req.query.q === "string" ? req.query.q : undefined,
+        status: typeof req.query.status === "string" ? req.query.status : undefined,
+        destinationId: Number(req.query.destinationId) || undefined,
+      })
+    );
+  })
+);
+
+app.get("/api/analytics", async (req, res) => {
+  try {
+    res.json(await getClickAnalytics(Number(req.query.days) || 30));
+  } catch (err: any) {
+    console.error("Analytics Error:", err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Actions on one post at one destination; the next sync does the sending
+const HISTORY_ACTIONS = {
+  retry: { run: retryPostDelivery, error: "No failed delivery for that post" },
+  resend: { run: resendPost, error: "No stored copy of that post to resend" },
+  forget: { run: forgetPost, error: "Nothing recorded for that post" },
+};
+
+app.post(
+  "/api/history/:postId/:action",
+  asyncRoute(async (req, res) => {
+    const action = HISTORY_ACTIONS[req.params.action as keyof typeof HISTORY_ACTIONS];
+    const destinationId = Number(req.body?.destinationId);
+    if (!action) return res.status(404).json({ error: "Unknown action" });
+    if (!destinationId) return res.status(400).json({ error: "destinationId is required" });
+
+    if (!(await action.run(req.params.postId, destinationId))) return res.status(404).json({ error: action.error });
+    res.json({ ok: true, outbox: await getOutboxCounts() });
+  })
+);
+
+app.get(
+  "/api/outbox",
+  asyncRoute(async (req, res) => {
+    const status = req.query.status as OutboxStatus | undefined;
+    res.json({ items: await listOutbox(status), counts: await getOutboxCounts() });
+  })
+);
+
+app.post(
+  "/api/outbox/:id/retry",
+  asyncRoute(async (req, res) => {
+    if (!(await retryOutboxItem(Number(req.params.id)))) {
+      return res.status(404).json({ error: "No failed delivery with that ID" });
+    }
+    res.json({ counts: await getOutboxCounts() });
+  })
+);
+
+app.get(
+  "/api/backfill",
+  asyncRoute(async (req, res) => {
+    res.json({ job: await getLatestBackfillJob() });
+  })
+);
+
+app.post("/api/backfill", async (req, res) => {
+  const { startDate, endDate } = req.body || {};
+  try {
+    res.json({ job: await startBackfill(String(startDate), String(endDate)) });
+  } catch (err: any) {
+    res.status(400).json({ error: err.message });
+  }
+});
+
+app.get(
+  "/api/backfill/:id",
+  asyncRoute(async (req, res) => {
+    const job = await getBackfillJob(Number(req.params.id));
+    if (!job) return res.status(404).json({ error: "Backfill job not found" });
+    res.json({ job });
+  })
+);
+
+app.post(
+  "/api/backfill/:id/cancel",
+  asyncRoute(async (req, res) => {
+    const job = await cancelBackfill(Number(req.params.id));
+    if (!job) return res.status(404).json({ error: "Backfill job not found" });
+    res.json({ job });
+  })
+);
+
 // Vite middleware setup
 async function setupVite(app: express.Express) {
   if (process.env.NODE_ENV !== "production" && !process.env.NETLIFY) {
@@ -288,6 +678,9 @@ async function setupVite(app: express.Express) {
 
 async function startServer() {
   await setupVite(app);
+  await recoverInterruptedBackfills();
+  await startScheduler();
+  configureBotUpdates().catch((err) => console.error("Telegram Bot Setup Error:", err));
 
   app.listen(PORT, "0.0.0.0", () => {
     console.log(`Server running on http://localhost:${PORT}`);
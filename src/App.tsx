@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef } from "react";
 import { 
   RefreshCw, 
   CheckCircle2, 
@@ -6,19 +6,80 @@ import {
   Send, 
   LayoutDashboard,
   Settings,
-  History,
-  ExternalLink
+  ExternalLink,
+  Clock,
+  Pause,
+  Play,
+  LogOut,
+  Stethoscope
 } from "lucide-react";
 import { motion, AnimatePresence } from "motion/react";
+import { apiFetch } from "./api";
+import { useSyncEvents, useSyncStreamConnected } from "./syncEvents";
+import { useAuth } from "./components/AuthGate";
+import BackfillPanel from "./components/BackfillPanel";
+import TemplateEditor from "./components/TemplateEditor";
+import ExtractionSettings from "./components/ExtractionSettings";
+import FilterRulesPanel from "./components/FilterRulesPanel";
+import HistoryPanel from "./components/HistoryPanel";
+import SyncPreviewPanel from "./components/SyncPreviewPanel";
+import SyncTimeline from "./components/SyncTimeline";
+import AnalyticsPanel from "./components/AnalyticsPanel";
+import SourcesPanel from "./components/SourcesPanel";
+import DestinationsPanel from "./components/DestinationsPanel";
+import DiagnosticChecklist, { DiagnosticCheck } from "./components/DiagnosticChecklist";
+
+interface SchedulerStatus {
+  mode: "interval" | "cron";
+  intervalSeconds: number;
+  cron: string | null;
+  paused: boolean;
+  running: boolean;
+  external: boolean;
+  nextRunAt: string | null;
+  lastRun: { at: string; synced?: number; message?: string; error?: string } | null;
+}
+
+interface PublicSetting {
+  value: string;
+  secret: boolean;
+  configured: boolean;
+  source: "db" | "env" | null;
+  options?: string[];
+}
+
+type SettingKey =
+  | "BLOGGER_API_KEY"
+  | "BLOGGER_BLOG_ID"
+  | "TELEGRAM_BOT_TOKEN"
+  | "TELEGRAM_CHANNEL_ID"
+  | "REMOVED_POST_ACTION"
+  | "SYNC_MODE"
+  | "AI_PROVIDER"
+  | "GEMINI_API_KEY"
+  | "TELEGRAM_UPDATES"
+  | "TELEGRAM_ADMIN_IDS"
+  | "TELEGRAM_WEBHOOK_SECRET"
+  | "CLICK_TRACKING";
+
+interface ServerSettings {
+  settings: Record<SettingKey, PublicSetting>;
+  encryptionAvailable: boolean;
+  configured: boolean;
+}
 
 interface Status {
   syncedCount: number;
-  recentPosts: Array<{ post_id: string; synced_at: string }>;
+  scheduler?: SchedulerStatus;
+  outbox?: { pending: number; failed: number };
+  currentRun?: { runId: string; startedAt: string } | null;
+  storage?: { backend: string; location: string; volatile: boolean; warning: string | null };
   dbStatus?: string;
   dbError?: string;
 }
 
 export default function App() {
+  const { logout } = useAuth();
   const [status, setStatus] = useState<Status | null>(null);
   const [syncing, setSyncing] = useState(false);
   const [message, setMessage] = useState<{ text: string; type: "success" | "error" | "info" } | null>(null);
@@ -27,39 +88,100 @@ export default function App() {
     BLOGGER_BLOG_ID: "",
     TELEGRAM_BOT_TOKEN: "",
     TELEGRAM_CHANNEL_ID: "",
+    REMOVED_POST_ACTION: "mark",
+    SYNC_MODE: "catch_up",
+    AI_PROVIDER: "off",
+    GEMINI_API_KEY: "",
+    TELEGRAM_UPDATES: "off",
+    TELEGRAM_ADMIN_IDS: "",
+    TELEGRAM_WEBHOOK_SECRET: "",
+    CLICK_TRACKING: "off",
   });
+  const [serverSettings, setServerSettings] = useState<ServerSettings | null>(null);
+  const [scheduleForm, setScheduleForm] = useState({ intervalSeconds: "", cron: "" });
+  const [diagnostics, setDiagnostics] = useState<DiagnosticCheck[] | null>(null);
+  const [testing, setTesting] = useState(false);
 
-  // Load settings from localStorage on mount
+  // Load settings from the server on mount, moving any legacy browser copy over first
   useEffect(() => {
-    const savedSettings = localStorage.getItem("blogger_sync_settings");
-    if (savedSettings) {
-      try {
-        const parsed = JSON.parse(savedSettings);
-        setFormData(parsed);
-      } catch (e) {
-        console.error("Failed to parse saved settings");
-      }
+    const legacySettings = localStorage.getItem("blogger_sync_settings");
+    if (legacySettings) {
+      migrateLegacySettings(legacySettings);
+    } else {
+      fetchSettings();
     }
-    fetchStatus();
+    fetchStatus().then((data) => {
+      if (data?.scheduler) {
+        setScheduleForm({
+          intervalSeconds: String(data.scheduler.intervalSeconds),
+          cron: data.scheduler.cron || "",
+        });
+      }
+    });
   }, []);
 
-  // Save settings to localStorage whenever they change
-  useEffect(() => {
-    localStorage.setItem("blogger_sync_settings", JSON.stringify(formData));
-  }, [formData]);
+  const applyServerSettings = (data: ServerSettings) => {
+    setServerSettings(data);
+    // Secrets stay blank in the form; the server only ever returns them masked
+    setFormData({
+      BLOGGER_API_KEY: "",
+      BLOGGER_BLOG_ID: data.settings.BLOGGER_BLOG_ID.value,
+      TELEGRAM_BOT_TOKEN: "",
+      TELEGRAM_CHANNEL_ID: data.settings.TELEGRAM_CHANNEL_ID.value,
+      REMOVED_POST_ACTION: data.settings.REMOVED_POST_ACTION.value || "mark",
+      SYNC_MODE: data.settings.SYNC_MODE.value || "catch_up",
+      AI_PROVIDER: data.settings.AI_PROVIDER.value || "off",
+      GEMINI_API_KEY: "",
+      TELEGRAM_UPDATES: data.settings.TELEGRAM_UPDATES.value || "off",
+      TELEGRAM_ADMIN_IDS: data.settings.TELEGRAM_ADMIN_IDS.value,
+      TELEGRAM_WEBHOOK_SECRET: "",
+      CLICK_TRACKING: data.settings.CLICK_TRACKING.value || "off",
+    });
+  };
+
+  const fetchSettings = async () => {
+    try {
+      const res = await apiFetch("/api/settings");
+      applyServerSettings(await res.json());
+    } catch (err) {
+      console.error("Failed to fetch settings", err);
+    }
+  };
+
+  const migrateLegacySettings = async (raw: string) => {
+    try {
+      const res = await apiFetch("/api/settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: raw,
+      });
+      const data = await res.json();
+      if (res.ok) {
+        localStorage.removeItem("blogger_sync_settings");
+        applyServerSettings(data);
+        setMessage({ text: "Settings saved in this browser were moved to the server.", type: "success" });
+        return;
+      }
+      console.error("Failed to migrate browser settings", data.error);
+    } catch (err) {
+      console.error("Failed to migrate browser settings", err);
+    }
+    fetchSettings();
+  };
 
   const fetchStatus = async () => {
     try {
-      const res = await fetch("/api/status");
+      const res = await apiFetch("/api/status");
       const data = await res.json();
       setStatus(data);
+      return data as Status;
     } catch (err) {
       console.error("Failed to fetch status", err);
     }
   };
 
   const handleSync = async () => {
-    if (!formData.BLOGGER_API_KEY || !formData.BLOGGER_BLOG_ID || !formData.TELEGRAM_BOT_TOKEN || !formData.TELEGRAM_CHANNEL_ID) {
+    if (!serverSettings?.configured) {
       setMessage({ text: "Please fill in all configuration fields first.", type: "error" });
       return;
     }
@@ -67,22 +189,25 @@ export default function App() {
     setSyncing(true);
     setMessage({ text: "Checking for new posts...", type: "info" });
     try {
-      const res = await fetch("/api/sync", { 
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(formData)
-      });
+      const res = await apiFetch("/api/sync", { method: "POST" });
       const data = await res.json().catch(() => ({ error: "Invalid JSON response from server" }));
       if (res.ok) {
-        if (data.synced > 0) {
+        if (data.synced > 0 || data.updated > 0 || data.removed > 0 || data.failed > 0 || data.deferred > 0) {
+          const edited = data.updated > 0 ? ` ${data.updated} edited posts updated.` : "";
+          const removed = data.removed > 0 ? ` ${data.removed} removed posts cleaned up.` : "";
+          const deferred = data.deferred > 0 ? ` ${data.deferred} queued for retry.` : "";
+          const failed = data.failed > 0 ? ` ${data.failed} failed permanently.` : "";
           setMessage({ 
-            text: `Sync complete! ${data.synced} new posts sent to Telegram.`, 
-            type: "success" 
+            text: `Sync complete! ${data.synced} new posts sent to Telegram.${edited}${removed}${deferred}${failed}`, 
+            type: data.failed > 0 ? "error" : "success" 
           });
         } else {
           setMessage({ text: "No new posts found.", type: "info" });
         }
         fetchStatus();
+      } else if (res.status === 409) {
+        setMessage({ text: `Sync already in progress (run ${data.runId ?? "unknown"}).`, type: "info" });
+        fetchStatus();
       } else {
         const errorMsg = data.error || data.message || JSON.stringify(data);
         setMessage({ text: `Sync failed: ${errorMsg}`, type: "error" });
@@ -94,26 +219,124 @@ export default function App() {
     }
   };
 
-  // Client-side auto-sync every 30 seconds
+  // Picks up runs started anywhere, and their outcome, as soon as they happen.
+  // Deliveries change the queue counts; a run sends several in a row, so
+  // they are gathered into one request.
+  const statusRefresh = useRef<ReturnType<typeof setTimeout> | null>(null);
+  useSyncEvents((event) => {
+    if (!event || event.type === "run_started" || event.type === "run_finished" || event.type === "run_failed") {
+      fetchStatus();
+    } else if (event.type === "sent" || event.type === "failed" || event.type === "retry") {
+      if (statusRefresh.current) clearTimeout(statusRefresh.current);
+      statusRefresh.current = setTimeout(fetchStatus, 500);
+    }
+  });
+  useEffect(() => () => clearTimeout(statusRefresh.current ?? undefined), []);
+
+  // Status follows the event stream; polling only stands in while it is down.
+  const streaming = useSyncStreamConnected();
   useEffect(() => {
-    const interval = setInterval(() => {
-      const isConfigured = formData.BLOGGER_API_KEY && formData.BLOGGER_BLOG_ID && formData.TELEGRAM_BOT_TOKEN && formData.TELEGRAM_CHANNEL_ID;
-      if (isConfigured && !syncing) {
-        console.log("Auto-syncing...");
-        handleSync();
-      }
-    }, 30000);
+    if (streaming) return;
+    const interval = setInterval(fetchStatus, 15000);
     return () => clearInterval(interval);
-  }, [formData, syncing]);
+  }, [streaming]);
+
+  const handleToggleScheduler = async () => {
+    const action = status?.scheduler?.paused ? "resume" : "pause";
+    try {
+      const res = await apiFetch(`/api/scheduler/${action}`, { method: "POST" });
+      const data = await res.json();
+      setStatus((prev) => (prev ? { ...prev, scheduler: data } : prev));
+      setMessage({ text: action === "pause" ? "Scheduler paused." : "Scheduler resumed.", type: "success" });
+    } catch (err) {
+      setMessage({ text: "Network error while updating scheduler", type: "error" });
+    }
+  };
+
+  const handleSaveSchedule = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const res = await apiFetch("/api/scheduler", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          intervalSeconds: Number(scheduleForm.intervalSeconds) || undefined,
+          cron: scheduleForm.cron,
+        }),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        setStatus((prev) => (prev ? { ...prev, scheduler: data } : prev));
+        setMessage({ text: "Schedule updated.", type: "success" });
+      } else {
+        setMessage({ text: data.error || "Failed to update schedule", type: "error" });
+      }
+    } catch (err) {
+      setMessage({ text: "Network error while updating schedule", type: "error" });
+    }
+  };
 
-  const handleSaveSettings = (e: React.FormEvent) => {
+  const handleSaveSettings = async (e: React.FormEvent) => {
     e.preventDefault();
-    setMessage({ text: "Settings updated! These are saved in your browser and will be used for all syncs.", type: "success" });
-    // Trigger a status refresh to update the UI if needed
-    fetchStatus();
+    try {
+      const res = await apiFetch("/api/settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(formData),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        applyServerSettings(data);
+        setMessage({ text: "Settings updated! They are stored on the server and used for all syncs.", type: "success" });
+        fetchStatus();
+      } else {
+        setMessage({ text: data.error || "Failed to save settings", type: "error" });
+      }
+    } catch (err) {
+      setMessage({ text: "Network error while saving settings", type: "error" });
+    }
+  };
+
+  // Checks the connection settings as typed, falling back to the saved ones for blank fields
+  const handleTestConfig = async () => {
+    setTesting(true);
+    try {
+      const { BLOGGER_API_KEY, BLOGGER_BLOG_ID, TELEGRAM_BOT_TOKEN, TELEGRAM_CHANNEL_ID } = formData;
+      const res = await apiFetch("/api/diagnostics", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ BLOGGER_API_KEY, BLOGGER_BLOG_ID, TELEGRAM_BOT_TOKEN, TELEGRAM_CHANNEL_ID }),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        setDiagnostics(data.checks);
+        const failed = data.checks.filter((check: DiagnosticCheck) => check.status === "fail").length;
+        setMessage(
+          data.ok
+            ? { text: "All connection checks passed.", type: "success" }
+            : { text: `${failed} connection ${failed === 1 ? "check" : "checks"} failed. See the hints under each field.`, type: "error" }
+        );
+      } else {
+        setMessage({ text: data.error || "Failed to test configuration", type: "error" });
+      }
+    } catch (err) {
+      setMessage({ text: "Network error while testing configuration", type: "error" });
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  const checksFor = (field: DiagnosticCheck["field"]) => (diagnostics || []).filter((check) => check.field === field);
+
+  const secretPlaceholder = (key: SettingKey, fallback: string) => {
+    const setting = serverSettings?.settings[key];
+    if (!setting?.configured) return fallback;
+    return setting.source === "env" ? `Set in environment (${setting.value})` : `Saved: ${setting.value}`;
   };
 
-  const isConfigured = !!(formData.BLOGGER_API_KEY && formData.BLOGGER_BLOG_ID && formData.TELEGRAM_BOT_TOKEN && formData.TELEGRAM_CHANNEL_ID);
+  const scheduler = status?.scheduler;
+
+  const isConfigured = !!serverSettings?.configured;
 
   return (
     <div className="min-h-screen bg-[#F8F9FA] text-[#1A1A1A] font-sans selection:bg-indigo-100">
@@ -138,6 +361,13 @@ export default function App() {
                 Setup Required
               </span>
             )}
+            <button
+              onClick={logout}
+              className="flex items-center gap-1.5 text-xs font-medium text-gray-500 hover:text-gray-900 transition-colors"
+            >
+              <LogOut className="w-3.5 h-3.5" />
+              Logout
+            </button>
           </div>
         </div>
       </header>
@@ -155,6 +385,19 @@ export default function App() {
           </div>
         )}
 
+        {status?.storage?.volatile && (
+          <div className="mb-8 p-4 bg-amber-50 border-2 border-amber-300 rounded-2xl flex items-start gap-3 text-amber-900">
+            <AlertCircle className="w-5 h-5 mt-0.5 shrink-0" />
+            <div>
+              <p className="font-bold text-sm">Storage is not permanent</p>
+              <p className="text-xs opacity-90">{status.storage.warning}</p>
+              <p className="text-[10px] opacity-75 mt-1 font-mono">
+                {status.storage.backend}: {status.storage.location}
+              </p>
+            </div>
+          </div>
+        )}
+
         <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
           
           {/* Left Column: Stats & Action */}
@@ -184,8 +427,14 @@ export default function App() {
                   <div>
                     <p className="text-sm font-medium text-gray-500 mb-1">Last Sync Status</p>
                     <p className="text-sm font-medium text-gray-900">
-                      {syncing ? "Syncing now..." : "Idle"}
+                      {syncing || status?.currentRun ? "Syncing now..." : "Idle"}
                     </p>
+                    {status?.outbox && (status.outbox.pending > 0 || status.outbox.failed > 0) && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        Outbox: {status.outbox.pending} pending
+                        {status.outbox.failed > 0 && <span className="text-rose-600"> · {status.outbox.failed} failed</span>}
+                      </p>
+                    )}
                   </div>
                 <button
                   onClick={handleSync}
@@ -203,6 +452,86 @@ export default function App() {
               </div>
             </section>
 
+            <SyncTimeline />
+
+            <section className="bg-white rounded-2xl border border-gray-200 shadow-sm p-6">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="font-bold flex items-center gap-2">
+                  <Clock className="w-5 h-5 text-indigo-600" />
+                  Auto-Sync Schedule
+                </h3>
+                <button
+                  onClick={handleToggleScheduler}
+                  disabled={!scheduler}
+                  className="flex items-center gap-1.5 text-xs font-bold px-3 py-1.5 rounded-lg border border-gray-200 hover:bg-gray-50 transition-colors disabled:opacity-50"
+                >
+                  {scheduler?.paused ? <Play className="w-3.5 h-3.5" /> : <Pause className="w-3.5 h-3.5" />}
+                  {scheduler?.paused ? "Resume" : "Pause"}
+                </button>
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-4">
+                <div>
+                  <p className="text-sm font-medium text-gray-500 mb-1">Next Run At</p>
+                  <p className="text-sm font-medium text-gray-900">
+                    {!scheduler ? "..." : scheduler.paused ? "Paused" : scheduler.nextRunAt ? new Date(scheduler.nextRunAt).toLocaleString() : "Not scheduled"}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-gray-500 mb-1">Last Scheduled Run</p>
+                  <p className={`text-sm font-medium ${scheduler?.lastRun?.error ? "text-rose-600" : "text-gray-900"}`}>
+                    {scheduler?.lastRun
+                      ? `${new Date(scheduler.lastRun.at).toLocaleString()} · ${scheduler.lastRun.error || `${scheduler.lastRun.synced ?? 0} synced`}`
+                      : "Never"}
+                  </p>
+                </div>
+              </div>
+
+              <form onSubmit={handleSaveSchedule} className="grid grid-cols-1 sm:grid-cols-3 gap-3 items-end">
+                <div className="space-y-1">
+                  <label className="text-[10px] uppercase tracking-wider font-bold text-gray-400">Interval (seconds)</label>
+                  <input
+                    type="number"
+                    min={10}
+                    value={scheduleForm.intervalSeconds}
+                    onChange={(e) => setScheduleForm({ ...scheduleForm, intervalSeconds: e.target.value })}
+                    className="w-full px-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+                    placeholder="30"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <label className="text-[10px] uppercase tracking-wider font-bold text-gray-400">Cron (overrides interval)</label>
+                  <input
+                    type="text"
+                    value={scheduleForm.cron}
+                    onChange={(e) => setScheduleForm({ ...scheduleForm, cron: e.target.value })}
+                    className="w-full px-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+                    placeholder="*/5 * * * *"
+                  />
+                </div>
+                <button
+                  type="submit"
+                  className="w-full bg-indigo-600 text-white py-2 rounded-lg text-sm font-bold hover:bg-indigo-700 transition-colors"
+                >
+                  Save Schedule
+                </button>
+              </form>
+              <p className="text-[10px] text-gray-400 mt-3 italic">
+                Scheduled runs happen on the server using its stored configuration, even when this dashboard is closed.
+              </p>
+            </section>
+
+            <SourcesPanel />
+
+            <DestinationsPanel />
+
+            <TemplateEditor />
+
+            <ExtractionSettings />
+            <FilterRulesPanel />
+
+            <BackfillPanel />
+
             <AnimatePresence mode="wait">
               {message && (
                 <motion.div
@@ -223,36 +552,11 @@ export default function App() {
               )}
             </AnimatePresence>
 
-            <section className="bg-white rounded-2xl border border-gray-200 shadow-sm overflow-hidden">
-              <div className="p-6 border-b border-gray-100 flex items-center justify-between">
-                <h3 className="font-bold flex items-center gap-2">
-                  <History className="w-5 h-5 text-indigo-600" />
-                  Recent Activity
-                </h3>
-              </div>
-              <div className="divide-y divide-gray-100">
-                {status?.recentPosts && status.recentPosts.length > 0 ? (
-                  status.recentPosts.map((post) => (
-                    <div key={post.post_id} className="p-4 flex items-center justify-between hover:bg-gray-50 transition-colors">
-                      <div className="flex items-center gap-3">
-                        <div className="w-8 h-8 bg-emerald-50 rounded-full flex items-center justify-center">
-                          <CheckCircle2 className="w-4 h-4 text-emerald-600" />
-                        </div>
-                        <div>
-                          <p className="text-sm font-medium text-gray-900">Post ID: {post.post_id}</p>
-                          <p className="text-xs text-gray-500">{new Date(post.synced_at).toLocaleString()}</p>
-                        </div>
-                      </div>
-                      <span className="text-[10px] font-bold text-emerald-600 bg-emerald-50 px-2 py-0.5 rounded uppercase">Synced</span>
-                    </div>
-                  ))
-                ) : (
-                  <div className="p-6 text-center py-12">
-                    <p className="text-sm text-gray-500 italic">No recent activity to show. Click "Sync Now" to start.</p>
-                  </div>
-                )}
-              </div>
-            </section>
+            <SyncPreviewPanel />
+
+            <HistoryPanel />
+
+            <AnalyticsPanel />
           </div>
 
           {/* Right Column: Configuration Form */}
@@ -263,6 +567,12 @@ export default function App() {
                 Configuration
               </h3>
               
+              {serverSettings && !serverSettings.encryptionAvailable && (
+                <p className="mb-4 text-[11px] text-amber-700 bg-amber-50 border border-amber-100 rounded-lg p-2">
+                  Set <code>SETTINGS_ENCRYPTION_KEY</code> on the server to store API keys and bot tokens here.
+                </p>
+              )}
+
               <form onSubmit={handleSaveSettings} className="space-y-4">
                 <div className="space-y-1">
                   <label className="text-[10px] uppercase tracking-wider font-bold text-gray-400">Blogger API Key</label>
@@ -271,8 +581,9 @@ export default function App() {
                     value={formData.BLOGGER_API_KEY}
                     onChange={(e) => setFormData({ ...formData, BLOGGER_API_KEY: e.target.value })}
                     className="w-full px-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
-                    placeholder="Enter API Key"
+                    placeholder={secretPlaceholder("BLOGGER_API_KEY", "Enter API Key")}
                   />
+                  <DiagnosticChecklist checks={checksFor("BLOGGER_API_KEY")} />
                 </div>
                 <div className="space-y-1">
                   <label className="text-[10px] uppercase tracking-wider font-bold text-gray-400">Blogger Blog ID</label>
@@ -283,19 +594,21 @@ export default function App() {
                     className="w-full px-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
                     placeholder="Enter Blog ID"
                   />
+                  <DiagnosticChecklist checks={checksFor("BLOGGER_BLOG_ID")} />
                 </div>
                 <div className="space-y-1">
-                  <label className="text-[10px] uppercase tracking-wider font-bold text-gray-400">Telegram Bot Token</label>
+                  <label className="text-[10px] uppercase tracking-wider font-bold text-gray-400">Default Telegram Bot Token</label>
                   <input
                     type="password"
                     value={formData.TELEGRAM_BOT_TOKEN}
                     onChange={(e) => setFormData({ ...formData, TELEGRAM_BOT_TOKEN: e.target.value })}
                     className="w-full px-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
-                    placeholder="Enter Bot Token"
+                    placeholder={secretPlaceholder("TELEGRAM_BOT_TOKEN", "Enter Bot Token")}
                   />
+                  <DiagnosticChecklist checks={checksFor("TELEGRAM_BOT_TOKEN")} />
                 </div>
                 <div className="space-y-1">
-                  <label className="text-[10px] uppercase tracking-wider font-bold text-gray-400">Telegram Channel ID</label>
+                  <label className="text-[10px] uppercase tracking-wider font-bold text-gray-400">Default Telegram Channel ID</label>
                   <input
                     type="text"
                     value={formData.TELEGRAM_CHANNEL_ID}
@@ -303,6 +616,108 @@ export default function App() {
                     className="w-full px-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
                     placeholder="@channel or -100..."
                   />
+                  <DiagnosticChecklist checks={checksFor("TELEGRAM_CHANNEL_ID")} />
+                </div>
+                <div className="space-y-1">
+                  <label className="text-[10px] uppercase tracking-wider font-bold text-gray-400">Sync Mode</label>
+                  <select
+                    value={formData.SYNC_MODE}
+                    onChange={(e) => setFormData({ ...formData, SYNC_MODE: e.target.value })}
+                    className="w-full px-3 py-2 text-sm border border-gray-200 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+                  >
+                    <option value="catch_up">Catch up on everything since the last synced post</option>
+                    <option value="latest">Only check the latest 10 posts</option>
+                  </select>
+                </div>
+                <div className="space-y-1">
+                  <label className="text-[10px] uppercase tracking-wider font-bold text-gray-400">When a Blogger Post Is Removed</label>
+                  <select
+                    value={formData.REMOVED_POST_ACTION}
+                    onChange={(e) => setFormData({ ...formData, REMOVED_POST_ACTION: e.target.value })}
+                    className="w-full px-3 py-2 text-sm border border-gray-200 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+                  >
+                    <option value="mark">Mark the Telegram post as removed</option>
+                    <option value="delete">Delete the Telegram post</option>
+                  </select>
+                </div>
+                <div className="space-y-1">
+                  <label className="text-[10px] uppercase tracking-wider font-bold text-gray-400">AI Captions</label>
+                  <select
+                    value={formData.AI_PROVIDER}
+                    onChange={(e) => setFormData({ ...formData, AI_PROVIDER: e.target.value })}
+                    className="w-full px-3 py-2 text-sm border border-gray-200 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+                  >
+                    <option value="off">Off</option>
+                    <option value="gemini">Gemini: hook line and missing fields</option>
+                    <option value="stub">Local stub (offline testing)</option>
+                  </select>
+                </div>
+                {formData.AI_PROVIDER === "gemini" && (
+                  <div className="space-y-1">
+                    <label className="text-[10px] uppercase tracking-wider font-bold text-gray-400">Gemini API Key</label>
+                    <input
+                      type="password"
+                      value={formData.GEMINI_API_KEY}
+                      onChange={(e) => setFormData({ ...formData, GEMINI_API_KEY: e.target.value })}
+                      className="w-full px-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+                      placeholder={secretPlaceholder("GEMINI_API_KEY", "Enter Gemini API Key")}
+                    />
+                  </div>
+                )}
+                <div className="space-y-1">
+                  <label className="text-[10px] uppercase tracking-wider font-bold text-gray-400">Bot Commands</label>
+                  <select
+                    value={formData.TELEGRAM_UPDATES}
+                    onChange={(e) => setFormData({ ...formData, TELEGRAM_UPDATES: e.target.value })}
+                    className="w-full px-3 py-2 text-sm border border-gray-200 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+                  >
+                    <option value="off">Off</option>
+                    <option value="polling">On, by long polling</option>
+                    <option value="webhook">On, by webhook (/api/telegram/webhook)</option>
+                  </select>
+                </div>
+                {formData.TELEGRAM_UPDATES !== "off" && (
+                  <div className="space-y-1">
+                    <label className="text-[10px] uppercase tracking-wider font-bold text-gray-400">Bot Admin User IDs</label>
+                    <input
+                      type="text"
+                      value={formData.TELEGRAM_ADMIN_IDS}
+                      onChange={(e) => setFormData({ ...formData, TELEGRAM_ADMIN_IDS: e.target.value })}
+                      className="w-full px-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+                      placeholder="123456789, 987654321"
+                    />
+                    <p className="text-[10px] text-gray-400">
+                      Numeric Telegram user IDs. Anyone else is refused and told their ID, so send the bot /status to find yours.
+                    </p>
+                  </div>
+                )}
+                {formData.TELEGRAM_UPDATES === "webhook" && (
+                  <div className="space-y-1">
+                    <label className="text-[10px] uppercase tracking-wider font-bold text-gray-400">Webhook Secret</label>
+                    <input
+                      type="password"
+                      value={formData.TELEGRAM_WEBHOOK_SECRET}
+                      onChange={(e) => setFormData({ ...formData, TELEGRAM_WEBHOOK_SECRET: e.target.value })}
+                      className="w-full px-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+                      placeholder={secretPlaceholder("TELEGRAM_WEBHOOK_SECRET", "Letters, digits, _ and -")}
+                    />
+                  </div>
+                )}
+                <div className="space-y-1">
+                  <label className="text-[10px] uppercase tracking-wider font-bold text-gray-400">Click Tracking</label>
+                  <select
+                    value={formData.CLICK_TRACKING}
+                    onChange={(e) => setFormData({ ...formData, CLICK_TRACKING: e.target.value })}
+                    className="w-full px-3 py-2 text-sm border border-gray-200 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+                  >
+                    <option value="off">Off: link straight to the post</option>
+                    <option value="on">On: link through a short redirect that counts clicks</option>
+                  </select>
+                  {formData.CLICK_TRACKING === "on" && (
+                    <p className="text-[10px] text-gray-400">
+                      Links use this server's public address from <code>APP_URL</code>. Posts already sent keep their original links unless they are edited.
+                    </p>
+                  )}
                 </div>
                 
                 <button
@@ -311,15 +726,27 @@ export default function App() {
                 >
                   Update Settings
                 </button>
+                <button
+                  type="button"
+                  onClick={handleTestConfig}
+                  disabled={testing}
+                  className="w-full flex items-center justify-center gap-2 border border-gray-200 py-2 rounded-lg text-sm font-bold text-gray-700 hover:bg-gray-50 transition-colors disabled:opacity-50"
+                >
+                  <Stethoscope className={`w-4 h-4 ${testing ? "animate-pulse" : ""}`} />
+                  {testing ? "Testing..." : "Test Configuration"}
+                </button>
+                <p className="text-[10px] text-gray-400 italic">
+                  Secrets are encrypted on the server. Leave them blank to keep the saved value.
+                </p>
               </form>
               
               <div className="mt-8 pt-6 border-t border-gray-100">
                 <h4 className="text-xs font-bold text-gray-900 mb-2">How it works</h4>
                 <ol className="text-xs text-gray-500 space-y-2 list-decimal ml-4">
-                  <li>Auto-syncs every 30 seconds.</li>
-                  <li>Fetches latest 10 posts from Blogger.</li>
+                  <li>Auto-syncs on the server schedule (every 30 seconds by default).</li>
+                  <li>Fetches every post published since the last sync from each enabled source (Blogger, RSS/Atom or WordPress).</li>
                   <li>Extracts movie title and snippet.</li>
-                  <li>Sends with image to Telegram Channel.</li>
+                  <li>Sends with image to every destination whose rules the post matches: Telegram, Discord, Slack or a signed webhook.</li>
                 </ol>
               </div>
             </section>
@@ -330,7 +757,7 @@ export default function App() {
                 Make sure your Telegram Bot is an administrator in your channel to post messages.
               </p>
               <p className="text-[10px] text-indigo-200 mb-4 leading-relaxed italic">
-                Note: On Netlify, the local database is ephemeral. For permanent sync history, consider connecting a remote database.
+                Note: On Netlify, keep sync history in a libSQL database (STORAGE_BACKEND=libsql) so it survives cold starts.
               </p>
               <a 
                 href="https://t.me/BotFather" 
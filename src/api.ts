@@ -0,0 +1,17 @@
+type UnauthorizedHandler = () => void;
+
+let unauthorizedHandler: UnauthorizedHandler | null = null;
+
+export const setUnauthorizedHandler = (handler: UnauthorizedHandler | null) => {
+  unauthorizedHandler = handler;
+};
+
+// Wrapper around fetch for /api calls that drops back to the login screen
+// whenever the session has expired.
+export async function apiFetch(input: string, init?: RequestInit) {
+  const res = await fetch(input, { credentials: "same-origin", ...init });
+  if (res.status === 401 && unauthorizedHandler) {
+    unauthorizedHandler();
+  }
+  return res;
+}
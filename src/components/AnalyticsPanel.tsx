@@ -0,0 +1,188 @@
+import React, { useEffect, useState } from "react";
+import { AlertCircle, BarChart3, ExternalLink, MousePointerClick, Trophy } from "lucide-react";
+import { apiFetch } from "../api";
+import { useSyncEvents } from "../syncEvents";
+
+interface PostClicks {
+  postId: string;
+  title: string | null;
+  url: string;
+  sentAt: string | null;
+  genre: string | null;
+  imdb: string | null;
+  clicks: number;
+  destinations: Array<{ destinationId: number | null; destination: string | null; clicks: number }>;
+}
+
+interface Analytics {
+  days: number;
+  tracking: { enabled: boolean; baseUrl: string | null };
+  totalClicks: number;
+  perDay: Array<{ day: string; clicks: number }>;
+  perDestination: Array<{ destinationId: number | null; destination: string | null; clicks: number; posts: number }>;
+  perPost: PostClicks[];
+  topMovies: PostClicks[];
+}
+
+const PERIODS = [7, 30, 90];
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? "" : "s"}`;
+
+export default function AnalyticsPanel() {
+  const [days, setDays] = useState(30);
+  const [data, setData] = useState<Analytics | null>(null);
+
+  const fetchAnalytics = async () => {
+    try {
+      const res = await apiFetch(`/api/analytics?days=${days}`);
+      if (res.ok) setData(await res.json());
+    } catch (err) {
+      console.error("Failed to fetch analytics", err);
+    }
+  };
+
+  useEffect(() => {
+    fetchAnalytics();
+  }, [days]);
+
+  // Newly sent posts join the list when a run finishes
+  useSyncEvents((event) => {
+    if (event?.type === "run_finished") fetchAnalytics();
+  });
+
+  const busiest = Math.max(1, ...(data?.perDay.map(({ clicks }) => clicks) || []));
+
+  return (
+    <section className="bg-white rounded-2xl border border-gray-200 shadow-sm overflow-hidden">
+      <div className="p-6 border-b border-gray-100 flex items-center justify-between gap-3">
+        <h3 className="font-bold flex items-center gap-2">
+          <BarChart3 className="w-5 h-5 text-indigo-600" />
+          Click Analytics
+        </h3>
+        <div className="flex items-center gap-1">
+          {PERIODS.map((period) => (
+            <button
+              key={period}
+              onClick={() => setDays(period)}
+              className={`text-xs font-bold px-2.5 py-1 rounded-lg transition-colors ${
+                days === period ? "bg-indigo-600 text-white" : "text-gray-500 hover:bg-gray-100"
+              }`}
+            >
+              {period}d
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {data && (!data.tracking.enabled || !data.tracking.baseUrl) && (
+        <p className="mx-6 mt-4 text-[11px] text-amber-700 bg-amber-50 border border-amber-100 rounded-lg p-2 flex items-start gap-1.5">
+          <AlertCircle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+          {data.tracking.enabled
+            ? "Click tracking is on, but APP_URL is not set to this server's public address, so links are sent untracked."
+            : "Click tracking is off. Turn it on in the Configuration panel to count clicks on posts sent from now on."}
+        </p>
+      )}
+
+      {data ? (
+        <div className="p-6 space-y-6">
+          <div>
+            <div className="flex items-baseline justify-between mb-2">
+              <p className="text-sm font-medium text-gray-500">Clicks per day</p>
+              <p className="text-2xl font-bold text-indigo-600">{data.totalClicks}</p>
+            </div>
+            <div className="flex items-end gap-px h-24">
+              {data.perDay.map(({ day, clicks }) => (
+                <div
+                  key={day}
+                  title={`${new Date(`${day}T00:00:00Z`).toLocaleDateString(undefined, { timeZone: "UTC" })}: ${plural(clicks, "click")}`}
+                  className="flex-1 bg-indigo-500/80 hover:bg-indigo-600 rounded-t-sm min-h-px"
+                  style={{ height: `${(clicks / busiest) * 100}%` }}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+            <div>
+              <p className="text-sm font-medium text-gray-500 mb-2 flex items-center gap-1.5">
+                <Trophy className="w-4 h-4 text-amber-500" />
+                Top movies
+              </p>
+              {data.topMovies.length > 0 ? (
+                <ol className="space-y-1.5">
+                  {data.topMovies.map((post, index) => (
+                    <li key={post.postId} className="flex items-start gap-2 text-xs">
+                      <span className="w-4 text-gray-400 font-bold shrink-0">{index + 1}.</span>
+                      <div className="min-w-0 flex-1">
+                        <a href={post.url} target="_blank" rel="noreferrer" className="font-medium text-gray-900 hover:text-indigo-600 truncate block">
+                          {post.title || post.postId}
+                        </a>
+                        {(post.genre || post.imdb) && (
+                          <p className="text-[10px] text-gray-400 truncate">{[post.genre, post.imdb && `IMDb ${post.imdb}`].filter(Boolean).join(" · ")}</p>
+                        )}
+                      </div>
+                      <span className="font-bold text-indigo-600 shrink-0">{post.clicks}</span>
+                    </li>
+                  ))}
+                </ol>
+              ) : (
+                <p className="text-xs text-gray-400 italic">No clicks in this period.</p>
+              )}
+            </div>
+
+            <div>
+              <p className="text-sm font-medium text-gray-500 mb-2">By destination</p>
+              {data.perDestination.length > 0 ? (
+                <ul className="space-y-1.5">
+                  {data.perDestination.map((row) => (
+                    <li key={row.destinationId ?? "none"} className="flex items-center justify-between gap-2 text-xs">
+                      <span className="text-gray-900 truncate">{row.destination || "Deleted destination"}</span>
+                      <span className="text-gray-500 shrink-0">
+                        <span className="font-bold text-indigo-600">{row.clicks}</span> · {plural(row.posts, "post")} clicked
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-xs text-gray-400 italic">No tracked links sent yet.</p>
+              )}
+            </div>
+          </div>
+
+          <div>
+            <p className="text-sm font-medium text-gray-500 mb-2">Clicks per post</p>
+            {data.perPost.length > 0 ? (
+              <div className="divide-y divide-gray-100 border border-gray-100 rounded-xl">
+                {data.perPost.map((post) => (
+                  <div key={post.postId} className="p-3 flex items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900 truncate flex items-center gap-1">
+                        {post.title || post.postId}
+                        <a href={post.url} target="_blank" rel="noreferrer" className="text-gray-400 hover:text-indigo-600 shrink-0">
+                          <ExternalLink className="w-3 h-3" />
+                        </a>
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {post.sentAt ? `Sent ${new Date(`${post.sentAt.replace(" ", "T")}Z`).toLocaleDateString()}` : "Sent before the history began"}
+                        {post.destinations.length > 1 &&
+                          ` · ${post.destinations.map((row) => `${row.destination || "Deleted destination"} ${row.clicks}`).join(", ")}`}
+                      </p>
+                    </div>
+                    <span className="flex items-center gap-1 text-sm font-bold text-indigo-600 shrink-0">
+                      <MousePointerClick className="w-3.5 h-3.5" />
+                      {post.clicks}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-xs text-gray-400 italic">No tracked posts were sent or clicked in this period.</p>
+            )}
+          </div>
+        </div>
+      ) : (
+        <p className="p-6 text-sm text-gray-500 italic text-center">Loading...</p>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,130 @@
+import React, { createContext, useContext, useEffect, useState } from "react";
+import { AlertCircle, Lock, RefreshCw, Send } from "lucide-react";
+import { motion } from "motion/react";
+import { setUnauthorizedHandler } from "../api";
+
+interface AuthState {
+  authenticated: boolean;
+  authConfigured: boolean;
+}
+
+const AuthContext = createContext<{ logout: () => Promise<void> }>({ logout: async () => {} });
+
+export const useAuth = () => useContext(AuthContext);
+
+export default function AuthGate({ children }: { children: React.ReactNode }) {
+  const [auth, setAuth] = useState<AuthState | null>(null);
+  const [password, setPassword] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSession = async () => {
+    try {
+      const res = await fetch("/api/auth/session");
+      setAuth(await res.json());
+    } catch (err) {
+      console.error("Failed to fetch session", err);
+      setAuth({ authenticated: false, authConfigured: true });
+    }
+  };
+
+  useEffect(() => {
+    fetchSession();
+    setUnauthorizedHandler(() => setAuth((prev) => (prev ? { ...prev, authenticated: false } : prev)));
+    return () => setUnauthorizedHandler(null);
+  }, []);
+
+  const handleLogin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ password }),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        setPassword("");
+        setAuth((prev) => ({ authConfigured: prev?.authConfigured ?? true, authenticated: true }));
+      } else {
+        setError(data.error || "Login failed");
+      }
+    } catch (err) {
+      setError("Network error during login");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const logout = async () => {
+    try {
+      await fetch("/api/auth/logout", { method: "POST" });
+    } finally {
+      setAuth((prev) => (prev ? { ...prev, authenticated: false } : prev));
+    }
+  };
+
+  if (!auth) {
+    return (
+      <div className="min-h-screen bg-[#F8F9FA] flex items-center justify-center">
+        <RefreshCw className="w-6 h-6 text-indigo-600 animate-spin" />
+      </div>
+    );
+  }
+
+  if (auth.authenticated) {
+    return <AuthContext.Provider value={{ logout }}>{children}</AuthContext.Provider>;
+  }
+
+  return (
+    <div className="min-h-screen bg-[#F8F9FA] text-[#1A1A1A] font-sans flex items-center justify-center px-6">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="w-full max-w-sm bg-white p-8 rounded-2xl border border-gray-200 shadow-sm"
+      >
+        <div className="flex items-center gap-2 mb-6">
+          <div className="w-8 h-8 bg-indigo-600 rounded-lg flex items-center justify-center">
+            <Send className="text-white w-5 h-5" />
+          </div>
+          <h1 className="font-semibold text-lg tracking-tight">BloggerSync</h1>
+        </div>
+
+        {!auth.authConfigured ? (
+          <div className="p-4 bg-amber-50 border border-amber-100 rounded-xl flex items-start gap-3 text-amber-800">
+            <AlertCircle className="w-5 h-5 mt-0.5 shrink-0" />
+            <p className="text-xs leading-relaxed">
+              No admin credentials are configured. Set <code>ADMIN_PASSWORD_HASH</code> (generate it with{" "}
+              <code>npm run hash-password</code>) or <code>ADMIN_API_TOKEN</code> on the server and restart it.
+            </p>
+          </div>
+        ) : (
+          <form onSubmit={handleLogin} className="space-y-4">
+            <div className="space-y-1">
+              <label className="text-[10px] uppercase tracking-wider font-bold text-gray-400">Admin Password</label>
+              <input
+                type="password"
+                autoFocus
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="w-full px-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+                placeholder="Enter password"
+              />
+            </div>
+            {error && <p className="text-xs font-medium text-rose-600">{error}</p>}
+            <button
+              type="submit"
+              disabled={submitting || !password}
+              className="w-full flex items-center justify-center gap-2 bg-indigo-600 text-white py-2 rounded-lg text-sm font-bold hover:bg-indigo-700 transition-colors disabled:opacity-50"
+            >
+              <Lock className="w-4 h-4" />
+              {submitting ? "Signing in..." : "Sign In"}
+            </button>
+          </form>
+        )}
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+import React, { useEffect, useState } from "react";
+import { AlertCircle, CalendarRange, CheckCircle2, Square } from "lucide-react";
+import { apiFetch } from "../api";
+
+interface BackfillJob {
+  id: number;
+  status: "running" | "completed" | "cancelled" | "failed";
+  start_date: string;
+  end_date: string;
+  total: number;
+  processed: number;
+  sent: number;
+  already_synced: number;
+  held: number;
+  filtered: number;
+  failed: number;
+  error: string | null;
+  created_at: string;
+  finished_at: string | null;
+}
+
+const STATUS_STYLES: Record<BackfillJob["status"], string> = {
+  running: "text-indigo-600 bg-indigo-50",
+  completed: "text-emerald-600 bg-emerald-50",
+  cancelled: "text-gray-600 bg-gray-100",
+  failed: "text-rose-600 bg-rose-50",
+};
+
+export default function BackfillPanel() {
+  const [job, setJob] = useState<BackfillJob | null>(null);
+  const [range, setRange] = useState({ startDate: "", endDate: "" });
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchJob = async () => {
+    try {
+      const res = await apiFetch("/api/backfill");
+      const data = await res.json();
+      setJob(data.job);
+    } catch (err) {
+      console.error("Failed to fetch backfill status", err);
+    }
+  };
+
+  useEffect(() => {
+    fetchJob();
+  }, []);
+
+  // Follow progress while a job is running
+  useEffect(() => {
+    if (job?.status !== "running") return;
+    const interval = setInterval(fetchJob, 3000);
+    return () => clearInterval(interval);
+  }, [job?.status]);
+
+  const handleStart = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    try {
+      const res = await apiFetch("/api/backfill", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(range),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        setJob(data.job);
+      } else {
+        setError(data.error || "Failed to start backfill");
+      }
+    } catch (err) {
+      setError("Network error while starting backfill");
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!job) return;
+    try {
+      const res = await apiFetch(`/api/backfill/${job.id}/cancel`, { method: "POST" });
+      const data = await res.json();
+      if (res.ok) setJob(data.job);
+    } catch (err) {
+      setError("Network error while cancelling backfill");
+    }
+  };
+
+  const progress = job && job.total > 0 ? Math.round((job.processed / job.total) * 100) : 0;
+
+  return (
+    <section className="bg-white rounded-2xl border border-gray-200 shadow-sm p-6">
+      <h3 className="font-bold flex items-center gap-2 mb-4">
+        <CalendarRange className="w-5 h-5 text-indigo-600" />
+        Backfill
+      </h3>
+
+      <form onSubmit={handleStart} className="grid grid-cols-1 sm:grid-cols-3 gap-3 items-end">
+        <div className="space-y-1">
+          <label className="text-[10px] uppercase tracking-wider font-bold text-gray-400">From</label>
+          <input
+            type="date"
+            value={range.startDate}
+            onChange={(e) => setRange({ ...range, startDate: e.target.value })}
+            className="w-full px-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+          />
+        </div>
+        <div className="space-y-1">
+          <label className="text-[10px] uppercase tracking-wider font-bold text-gray-400">To</label>
+          <input
+            type="date"
+            value={range.endDate}
+            onChange={(e) => setRange({ ...range, endDate: e.target.value })}
+            className="w-full px-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={!range.startDate || !range.endDate || job?.status === "running"}
+          className="w-full bg-indigo-600 text-white py-2 rounded-lg text-sm font-bold hover:bg-indigo-700 transition-colors disabled:opacity-50"
+        >
+          Start Backfill
+        </button>
+      </form>
+
+      {error && (
+        <p className="mt-3 text-xs font-medium text-rose-600 flex items-center gap-1.5">
+          <AlertCircle className="w-3.5 h-3.5" />
+          {error}
+        </p>
+      )}
+
+      {job && (
+        <div className="mt-5 pt-5 border-t border-gray-100 space-y-3">
+          <div className="flex items-center justify-between">
+            <p className="text-sm font-medium text-gray-900">
+              Job #{job.id}: {new Date(job.start_date).toLocaleDateString()} – {new Date(job.end_date).toLocaleDateString()}
+            </p>
+            <span className={`text-[10px] font-bold px-2 py-0.5 rounded uppercase ${STATUS_STYLES[job.status]}`}>
+              {job.status}
+            </span>
+          </div>
+
+          <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+            <div className="h-full bg-indigo-600 transition-all" style={{ width: `${progress}%` }} />
+          </div>
+
+          <div className="flex items-center justify-between text-xs text-gray-500">
+            <span>
+              {job.processed}/{job.total} processed · {job.sent} sent · {job.already_synced} already synced
+              {job.held > 0 && ` · ${job.held} held`}
+              {job.filtered > 0 && ` · ${job.filtered} filtered out`} · {job.failed} failed
+            </span>
+            {job.status === "running" ? (
+              <button
+                onClick={handleCancel}
+                className="flex items-center gap-1 font-bold text-rose-600 hover:text-rose-700"
+              >
+                <Square className="w-3 h-3" />
+                Cancel
+              </button>
+            ) : job.status === "completed" ? (
+              <CheckCircle2 className="w-4 h-4 text-emerald-600" />
+            ) : null}
+          </div>
+
+          {job.error && <p className="text-xs text-rose-600">{job.error}</p>}
+        </div>
+      )}
+    </section>
+  );
+}
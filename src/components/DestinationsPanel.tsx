@@ -0,0 +1,420 @@
+import React, { useEffect, useState } from "react";
+import { AlertCircle, CheckCircle2, Pencil, PlugZap, Send, Trash2 } from "lucide-react";
+import { apiFetch } from "../api";
+
+type DestinationType = "telegram" | "discord" | "slack" | "webhook";
+type RuleField = "labels" | "genres" | "languages" | "keywords";
+type LinkPreviewMode = "default" | "disabled" | "small" | "large" | "above";
+type ToggleOption = "linkButtons" | "album" | "silent" | "protectContent";
+
+interface DestinationField {
+  key: string;
+  label: string;
+  secret: boolean;
+  required: boolean;
+}
+
+interface DeliveryStats {
+  sent: number;
+  pending: number;
+  failed: number;
+  skipped: number;
+  lastSentAt: string | null;
+  lastError: string | null;
+  lastErrorAt: string | null;
+}
+
+interface Destination {
+  id: number;
+  type: DestinationType;
+  name: string;
+  config: Record<string, string>;
+  template_id: number | null;
+  rules: Record<RuleField, string[]>;
+  options: Record<ToggleOption, boolean> & { linkPreview: LinkPreviewMode; pin: Record<RuleField, string[]> };
+  enabled: boolean;
+  delivery: DeliveryStats | null;
+}
+
+const RULE_LABELS: Record<RuleField, { label: string; placeholder: string }> = {
+  labels: { label: "Labels", placeholder: "Bollywood, Dubbed" },
+  genres: { label: "Genres", placeholder: "Horror, Thriller" },
+  languages: { label: "Languages", placeholder: "Hindi, Tamil" },
+  keywords: { label: "Title Keywords", placeholder: "Marvel, 4K" },
+};
+
+const EMPTY_RULES: Record<RuleField, string> = { labels: "", genres: "", languages: "", keywords: "" };
+
+const TOGGLE_LABELS: Record<ToggleOption, string> = {
+  linkButtons: "Links as buttons (Download, Trailer, IMDb)",
+  album: "Send every image in the post as an album",
+  silent: "Send silently",
+  protectContent: "Protect from forwarding and saving",
+};
+
+const LINK_PREVIEW_LABELS: Record<LinkPreviewMode, string> = {
+  default: "Telegram default",
+  disabled: "Disabled",
+  small: "Small media",
+  large: "Large media",
+  above: "Above the text",
+};
+
+const EMPTY_OPTIONS = {
+  linkButtons: false,
+  album: false,
+  silent: false,
+  protectContent: false,
+  linkPreview: "default" as LinkPreviewMode,
+  pin: EMPTY_RULES,
+};
+
+const EMPTY_FORM = {
+  type: "telegram" as DestinationType,
+  name: "",
+  config: {} as Record<string, string>,
+  templateId: "",
+  rules: EMPTY_RULES,
+  options: EMPTY_OPTIONS,
+};
+
+const joinRules = (rules: Record<RuleField, string[]>) => {
+  const joined = { ...EMPTY_RULES };
+  for (const field of Object.keys(RULE_LABELS) as RuleField[]) joined[field] = rules[field].join(", ");
+  return joined;
+};
+
+const describeRules = (rules: Destination["rules"]) => {
+  const parts = (Object.keys(RULE_LABELS) as RuleField[])
+    .filter((field) => rules[field].length > 0)
+    .map((field) => `${RULE_LABELS[field].label}: ${rules[field].join(", ")}`);
+  return parts.length ? parts.join(" · ") : "All posts";
+};
+
+const describeDelivery = (delivery: DeliveryStats | null) => {
+  if (!delivery) return "Nothing delivered yet";
+  const parts = [`${delivery.sent} sent`];
+  if (delivery.pending) parts.push(`${delivery.pending} pending`);
+  if (delivery.failed) parts.push(`${delivery.failed} failed`);
+  if (delivery.skipped) parts.push(`${delivery.skipped} filtered out`);
+  return parts.join(" · ");
+};
+
+export default function DestinationsPanel() {
+  const [destinations, setDestinations] = useState<Destination[]>([]);
+  const [types, setTypes] = useState<Record<DestinationType, { label: string; fields: DestinationField[]; templated: boolean }> | null>(null);
+  const [templates, setTemplates] = useState<Array<{ id: number; name: string }>>([]);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+
+  const fetchDestinations = async () => {
+    try {
+      const [destinationsRes, templatesRes] = await Promise.all([apiFetch("/api/destinations"), apiFetch("/api/templates")]);
+      const data = await destinationsRes.json();
+      setDestinations(data.destinations);
+      setTypes(data.types);
+      setTemplates((await templatesRes.json()).templates);
+    } catch (err) {
+      console.error("Failed to fetch destinations", err);
+    }
+  };
+
+  useEffect(() => {
+    fetchDestinations();
+  }, []);
+
+  const editing = destinations.find((destination) => destination.id === editingId);
+
+  const startEdit = (destination: Destination) => {
+    setEditingId(destination.id);
+    setMessage(null);
+    // Secrets stay blank; the server keeps the stored value unless a new one is typed
+    const config: Record<string, string> = {};
+    for (const field of types?.[destination.type].fields || []) {
+      config[field.key] = field.secret ? "" : destination.config[field.key] || "";
+    }
+    setForm({
+      type: destination.type,
+      name: destination.name,
+      config,
+      templateId: destination.template_id ? String(destination.template_id) : "",
+      rules: joinRules(destination.rules),
+      options: { ...destination.options, pin: joinRules(destination.options.pin) },
+    });
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const request = async (url: string, init: RequestInit, success: string) => {
+    setMessage(null);
+    try {
+      const res = await apiFetch(url, init);
+      const data = await res.json();
+      if (res.ok) {
+        await fetchDestinations();
+        setMessage({ type: "success", text: success });
+        return data;
+      }
+      setMessage({ type: "error", text: data.error || "Request failed" });
+    } catch (err) {
+      setMessage({ type: "error", text: "Network error while updating destinations" });
+    }
+    return null;
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const saved = await request(
+      editingId ? `/api/destinations/${editingId}` : "/api/destinations",
+      {
+        method: editingId ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...form, templateId: form.templateId ? Number(form.templateId) : null }),
+      },
+      editingId ? "Destination updated." : "Destination added."
+    );
+    if (saved) resetForm();
+  };
+
+  const handleToggle = (destination: Destination) =>
+    request(
+      `/api/destinations/${destination.id}`,
+      {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ enabled: !destination.enabled }),
+      },
+      destination.enabled ? `${destination.name} paused.` : `${destination.name} enabled.`
+    );
+
+  const handleDelete = async (destination: Destination) => {
+    if (!confirm(`Remove destination "${destination.name}"? Messages already posted stay in the channel.`)) return;
+    await request(`/api/destinations/${destination.id}`, { method: "DELETE" }, "Destination removed.");
+    if (editingId === destination.id) resetForm();
+  };
+
+  const handleTest = async (destination: Destination) => {
+    setMessage(null);
+    try {
+      const res = await apiFetch(`/api/destinations/${destination.id}/test`, { method: "POST" });
+      const data = await res.json();
+      if (res.ok) {
+        setMessage({ type: "success", text: `${destination.name}: ${data.message}.` });
+      } else {
+        setMessage({ type: "error", text: data.error || "Destination test failed" });
+      }
+    } catch (err) {
+      setMessage({ type: "error", text: "Network error while testing destination" });
+    }
+  };
+
+  const templateName = (id: number | null) => (id ? templates.find((template) => template.id === id)?.name : null) ?? "Active template";
+  const fields = types?.[form.type].fields || [];
+  const templated = types?.[form.type].templated ?? true;
+
+  return (
+    <section className="bg-white rounded-2xl border border-gray-200 shadow-sm p-6">
+      <h3 className="font-bold flex items-center gap-2 mb-4">
+        <Send className="w-5 h-5 text-indigo-600" />
+        Destinations
+      </h3>
+
+      <div className="divide-y divide-gray-100 border border-gray-100 rounded-xl mb-5">
+        {destinations.length === 0 ? (
+          <p className="p-4 text-sm text-gray-500 italic">No destinations yet. Add a channel below.</p>
+        ) : (
+          destinations.map((destination) => (
+            <div key={destination.id} className="p-3 flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <p className={`text-sm font-medium truncate ${destination.enabled ? "text-gray-900" : "text-gray-400"}`}>{destination.name}</p>
+                <p className="text-xs text-gray-500 truncate">
+                  {types?.[destination.type].label}
+                  {destination.config.chatId ? ` · ${destination.config.chatId}` : destination.config.url ? ` · ${destination.config.url}` : ""}
+                  {destination.type === "telegram" && !destination.config.chatId && " · uses Telegram settings"}
+                  {types?.[destination.type].templated && ` · ${templateName(destination.template_id)}`}
+                </p>
+                <p className="text-[11px] text-gray-400 truncate">
+                  {describeRules(destination.rules)}
+                  {destination.type === "telegram" && destination.options.linkButtons && " · Link buttons"}
+                  {destination.type === "telegram" && destination.options.album && " · Albums"}
+                  {destination.type === "telegram" && destination.options.silent && " · Silent"}
+                </p>
+                <p className="text-[11px] text-gray-400 truncate">{describeDelivery(destination.delivery)}</p>
+                {destination.delivery?.lastError && (
+                  <p className="text-[11px] text-rose-500 truncate" title={destination.delivery.lastError}>
+                    {destination.delivery.lastError}
+                  </p>
+                )}
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                <button
+                  onClick={() => handleToggle(destination)}
+                  className={`text-[10px] font-bold px-2 py-0.5 rounded uppercase ${
+                    destination.enabled ? "text-emerald-600 bg-emerald-50" : "text-gray-500 bg-gray-100"
+                  }`}
+                >
+                  {destination.enabled ? "Enabled" : "Paused"}
+                </button>
+                <button onClick={() => handleTest(destination)} className="p-1.5 text-gray-400 hover:text-indigo-600" title="Test destination">
+                  <PlugZap className="w-4 h-4" />
+                </button>
+                <button onClick={() => startEdit(destination)} className="p-1.5 text-gray-400 hover:text-indigo-600" title="Edit destination">
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button onClick={() => handleDelete(destination)} className="p-1.5 text-gray-400 hover:text-rose-600" title="Remove destination">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      <form onSubmit={handleSave} className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <label className="text-[10px] uppercase tracking-wider font-bold text-gray-400">Type</label>
+          <select
+            value={form.type}
+            disabled={!!editingId}
+            onChange={(e) => setForm({ ...form, type: e.target.value as DestinationType, config: {} })}
+            className="w-full px-3 py-2 text-sm border border-gray-200 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500/20 disabled:opacity-60"
+          >
+            {types &&
+              (Object.keys(types) as DestinationType[]).map((type) => (
+                <option key={type} value={type}>
+                  {types[type].label}
+                </option>
+              ))}
+          </select>
+        </div>
+        <div className="space-y-1">
+          <label className="text-[10px] uppercase tracking-wider font-bold text-gray-400">Name</label>
+          <input
+            type="text"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            placeholder={types?.[form.type].label}
+            className="w-full px-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+          />
+        </div>
+        {templated && (
+          <div className="space-y-1">
+            <label className="text-[10px] uppercase tracking-wider font-bold text-gray-400">Template</label>
+            <select
+              value={form.templateId}
+              onChange={(e) => setForm({ ...form, templateId: e.target.value })}
+              className="w-full px-3 py-2 text-sm border border-gray-200 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+            >
+              <option value="">Active template</option>
+              {templates.map((template) => (
+                <option key={template.id} value={template.id}>
+                  {template.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+        {fields.map((field) => (
+          <div key={field.key} className="space-y-1">
+            <label className="text-[10px] uppercase tracking-wider font-bold text-gray-400">
+              {field.label}
+              {!field.required && " (optional)"}
+            </label>
+            <input
+              type={field.secret ? "password" : "text"}
+              value={form.config[field.key] || ""}
+              onChange={(e) => setForm({ ...form, config: { ...form.config, [field.key]: e.target.value } })}
+              placeholder={field.secret && editing?.config[field.key] ? `Saved: ${editing.config[field.key]}` : undefined}
+              className="w-full px-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+            />
+          </div>
+        ))}
+        {(Object.keys(RULE_LABELS) as RuleField[]).map((field) => (
+          <div key={field} className="space-y-1">
+            <label className="text-[10px] uppercase tracking-wider font-bold text-gray-400">{RULE_LABELS[field].label}</label>
+            <input
+              type="text"
+              value={form.rules[field]}
+              onChange={(e) => setForm({ ...form, rules: { ...form.rules, [field]: e.target.value } })}
+              placeholder={RULE_LABELS[field].placeholder}
+              className="w-full px-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+            />
+          </div>
+        ))}
+        <p className="sm:col-span-2 text-[10px] text-gray-400 italic">
+          Comma-separated. A post must match every filled-in rule, and any value within it. Leave all blank to receive every post.
+        </p>
+        {form.type === "telegram" && (
+          <>
+            <div className="sm:col-span-2 space-y-1.5">
+              {(Object.keys(TOGGLE_LABELS) as ToggleOption[]).map((option) => (
+                <label key={option} className="flex items-center gap-2 text-xs text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={form.options[option]}
+                    onChange={(e) => setForm({ ...form, options: { ...form.options, [option]: e.target.checked } })}
+                    className="accent-indigo-600"
+                  />
+                  {TOGGLE_LABELS[option]}
+                </label>
+              ))}
+            </div>
+            <div className="space-y-1">
+              <label className="text-[10px] uppercase tracking-wider font-bold text-gray-400">Link Preview</label>
+              <select
+                value={form.options.linkPreview}
+                onChange={(e) => setForm({ ...form, options: { ...form.options, linkPreview: e.target.value as LinkPreviewMode } })}
+                className="w-full px-3 py-2 text-sm border border-gray-200 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+              >
+                {(Object.keys(LINK_PREVIEW_LABELS) as LinkPreviewMode[]).map((mode) => (
+                  <option key={mode} value={mode}>
+                    {LINK_PREVIEW_LABELS[mode]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {(Object.keys(RULE_LABELS) as RuleField[]).map((field) => (
+              <div key={field} className="space-y-1">
+                <label className="text-[10px] uppercase tracking-wider font-bold text-gray-400">Pin: {RULE_LABELS[field].label}</label>
+                <input
+                  type="text"
+                  value={form.options.pin[field]}
+                  onChange={(e) => setForm({ ...form, options: { ...form.options, pin: { ...form.options.pin, [field]: e.target.value } } })}
+                  placeholder={RULE_LABELS[field].placeholder}
+                  className="w-full px-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+                />
+              </div>
+            ))}
+            <p className="sm:col-span-2 text-[10px] text-gray-400 italic">
+              Posts matching the pin rules are pinned in the channel once sent. Leave them blank to pin nothing.
+            </p>
+          </>
+        )}
+        <div className="sm:col-span-2 flex items-center gap-2">
+          <button
+            type="submit"
+            className="px-4 bg-indigo-600 text-white py-2 rounded-lg text-sm font-bold hover:bg-indigo-700 transition-colors"
+          >
+            {editingId ? "Save Destination" : "Add Destination"}
+          </button>
+          {editingId && (
+            <button type="button" onClick={resetForm} className="px-4 py-2 text-sm font-bold text-gray-500 hover:text-gray-700">
+              Cancel
+            </button>
+          )}
+        </div>
+      </form>
+
+      {message && (
+        <p className={`mt-3 text-xs font-medium flex items-center gap-1.5 ${message.type === "success" ? "text-emerald-600" : "text-rose-600"}`}>
+          {message.type === "success" ? <CheckCircle2 className="w-3.5 h-3.5" /> : <AlertCircle className="w-3.5 h-3.5" />}
+          {message.text}
+        </p>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,37 @@
+import React from "react";
+import { CheckCircle2, CircleDashed, XCircle } from "lucide-react";
+
+export interface DiagnosticCheck {
+  id: string;
+  field: "BLOGGER_API_KEY" | "BLOGGER_BLOG_ID" | "TELEGRAM_BOT_TOKEN" | "TELEGRAM_CHANNEL_ID";
+  label: string;
+  status: "pass" | "fail" | "skip";
+  message: string;
+  hint: string | null;
+}
+
+const ICONS: Record<DiagnosticCheck["status"], React.ReactNode> = {
+  pass: <CheckCircle2 className="w-3.5 h-3.5 text-emerald-600" />,
+  fail: <XCircle className="w-3.5 h-3.5 text-rose-600" />,
+  skip: <CircleDashed className="w-3.5 h-3.5 text-gray-400" />,
+};
+
+// Results of "Test Configuration" shown under the field they are about
+export default function DiagnosticChecklist({ checks }: { checks: DiagnosticCheck[] }) {
+  if (checks.length === 0) return null;
+  return (
+    <ul className="space-y-1 pt-1">
+      {checks.map((check) => (
+        <li key={check.id} className="flex items-start gap-1.5">
+          <span className="mt-0.5 shrink-0">{ICONS[check.status]}</span>
+          <div className="min-w-0">
+            <p className={`text-[11px] break-words ${check.status === "fail" ? "text-rose-700" : "text-gray-600"}`}>
+              <span className="font-bold">{check.label}:</span> {check.message}
+            </p>
+            {check.hint && <p className="text-[11px] text-gray-500 break-words">{check.hint}</p>}
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
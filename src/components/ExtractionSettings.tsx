@@ -0,0 +1,101 @@
+import React, { useEffect, useState } from "react";
+import { AlertCircle, CheckCircle2, ScanSearch } from "lucide-react";
+import { apiFetch } from "../api";
+
+const FIELD_LABELS: Record<string, string> = {
+  imdb: "IMDb Rating",
+  genre: "Genre",
+  language: "Language",
+  released: "Released",
+  director: "Director",
+  cast: "Cast",
+  plot: "Plot",
+};
+
+export default function ExtractionSettings() {
+  const [fields, setFields] = useState<string[]>([]);
+  const [defaults, setDefaults] = useState<Record<string, string>>({});
+  const [selectors, setSelectors] = useState<Record<string, string>>({});
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+
+  const applyResponse = (data: any) => {
+    setFields(data.fields);
+    setDefaults(data.defaults);
+    // Fields left on their default show as empty inputs with the default as placeholder
+    const custom: Record<string, string> = {};
+    for (const field of data.fields) {
+      custom[field] = data.selectors[field] === data.defaults[field] ? "" : data.selectors[field];
+    }
+    setSelectors(custom);
+  };
+
+  useEffect(() => {
+    apiFetch("/api/extraction/selectors")
+      .then((res) => res.json())
+      .then(applyResponse)
+      .catch((err) => console.error("Failed to fetch extraction selectors", err));
+  }, []);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setMessage(null);
+    try {
+      const res = await apiFetch("/api/extraction/selectors", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ selectors }),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        applyResponse(data);
+        setMessage({ type: "success", text: "Selectors saved. They apply to the next rendered post." });
+      } else {
+        setMessage({ type: "error", text: data.error || "Failed to save selectors" });
+      }
+    } catch (err) {
+      setMessage({ type: "error", text: "Network error while saving selectors" });
+    }
+  };
+
+  return (
+    <section className="bg-white rounded-2xl border border-gray-200 shadow-sm p-6">
+      <h3 className="font-bold flex items-center gap-2 mb-1">
+        <ScanSearch className="w-5 h-5 text-indigo-600" />
+        Metadata Extraction
+      </h3>
+      <p className="text-xs text-gray-500 mb-4">
+        CSS selectors for each field, matched against the post HTML. Fields they miss are read from schema.org Movie JSON-LD when the post has it.
+      </p>
+
+      <form onSubmit={handleSave} className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {fields.map((field) => (
+          <div key={field} className="space-y-1">
+            <label className="text-[10px] uppercase tracking-wider font-bold text-gray-400">{FIELD_LABELS[field] || field}</label>
+            <input
+              type="text"
+              value={selectors[field] || ""}
+              onChange={(e) => setSelectors({ ...selectors, [field]: e.target.value })}
+              placeholder={defaults[field]}
+              spellCheck={false}
+              className="w-full px-3 py-2 text-xs font-mono border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+            />
+          </div>
+        ))}
+        <div className="sm:col-span-2 flex items-center gap-3">
+          <button
+            type="submit"
+            className="px-4 bg-indigo-600 text-white py-2 rounded-lg text-sm font-bold hover:bg-indigo-700 transition-colors"
+          >
+            Save Selectors
+          </button>
+          {message && (
+            <p className={`text-xs font-medium flex items-center gap-1.5 ${message.type === "success" ? "text-emerald-600" : "text-rose-600"}`}>
+              {message.type === "success" ? <CheckCircle2 className="w-3.5 h-3.5" /> : <AlertCircle className="w-3.5 h-3.5" />}
+              {message.text}
+            </p>
+          )}
+        </div>
+      </form>
+    </section>
+  );
+}
@@ -0,0 +1,176 @@
+import React, { useEffect, useState } from "react";
+import { AlertCircle, CheckCircle2, Filter } from "lucide-react";
+import { apiFetch } from "../api";
+
+const FIELD_LABELS: Record<string, string> = {
+  imdb: "IMDb Rating",
+  genre: "Genre",
+  language: "Language",
+  released: "Released",
+  director: "Director",
+  cast: "Cast",
+  plot: "Plot",
+};
+
+interface FilterRules {
+  includeLabels: string[];
+  excludeLabels: string[];
+  titleInclude: string;
+  titleExclude: string;
+  minImdbRating: number | null;
+  requiredFields: string[];
+  minAgeMinutes: number;
+}
+
+// Lists are edited as comma-separated text and numbers as strings, so blank stays blank
+const toForm = (rules: FilterRules) => ({
+  includeLabels: rules.includeLabels.join(", "),
+  excludeLabels: rules.excludeLabels.join(", "),
+  titleInclude: rules.titleInclude,
+  titleExclude: rules.titleExclude,
+  minImdbRating: rules.minImdbRating === null ? "" : String(rules.minImdbRating),
+  requiredFields: rules.requiredFields,
+  minAgeMinutes: rules.minAgeMinutes ? String(rules.minAgeMinutes) : "",
+});
+
+const TEXT_INPUTS: Array<{ key: "includeLabels" | "excludeLabels" | "titleInclude" | "titleExclude"; label: string; placeholder: string; mono?: boolean }> = [
+  { key: "includeLabels", label: "Only Labels", placeholder: "Movies, Series" },
+  { key: "excludeLabels", label: "Exclude Labels", placeholder: "Announcement, Request" },
+  { key: "titleInclude", label: "Title Must Match", placeholder: "\\(\\d{4}\\)", mono: true },
+  { key: "titleExclude", label: "Title Must Not Match", placeholder: "^(request|notice)", mono: true },
+];
+
+export default function FilterRulesPanel() {
+  const [fields, setFields] = useState<string[]>([]);
+  const [form, setForm] = useState<ReturnType<typeof toForm> | null>(null);
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+
+  const applyResponse = (data: any) => {
+    setFields(data.fields);
+    setForm(toForm(data.rules));
+  };
+
+  useEffect(() => {
+    apiFetch("/api/filters")
+      .then((res) => res.json())
+      .then(applyResponse)
+      .catch((err) => console.error("Failed to fetch filter rules", err));
+  }, []);
+
+  const toggleField = (field: string) => {
+    if (!form) return;
+    const requiredFields = form.requiredFields.includes(field)
+      ? form.requiredFields.filter((item) => item !== field)
+      : [...form.requiredFields, field];
+    setForm({ ...form, requiredFields });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setMessage(null);
+    try {
+      const res = await apiFetch("/api/filters", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ rules: form }),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        applyResponse(data);
+        setMessage({ type: "success", text: "Filter rules saved. They apply to posts not yet routed." });
+      } else {
+        setMessage({ type: "error", text: data.error || "Failed to save filter rules" });
+      }
+    } catch (err) {
+      setMessage({ type: "error", text: "Network error while saving filter rules" });
+    }
+  };
+
+  if (!form) return null;
+
+  return (
+    <section className="bg-white rounded-2xl border border-gray-200 shadow-sm p-6">
+      <h3 className="font-bold flex items-center gap-2 mb-1">
+        <Filter className="w-5 h-5 text-indigo-600" />
+        Filter Rules
+      </h3>
+      <p className="text-xs text-gray-500 mb-4">
+        Checked before a post is sent anywhere. Posts that fail a rule are skipped for every destination and listed in the history with the rule
+        that blocked them. They are checked again when the post is edited or these rules are saved.
+      </p>
+
+      <form onSubmit={handleSave} className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {TEXT_INPUTS.map(({ key, label, placeholder, mono }) => (
+          <div key={key} className="space-y-1">
+            <label className="text-[10px] uppercase tracking-wider font-bold text-gray-400">{label}</label>
+            <input
+              type="text"
+              value={form[key]}
+              onChange={(e) => setForm({ ...form, [key]: e.target.value })}
+              placeholder={placeholder}
+              spellCheck={false}
+              className={`w-full px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500/20 ${
+                mono ? "text-xs font-mono" : "text-sm"
+              }`}
+            />
+          </div>
+        ))}
+        <div className="space-y-1">
+          <label className="text-[10px] uppercase tracking-wider font-bold text-gray-400">Minimum IMDb Rating</label>
+          <input
+            type="number"
+            min="0"
+            max="10"
+            step="0.1"
+            value={form.minImdbRating}
+            onChange={(e) => setForm({ ...form, minImdbRating: e.target.value })}
+            placeholder="No minimum"
+            className="w-full px-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+          />
+        </div>
+        <div className="space-y-1">
+          <label className="text-[10px] uppercase tracking-wider font-bold text-gray-400">Minimum Post Age (minutes)</label>
+          <input
+            type="number"
+            min="0"
+            value={form.minAgeMinutes}
+            onChange={(e) => setForm({ ...form, minAgeMinutes: e.target.value })}
+            placeholder="Send right away"
+            className="w-full px-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+          />
+        </div>
+        <div className="sm:col-span-2 space-y-1">
+          <label className="text-[10px] uppercase tracking-wider font-bold text-gray-400">Required Fields</label>
+          <div className="flex flex-wrap gap-1.5">
+            {fields.map((field) => (
+              <button
+                key={field}
+                type="button"
+                onClick={() => toggleField(field)}
+                className={`text-[11px] font-medium px-2 py-1 rounded ${
+                  form.requiredFields.includes(field) ? "bg-indigo-600 text-white" : "bg-gray-100 text-gray-500 hover:bg-gray-200"
+                }`}
+              >
+                {FIELD_LABELS[field] || field}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="sm:col-span-2 flex items-center gap-3">
+          <button
+            type="submit"
+            className="px-4 bg-indigo-600 text-white py-2 rounded-lg text-sm font-bold hover:bg-indigo-700 transition-colors"
+          >
+            Save Filters
+          </button>
+          {message && (
+            <p className={`text-xs font-medium flex items-center gap-1.5 ${message.type === "success" ? "text-emerald-600" : "text-rose-600"}`}>
+              {message.type === "success" ? <CheckCircle2 className="w-3.5 h-3.5" /> : <AlertCircle className="w-3.5 h-3.5" />}
+              {message.text}
+            </p>
+          )}
+        </div>
+      </form>
+    </section>
+  );
+}
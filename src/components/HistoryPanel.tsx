@@ -0,0 +1,298 @@
+import React, { useEffect, useRef, useState } from "react";
+import { AlertCircle, CheckCircle2, ChevronLeft, ChevronRight, Filter, History, RotateCcw, Search, Send, Trash2, XCircle } from "lucide-react";
+import { apiFetch } from "../api";
+import { useSyncEvents } from "../syncEvents";
+
+type HistoryStatus = "sent" | "failed" | "skipped";
+type HistoryAction = "retry" | "resend" | "forget";
+
+interface PostMetadata {
+  imdb: string | null;
+  genre: string | null;
+  language: string | null;
+  released: string | null;
+  director: string | null;
+  cast: string | null;
+  plot: string | null;
+  sources: Record<string, "selector" | "json-ld" | "ai">;
+}
+
+interface HistoryItem {
+  id: number;
+  post_id: string;
+  destination_id: number | null;
+  destination: string | null;
+  title: string | null;
+  url: string | null;
+  status: HistoryStatus;
+  error: string | null;
+  message_id: number | null;
+  attempt: number | null;
+  created_at: string;
+  metadata: PostMetadata | null;
+  // Where the post stands with the destination now
+  state: string | null;
+  resendable: boolean;
+  // Opens of the tracked link at this destination
+  clicks: number;
+}
+
+const METADATA_LABELS: Array<[keyof Omit<PostMetadata, "sources">, string]> = [
+  ["imdb", "IMDb"],
+  ["genre", "Genre"],
+  ["language", "Language"],
+  ["released", "Released"],
+  ["director", "Director"],
+  ["cast", "Cast"],
+  ["plot", "Plot"],
+];
+
+const STATUS_STYLES: Record<HistoryStatus, { icon: React.ReactNode; badge: string }> = {
+  sent: {
+    icon: (
+      <div className="w-8 h-8 bg-emerald-50 rounded-full flex items-center justify-center shrink-0">
+        <CheckCircle2 className="w-4 h-4 text-emerald-600" />
+      </div>
+    ),
+    badge: "text-emerald-600 bg-emerald-50",
+  },
+  failed: {
+    icon: (
+      <div className="w-8 h-8 bg-rose-50 rounded-full flex items-center justify-center shrink-0">
+        <XCircle className="w-4 h-4 text-rose-600" />
+      </div>
+    ),
+    badge: "text-rose-600 bg-rose-50",
+  },
+  skipped: {
+    icon: (
+      <div className="w-8 h-8 bg-amber-50 rounded-full flex items-center justify-center shrink-0">
+        <Filter className="w-4 h-4 text-amber-600" />
+      </div>
+    ),
+    badge: "text-amber-600 bg-amber-50",
+  },
+};
+
+const ACTION_MESSAGES: Record<HistoryAction, string> = {
+  retry: "Queued for retry on the next sync.",
+  resend: "Queued to be sent again on the next sync.",
+  forget: "Forgotten. The next sync treats the post as new if its source still lists it.",
+};
+
+const PAGE_SIZE = 20;
+
+export default function HistoryPanel() {
+  const [items, setItems] = useState<HistoryItem[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [search, setSearch] = useState("");
+  const [query, setQuery] = useState("");
+  const [statusFilter, setStatusFilter] = useState<"" | HistoryStatus>("");
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+
+  const fetchHistory = async () => {
+    const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) });
+    if (query) params.set("q", query);
+    if (statusFilter) params.set("status", statusFilter);
+    try {
+      const res = await apiFetch(`/api/history?${params}`);
+      const data = await res.json();
+      setItems(data.items);
+      setTotal(data.total);
+    } catch (err) {
+      console.error("Failed to fetch history", err);
+    }
+  };
+
+  useEffect(() => {
+    fetchHistory();
+  }, [page, query, statusFilter]);
+
+  // Refetched when a delivery is recorded instead of on a timer; a run sends
+  // several in a row, so they are gathered into one request
+  const refresh = useRef<ReturnType<typeof setTimeout> | null>(null);
+  useSyncEvents((event) => {
+    if (event && !["sent", "failed", "retry", "skipped", "run_finished"].includes(event.type)) return;
+    if (refresh.current) clearTimeout(refresh.current);
+    refresh.current = setTimeout(fetchHistory, 500);
+  });
+  useEffect(() => () => clearTimeout(refresh.current ?? undefined), []);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPage(1);
+    setQuery(search.trim());
+  };
+
+  const handleAction = async (item: HistoryItem, action: HistoryAction) => {
+    if (action === "resend" && item.state === "sent" && !confirm(`Send "${item.title || item.post_id}" to ${item.destination} again?`)) return;
+    if (action === "forget" && !confirm(`Forget "${item.title || item.post_id}" for ${item.destination}?`)) return;
+    setMessage(null);
+    try {
+      const res = await apiFetch(`/api/history/${encodeURIComponent(item.post_id)}/${action}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ destinationId: item.destination_id }),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        setMessage({ type: "success", text: ACTION_MESSAGES[action] });
+        fetchHistory();
+      } else {
+        setMessage({ type: "error", text: data.error || "Action failed" });
+      }
+    } catch (err) {
+      setMessage({ type: "error", text: "Network error while updating the post" });
+    }
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <section className="bg-white rounded-2xl border border-gray-200 shadow-sm overflow-hidden">
+      <div className="p-6 border-b border-gray-100 space-y-3">
+        <h3 className="font-bold flex items-center gap-2">
+          <History className="w-5 h-5 text-indigo-600" />
+          History
+        </h3>
+        <form onSubmit={handleSearch} className="flex flex-wrap gap-2">
+          <div className="relative flex-1 min-w-[12rem]">
+            <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search title, URL, post ID or error"
+              className="w-full pl-9 pr-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+            />
+          </div>
+          <select
+            value={statusFilter}
+            onChange={(e) => {
+              setPage(1);
+              setStatusFilter(e.target.value as "" | HistoryStatus);
+            }}
+            className="px-3 py-2 text-sm border border-gray-200 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+          >
+            <option value="">All</option>
+            <option value="sent">Sent</option>
+            <option value="failed">Failed</option>
+            <option value="skipped">Skipped</option>
+          </select>
+        </form>
+        {message && (
+          <p className={`text-xs font-medium flex items-center gap-1.5 ${message.type === "success" ? "text-emerald-600" : "text-rose-600"}`}>
+            {message.type === "success" ? <CheckCircle2 className="w-3.5 h-3.5" /> : <AlertCircle className="w-3.5 h-3.5" />}
+            {message.text}
+          </p>
+        )}
+      </div>
+
+      <div className="divide-y divide-gray-100">
+        {items.length > 0 ? (
+          items.map((item) => (
+            <div key={item.id} className="p-4 flex items-start justify-between gap-3 hover:bg-gray-50 transition-colors">
+              <div className="flex items-start gap-3 min-w-0">
+                {STATUS_STYLES[item.status].icon}
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate">
+                    {item.url ? (
+                      <a href={item.url} target="_blank" rel="noreferrer" className="hover:text-indigo-600">
+                        {item.title || `Post ID: ${item.post_id}`}
+                      </a>
+                    ) : (
+                      item.title || `Post ID: ${item.post_id}`
+                    )}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {new Date(item.created_at).toLocaleString()}
+                    {item.destination && ` · ${item.destination}`}
+                    {item.attempt && item.attempt > 1 && ` · attempt ${item.attempt}`}
+                    {item.message_id && ` · message ${item.message_id}`}
+                    {item.status === "sent" && item.clicks > 0 && ` · ${item.clicks} ${item.clicks === 1 ? "click" : "clicks"}`}
+                  </p>
+                  {item.error && (
+                    <p className={`text-xs mt-0.5 break-words ${item.status === "failed" ? "text-rose-600" : "text-amber-700"}`}>{item.error}</p>
+                  )}
+                  {item.status === "sent" && item.metadata && (
+                    <div className="flex flex-wrap gap-1 mt-1.5">
+                      {METADATA_LABELS.map(([field, label]) => {
+                        const value = item.metadata![field];
+                        return (
+                          <span
+                            key={field}
+                            title={value ? `${value} (${item.metadata!.sources[field]})` : "Not found, shown as N/A"}
+                            className={`text-[10px] font-medium px-1.5 py-0.5 rounded ${
+                              value ? "bg-emerald-50 text-emerald-700" : "bg-gray-100 text-gray-400 line-through"
+                            }`}
+                          >
+                            {label}
+                          </span>
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
+              </div>
+              <div className="flex flex-col items-end gap-1.5 shrink-0">
+                <span className={`text-[10px] font-bold px-2 py-0.5 rounded uppercase ${STATUS_STYLES[item.status].badge}`}>{item.status}</span>
+                {item.destination_id && (
+                  <div className="flex items-center gap-0.5">
+                    {item.state === "failed" && (
+                      <button onClick={() => handleAction(item, "retry")} className="p-1 text-gray-400 hover:text-indigo-600" title="Retry">
+                        <RotateCcw className="w-3.5 h-3.5" />
+                      </button>
+                    )}
+                    {item.resendable && item.state !== "pending" && item.state !== "sending" && (
+                      <button onClick={() => handleAction(item, "resend")} className="p-1 text-gray-400 hover:text-indigo-600" title="Resend">
+                        <Send className="w-3.5 h-3.5" />
+                      </button>
+                    )}
+                    {item.state && (
+                      <button onClick={() => handleAction(item, "forget")} className="p-1 text-gray-400 hover:text-rose-600" title="Forget">
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+            </div>
+          ))
+        ) : (
+          <div className="p-6 text-center py-12">
+            <p className="text-sm text-gray-500 italic">
+              {query || statusFilter ? "Nothing in the history matches." : 'No activity yet. Click "Sync Now" to start.'}
+            </p>
+          </div>
+        )}
+      </div>
+
+      {total > PAGE_SIZE && (
+        <div className="px-4 py-3 border-t border-gray-100 flex items-center justify-between text-xs text-gray-500">
+          <span>
+            Page {page} of {pageCount} · {total} entries
+          </span>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => setPage(page - 1)}
+              disabled={page <= 1}
+              className="p-1.5 rounded hover:bg-gray-100 disabled:opacity-40"
+              title="Previous page"
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => setPage(page + 1)}
+              disabled={page >= pageCount}
+              className="p-1.5 rounded hover:bg-gray-100 disabled:opacity-40"
+              title="Next page"
+            >
+              <ChevronRight className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,242 @@
+import React, { useEffect, useState } from "react";
+import { AlertCircle, CheckCircle2, Pencil, PlugZap, Rss, Trash2 } from "lucide-react";
+import { apiFetch } from "../api";
+
+type SourceType = "blogger" | "rss" | "wordpress";
+
+interface SourceField {
+  key: string;
+  label: string;
+  secret: boolean;
+  required: boolean;
+}
+
+interface Source {
+  id: number;
+  type: SourceType;
+  name: string;
+  config: Record<string, string>;
+  enabled: boolean;
+}
+
+const EMPTY_FORM = { type: "rss" as SourceType, name: "", config: {} as Record<string, string> };
+
+export default function SourcesPanel() {
+  const [sources, setSources] = useState<Source[]>([]);
+  const [types, setTypes] = useState<Record<SourceType, { label: string; fields: SourceField[] }> | null>(null);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+
+  const fetchSources = async () => {
+    try {
+      const res = await apiFetch("/api/sources");
+      const data = await res.json();
+      setSources(data.sources);
+      setTypes(data.types);
+    } catch (err) {
+      console.error("Failed to fetch sources", err);
+    }
+  };
+
+  useEffect(() => {
+    fetchSources();
+  }, []);
+
+  const editing = sources.find((source) => source.id === editingId);
+
+  const startEdit = (source: Source) => {
+    setEditingId(source.id);
+    setMessage(null);
+    // Secrets stay blank; the server keeps the stored value unless a new one is typed
+    const config: Record<string, string> = {};
+    for (const field of types?.[source.type].fields || []) {
+      config[field.key] = field.secret ? "" : source.config[field.key] || "";
+    }
+    setForm({ type: source.type, name: source.name, config });
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const request = async (url: string, init: RequestInit, success: string) => {
+    setMessage(null);
+    try {
+      const res = await apiFetch(url, init);
+      const data = await res.json();
+      if (res.ok) {
+        await fetchSources();
+        setMessage({ type: "success", text: success });
+        return data;
+      }
+      setMessage({ type: "error", text: data.error || "Request failed" });
+    } catch (err) {
+      setMessage({ type: "error", text: "Network error while updating sources" });
+    }
+    return null;
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const saved = await request(
+      editingId ? `/api/sources/${editingId}` : "/api/sources",
+      {
+        method: editingId ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(form),
+      },
+      editingId ? "Source updated." : "Source added."
+    );
+    if (saved) resetForm();
+  };
+
+  const handleToggle = (source: Source) =>
+    request(
+      `/api/sources/${source.id}`,
+      {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ enabled: !source.enabled }),
+      },
+      source.enabled ? `${source.name} paused.` : `${source.name} enabled.`
+    );
+
+  const handleDelete = async (source: Source) => {
+    if (!confirm(`Remove source "${source.name}"? Posts already sent stay in the channel.`)) return;
+    await request(`/api/sources/${source.id}`, { method: "DELETE" }, "Source removed.");
+    if (editingId === source.id) resetForm();
+  };
+
+  const handleTest = async (source: Source) => {
+    setMessage(null);
+    try {
+      const res = await apiFetch(`/api/sources/${source.id}/test`, { method: "POST" });
+      const data = await res.json();
+      if (res.ok) {
+        setMessage({
+          type: "success",
+          text: data.latest ? `${source.name} is working. Latest post: ${data.latest.title}` : `${source.name} is reachable but has no posts yet.`,
+        });
+      } else {
+        setMessage({ type: "error", text: data.error || "Source test failed" });
+      }
+    } catch (err) {
+      setMessage({ type: "error", text: "Network error while testing source" });
+    }
+  };
+
+  const fields = types?.[form.type].fields || [];
+
+  return (
+    <section className="bg-white rounded-2xl border border-gray-200 shadow-sm p-6">
+      <h3 className="font-bold flex items-center gap-2 mb-4">
+        <Rss className="w-5 h-5 text-indigo-600" />
+        Sources
+      </h3>
+
+      <div className="divide-y divide-gray-100 border border-gray-100 rounded-xl mb-5">
+        {sources.length === 0 ? (
+          <p className="p-4 text-sm text-gray-500 italic">No sources yet. Add a Blogger blog, feed or WordPress site below.</p>
+        ) : (
+          sources.map((source) => (
+            <div key={source.id} className="p-3 flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <p className={`text-sm font-medium truncate ${source.enabled ? "text-gray-900" : "text-gray-400"}`}>{source.name}</p>
+                <p className="text-xs text-gray-500 truncate">
+                  {types?.[source.type].label}
+                  {source.config.url ? ` · ${source.config.url}` : source.config.blogId ? ` · ${source.config.blogId}` : ""}
+                  {source.type === "blogger" && !source.config.blogId && " · uses Blogger settings"}
+                </p>
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                <button
+                  onClick={() => handleToggle(source)}
+                  className={`text-[10px] font-bold px-2 py-0.5 rounded uppercase ${
+                    source.enabled ? "text-emerald-600 bg-emerald-50" : "text-gray-500 bg-gray-100"
+                  }`}
+                >
+                  {source.enabled ? "Enabled" : "Paused"}
+                </button>
+                <button onClick={() => handleTest(source)} className="p-1.5 text-gray-400 hover:text-indigo-600" title="Test source">
+                  <PlugZap className="w-4 h-4" />
+                </button>
+                <button onClick={() => startEdit(source)} className="p-1.5 text-gray-400 hover:text-indigo-600" title="Edit source">
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button onClick={() => handleDelete(source)} className="p-1.5 text-gray-400 hover:text-rose-600" title="Remove source">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      <form onSubmit={handleSave} className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <label className="text-[10px] uppercase tracking-wider font-bold text-gray-400">Type</label>
+          <select
+            value={form.type}
+            disabled={!!editingId}
+            onChange={(e) => setForm({ ...form, type: e.target.value as SourceType, config: {} })}
+            className="w-full px-3 py-2 text-sm border border-gray-200 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500/20 disabled:opacity-60"
+          >
+            {types &&
+              (Object.keys(types) as SourceType[]).map((type) => (
+                <option key={type} value={type}>
+                  {types[type].label}
+                </option>
+              ))}
+          </select>
+        </div>
+        <div className="space-y-1">
+          <label className="text-[10px] uppercase tracking-wider font-bold text-gray-400">Name</label>
+          <input
+            type="text"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            placeholder={types?.[form.type].label}
+            className="w-full px-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+          />
+        </div>
+        {fields.map((field) => (
+          <div key={field.key} className="space-y-1">
+            <label className="text-[10px] uppercase tracking-wider font-bold text-gray-400">
+              {field.label}
+              {!field.required && " (optional)"}
+            </label>
+            <input
+              type={field.secret ? "password" : "text"}
+              value={form.config[field.key] || ""}
+              onChange={(e) => setForm({ ...form, config: { ...form.config, [field.key]: e.target.value } })}
+              placeholder={field.secret && editing?.config[field.key] ? `Saved: ${editing.config[field.key]}` : undefined}
+              className="w-full px-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+            />
+          </div>
+        ))}
+        <div className="sm:col-span-2 flex items-center gap-2">
+          <button
+            type="submit"
+            className="px-4 bg-indigo-600 text-white py-2 rounded-lg text-sm font-bold hover:bg-indigo-700 transition-colors"
+          >
+            {editingId ? "Save Source" : "Add Source"}
+          </button>
+          {editingId && (
+            <button type="button" onClick={resetForm} className="px-4 py-2 text-sm font-bold text-gray-500 hover:text-gray-700">
+              Cancel
+            </button>
+          )}
+        </div>
+      </form>
+
+      {message && (
+        <p className={`mt-3 text-xs font-medium flex items-center gap-1.5 ${message.type === "success" ? "text-emerald-600" : "text-rose-600"}`}>
+          {message.type === "success" ? <CheckCircle2 className="w-3.5 h-3.5" /> : <AlertCircle className="w-3.5 h-3.5" />}
+          {message.text}
+        </p>
+      )}
+    </section>
+  );
+}
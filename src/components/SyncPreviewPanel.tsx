@@ -0,0 +1,172 @@
+import React, { useState } from "react";
+import { AlertCircle, CheckCircle2, Eye, RefreshCw, Send } from "lucide-react";
+import { apiFetch } from "../api";
+import TelegramPreview from "./TelegramPreview";
+
+type PreviewStatus = "ready" | "queued" | "held" | "skipped";
+
+interface PreviewItem {
+  postId: string;
+  sourceId: number;
+  title: string;
+  url: string;
+  published: string;
+  destinationId: number;
+  destination: string;
+  type: string;
+  target: string;
+  status: PreviewStatus;
+  reason: string | null;
+  text: string | null;
+  caption: string | null;
+  imageUrl: string | null;
+  imageUrls: string[];
+  buttons: Array<Array<{ text: string; url: string }>> | null;
+}
+
+const STATUS_BADGES: Record<PreviewStatus, { label: string; className: string }> = {
+  ready: { label: "Next sync", className: "text-emerald-600 bg-emerald-50" },
+  queued: { label: "Queued", className: "text-indigo-600 bg-indigo-50" },
+  held: { label: "Held", className: "text-amber-600 bg-amber-50" },
+  skipped: { label: "Skipped", className: "text-gray-500 bg-gray-100" },
+};
+
+const itemKey = (item: PreviewItem) => `${item.destinationId}-${item.postId}`;
+
+export default function SyncPreviewPanel() {
+  const [items, setItems] = useState<PreviewItem[] | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [publishing, setPublishing] = useState<string | null>(null);
+  const [published, setPublished] = useState<string[]>([]);
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+
+  const handlePreview = async () => {
+    setLoading(true);
+    setMessage(null);
+    try {
+      const res = await apiFetch("/api/sync/preview", { method: "POST" });
+      const data = await res.json();
+      if (res.ok) {
+        setItems(data.items);
+        setErrors(data.errors || []);
+        setPublished([]);
+      } else {
+        setMessage({ type: "error", text: data.error || "Preview failed" });
+      }
+    } catch (err) {
+      setMessage({ type: "error", text: "Network error while building the preview" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handlePublish = async (item: PreviewItem) => {
+    if (item.status === "skipped" && !confirm(`"${item.title}" is skipped by your rules (${item.reason}). Send it anyway?`)) return;
+    setPublishing(itemKey(item));
+    setMessage(null);
+    try {
+      const res = await apiFetch("/api/sync/preview/publish", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ postId: item.postId, sourceId: item.sourceId, destinationId: item.destinationId }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setMessage({ type: "error", text: data.error || "Publish failed" });
+      } else if (data.status === "sent") {
+        setPublished((current) => [...current, itemKey(item)]);
+        setMessage({ type: "success", text: `Sent "${item.title}" to ${item.destination}.` });
+      } else if (data.status === "retry") {
+        setMessage({ type: "error", text: `Sending failed and will be retried by the next sync: ${data.error}` });
+      } else {
+        setMessage({ type: "error", text: "Another run is sending this post right now." });
+      }
+    } catch (err) {
+      setMessage({ type: "error", text: "Network error while publishing" });
+    } finally {
+      setPublishing(null);
+    }
+  };
+
+  return (
+    <section className="bg-white rounded-2xl border border-gray-200 shadow-sm p-6">
+      <div className="flex items-center justify-between mb-1">
+        <h3 className="font-bold flex items-center gap-2">
+          <Eye className="w-5 h-5 text-indigo-600" />
+          Sync Preview
+        </h3>
+        <button
+          onClick={handlePreview}
+          disabled={loading}
+          className="px-3 py-1.5 bg-indigo-600 text-white rounded-lg text-xs font-bold hover:bg-indigo-700 transition-colors disabled:opacity-50 flex items-center gap-1.5"
+        >
+          <RefreshCw className={`w-3.5 h-3.5 ${loading ? "animate-spin" : ""}`} />
+          {loading ? "Rendering…" : items ? "Refresh" : "Preview Next Sync"}
+        </button>
+      </div>
+      <p className="text-xs text-gray-500 mb-4">
+        Fetches, filters and renders pending posts exactly as a sync would, without sending anything or marking posts as synced.
+      </p>
+
+      {message && (
+        <p className={`text-xs font-medium flex items-center gap-1.5 mb-3 ${message.type === "success" ? "text-emerald-600" : "text-rose-600"}`}>
+          {message.type === "success" ? <CheckCircle2 className="w-3.5 h-3.5" /> : <AlertCircle className="w-3.5 h-3.5" />}
+          {message.text}
+        </p>
+      )}
+      {errors.map((error) => (
+        <p key={error} className="text-xs text-amber-700 mb-2">
+          {error}
+        </p>
+      ))}
+
+      {items && items.length === 0 && <p className="text-sm text-gray-500 italic text-center py-6">Nothing to send. The next sync would post nothing.</p>}
+
+      <div className="space-y-5">
+        {items?.map((item) => {
+          const key = itemKey(item);
+          const isPublished = published.includes(key);
+          return (
+            <div key={key} className="space-y-2">
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate">
+                    <a href={item.url} target="_blank" rel="noreferrer" className="hover:text-indigo-600">
+                      {item.title || `Post ID: ${item.postId}`}
+                    </a>
+                  </p>
+                  <p className="text-xs text-gray-500 truncate">
+                    {item.destination} · <span className="font-mono">{item.target}</span>
+                  </p>
+                  {item.reason && <p className="text-xs text-amber-700 mt-0.5">{item.reason}</p>}
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <span className={`text-[10px] font-bold px-2 py-0.5 rounded uppercase ${STATUS_BADGES[item.status].className}`}>
+                    {STATUS_BADGES[item.status].label}
+                  </span>
+                  <button
+                    onClick={() => handlePublish(item)}
+                    disabled={isPublished || publishing !== null}
+                    className="px-2.5 py-1 text-xs font-bold text-indigo-600 border border-indigo-200 rounded-lg hover:bg-indigo-50 disabled:opacity-50 flex items-center gap-1"
+                  >
+                    {isPublished ? <CheckCircle2 className="w-3.5 h-3.5" /> : <Send className="w-3.5 h-3.5" />}
+                    {isPublished ? "Sent" : publishing === key ? "Sending…" : "Publish This One"}
+                  </button>
+                </div>
+              </div>
+              {item.text !== null &&
+                (item.type === "telegram" ? (
+                  <TelegramPreview preview={{ ...item, text: item.text }} />
+                ) : (
+                  <p className="text-[10px] text-gray-400 italic">
+                    This destination builds its own message from the post's fields, so there is no Telegram preview.
+                  </p>
+                ))}
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,147 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Activity, AlertCircle, CheckCircle2, Clock, Download, FileSearch, Filter, Loader2, RotateCcw, Send, XCircle } from "lucide-react";
+import { SyncEvent, useSyncEvents } from "../syncEvents";
+
+const FIELD_LABELS: Record<string, string> = {
+  imdb: "IMDb",
+  genre: "Genre",
+  language: "Language",
+  released: "Released",
+  director: "Director",
+  cast: "Cast",
+  plot: "Plot",
+};
+
+const describe = (event: SyncEvent): { icon: React.ReactNode; text: string; detail?: string } => {
+  switch (event.type) {
+    case "run_started":
+      return { icon: <Activity className="w-3.5 h-3.5 text-indigo-600" />, text: "Run started" };
+    case "fetched":
+      return {
+        icon: <Download className="w-3.5 h-3.5 text-indigo-600" />,
+        text: `Fetched ${event.count} ${event.count === 1 ? "post" : "posts"} from ${event.source}`,
+      };
+    case "source_failed":
+      return { icon: <AlertCircle className="w-3.5 h-3.5 text-rose-600" />, text: `Could not read ${event.source}`, detail: event.error };
+    case "processing":
+      return { icon: <FileSearch className="w-3.5 h-3.5 text-gray-500" />, text: `Processing ${event.title}` };
+    case "held":
+      return {
+        icon: <Clock className="w-3.5 h-3.5 text-amber-600" />,
+        text: `Holding ${event.title} until ${new Date(event.until).toLocaleString()}`,
+      };
+    case "extracted":
+      return { icon: <FileSearch className="w-3.5 h-3.5 text-emerald-600" />, text: `Extracted details from ${event.title}` };
+    case "queued":
+      return {
+        icon: <Clock className="w-3.5 h-3.5 text-gray-500" />,
+        text: `Queued ${event.title} for ${event.destinations} ${event.destinations === 1 ? "destination" : "destinations"}`,
+      };
+    case "sending":
+      return {
+        icon: <Loader2 className="w-3.5 h-3.5 text-indigo-600" />,
+        text: `Sending ${event.title} to ${event.destination}${event.attempt > 1 ? ` (attempt ${event.attempt})` : ""}`,
+      };
+    case "sent":
+      return { icon: <CheckCircle2 className="w-3.5 h-3.5 text-emerald-600" />, text: `Sent ${event.title} to ${event.destination}` };
+    case "failed":
+      return { icon: <XCircle className="w-3.5 h-3.5 text-rose-600" />, text: `Failed to send ${event.title} to ${event.destination}`, detail: event.error };
+    case "retry":
+      return {
+        icon: <RotateCcw className="w-3.5 h-3.5 text-amber-600" />,
+        text: `${event.title} will be retried for ${event.destination}`,
+        detail: event.error,
+      };
+    case "skipped":
+      return { icon: <Filter className="w-3.5 h-3.5 text-amber-600" />, text: `Skipped ${event.title} for ${event.destination}`, detail: event.error };
+    case "run_finished": {
+      const { result } = event;
+      const parts = [`${result.synced} sent`];
+      if (result.failed) parts.push(`${result.failed} failed`);
+      if (result.deferred) parts.push(`${result.deferred} queued for retry`);
+      if (result.updated) parts.push(`${result.updated} edited`);
+      if (result.removed) parts.push(`${result.removed} removed`);
+      return { icon: <Send className="w-3.5 h-3.5 text-indigo-600" />, text: `${result.message}: ${parts.join(", ")}` };
+    }
+    case "run_failed":
+      return { icon: <AlertCircle className="w-3.5 h-3.5 text-rose-600" />, text: "Run failed", detail: event.error };
+  }
+};
+
+// Follows the latest sync run, whether started here, by the scheduler or by a bot command.
+export default function SyncTimeline() {
+  const [events, setEvents] = useState<SyncEvent[]>([]);
+  const listRef = useRef<HTMLOListElement>(null);
+
+  useSyncEvents((event) => {
+    // Deliveries outside a run belong to the history, not to a run's timeline
+    if (!event || !event.runId) return;
+    setEvents((current) => {
+      if (event.type === "run_started") return [event];
+      if (current.some((existing) => existing.id === event.id)) return current;
+      return [...current, event];
+    });
+  });
+
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+  }, [events]);
+
+  const last = events[events.length - 1];
+  const state = !last ? null : last.type === "run_finished" ? "finished" : last.type === "run_failed" ? "failed" : "running";
+
+  return (
+    <section className="bg-white rounded-2xl border border-gray-200 shadow-sm overflow-hidden">
+      <div className="p-6 border-b border-gray-100 flex items-center justify-between">
+        <h3 className="font-bold flex items-center gap-2">
+          <Activity className="w-5 h-5 text-indigo-600" />
+          Live Sync
+        </h3>
+        {state && (
+          <span
+            className={`text-[10px] font-bold px-2 py-0.5 rounded uppercase ${
+              state === "running" ? "text-indigo-600 bg-indigo-50" : state === "finished" ? "text-emerald-600 bg-emerald-50" : "text-rose-600 bg-rose-50"
+            }`}
+          >
+            {state === "running" ? "Running" : state === "finished" ? "Finished" : "Failed"}
+          </span>
+        )}
+      </div>
+
+      {events.length > 0 ? (
+        <ol ref={listRef} className="max-h-80 overflow-y-auto p-4 space-y-2">
+          {events.map((event) => {
+            const { icon, text, detail } = describe(event);
+            return (
+              <li key={event.id} className="flex items-start gap-2.5">
+                <span className="mt-0.5 shrink-0">{icon}</span>
+                <div className="min-w-0 flex-1">
+                  <p className="text-xs text-gray-900 break-words">{text}</p>
+                  {detail && <p className="text-[11px] text-gray-500 break-words">{detail}</p>}
+                  {event.type === "extracted" && (
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {Object.entries(FIELD_LABELS).map(([field, label]) => (
+                        <span
+                          key={field}
+                          title={event.fields[field] || "Not found"}
+                          className={`text-[10px] font-medium px-1.5 py-0.5 rounded ${
+                            event.fields[field] ? "bg-emerald-50 text-emerald-700" : "bg-gray-100 text-gray-400 line-through"
+                          }`}
+                        >
+                          {label}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                <span className="text-[10px] text-gray-400 shrink-0">{new Date(event.at).toLocaleTimeString()}</span>
+              </li>
+            );
+          })}
+        </ol>
+      ) : (
+        <p className="p-6 text-sm text-gray-500 italic text-center">No sync has run since the server started.</p>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,133 @@
+import React from "react";
+
+// The subset of HTML Telegram accepts in parse_mode=HTML
+const ALLOWED_TAGS: Record<string, string> = {
+  b: "strong",
+  strong: "strong",
+  i: "em",
+  em: "em",
+  u: "u",
+  ins: "u",
+  s: "s",
+  strike: "s",
+  del: "s",
+  a: "a",
+  code: "code",
+  pre: "pre",
+  blockquote: "blockquote",
+};
+
+// Rebuilds the preview as React elements so nothing outside the Telegram
+// subset (scripts, event handlers, styles) ever reaches the DOM.
+const renderTelegramNodes = (nodes: NodeListOf<ChildNode>): React.ReactNode[] =>
+  Array.from(nodes).map((node, index) => {
+    if (node.nodeType === Node.TEXT_NODE) return node.textContent;
+    if (node.nodeType !== Node.ELEMENT_NODE) return null;
+
+    const element = node as Element;
+    const children = renderTelegramNodes(element.childNodes);
+    const tag = ALLOWED_TAGS[element.tagName.toLowerCase()];
+    if (!tag) return <React.Fragment key={index}>{children}</React.Fragment>;
+
+    if (tag === "a") {
+      const href = element.getAttribute("href") || "";
+      return (
+        <a key={index} href={/^https?:\/\//i.test(href) ? href : undefined} target="_blank" rel="noreferrer" className="text-sky-600 underline">
+          {children}
+        </a>
+      );
+    }
+    return React.createElement(tag, { key: index }, children);
+  });
+
+const TelegramBubble = ({ html, imageUrl }: { html: string | null; imageUrl?: string | null }) => {
+  const doc = html ? new DOMParser().parseFromString(`<body>${html}</body>`, "text/html") : null;
+  return (
+    <div className="bg-white rounded-2xl rounded-bl-sm shadow-sm overflow-hidden max-w-md">
+      {imageUrl && <img src={imageUrl} alt="" className="w-full max-h-72 object-cover" referrerPolicy="no-referrer" />}
+      {doc && <div className="p-3 text-sm text-gray-900 whitespace-pre-wrap break-words">{renderTelegramNodes(doc.body.childNodes)}</div>}
+    </div>
+  );
+};
+
+const AlbumBubble = ({ html, imageUrls }: { html: string | null; imageUrls: string[] }) => {
+  const doc = html ? new DOMParser().parseFromString(`<body>${html}</body>`, "text/html") : null;
+  return (
+    <div className="bg-white rounded-2xl rounded-bl-sm shadow-sm overflow-hidden max-w-md">
+      <div className="grid grid-cols-2 gap-0.5">
+        {imageUrls.map((url, index) => (
+          <img key={index} src={url} alt="" className="w-full h-32 object-cover" referrerPolicy="no-referrer" />
+        ))}
+      </div>
+      {doc && <div className="p-3 text-sm text-gray-900 whitespace-pre-wrap break-words">{renderTelegramNodes(doc.body.childNodes)}</div>}
+    </div>
+  );
+};
+
+const Buttons = ({ rows }: { rows: Array<Array<{ text: string; url: string }>> }) => (
+  <div className="max-w-md space-y-0.5">
+    {rows.map((row, index) => (
+      <div key={index} className="flex gap-0.5">
+        {row.map((button) => (
+          <a
+            key={button.url}
+            href={button.url}
+            target="_blank"
+            rel="noreferrer"
+            className="flex-1 text-center text-xs font-medium text-white bg-black/25 rounded-lg py-1.5 hover:bg-black/35"
+          >
+            {button.text}
+          </a>
+        ))}
+      </div>
+    ))}
+  </div>
+);
+
+export interface TelegramMessagePreview {
+  text: string;
+  caption: string | null;
+  imageUrl: string | null;
+  // More than one sends the images as an album
+  imageUrls?: string[];
+  buttons?: Array<Array<{ text: string; url: string }>> | null;
+}
+
+// Mirrors how the server sends a post: one captioned photo, or the photo
+// followed by the full text when it is too long for a caption. Albums
+// cannot carry buttons, so with buttons the text always follows them.
+export default function TelegramPreview({ preview }: { preview: TelegramMessagePreview }) {
+  const buttons = preview.buttons?.length ? <Buttons rows={preview.buttons} /> : null;
+  const album = preview.imageUrls && preview.imageUrls.length > 1 ? preview.imageUrls : null;
+  const caption = album && buttons ? null : preview.caption;
+
+  return (
+    <div className="bg-[#e6ebee] rounded-xl p-4 space-y-2">
+      {album ? (
+        caption !== null ? (
+          <AlbumBubble html={caption} imageUrls={album} />
+        ) : (
+          <>
+            <AlbumBubble html={null} imageUrls={album} />
+            <TelegramBubble html={preview.text} />
+            {buttons}
+          </>
+        )
+      ) : preview.imageUrl && caption !== null ? (
+        <>
+          <TelegramBubble html={caption} imageUrl={preview.imageUrl} />
+          {buttons}
+        </>
+      ) : (
+        <>
+          {preview.imageUrl && <TelegramBubble html={null} imageUrl={preview.imageUrl} />}
+          <TelegramBubble html={preview.text} />
+          {buttons}
+        </>
+      )}
+      {preview.imageUrl && preview.caption === null && (
+        <p className="text-[10px] text-gray-500 italic">Too long for a photo caption, so the text is sent as a separate message.</p>
+      )}
+    </div>
+  );
+}
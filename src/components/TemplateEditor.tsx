@@ -0,0 +1,286 @@
+import React, { useEffect, useRef, useState } from "react";
+import { AlertCircle, CheckCircle2, Eye, FileText, Plus, Save, Trash2 } from "lucide-react";
+import { apiFetch } from "../api";
+import TelegramPreview from "./TelegramPreview";
+
+interface MessageTemplate {
+  id: number;
+  name: string;
+  body: string;
+  created_at: string;
+  updated_at: string;
+}
+
+interface TemplatePreview {
+  text: string;
+  caption: string | null;
+  imageUrl: string | null;
+  post: { id: string; title: string; url: string };
+}
+
+export default function TemplateEditor() {
+  const [templates, setTemplates] = useState<MessageTemplate[]>([]);
+  const [fields, setFields] = useState<string[]>([]);
+  const [activeId, setActiveId] = useState<number | null>(null);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [draft, setDraft] = useState({ name: "", body: "" });
+  const [preview, setPreview] = useState<TemplatePreview | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+
+  const fetchTemplates = async (selectId?: number) => {
+    try {
+      const res = await apiFetch("/api/templates");
+      const data = await res.json();
+      setTemplates(data.templates);
+      setFields(data.fields);
+      setActiveId(data.activeId);
+
+      const selected = data.templates.find((t: MessageTemplate) => t.id === (selectId ?? data.activeId)) || data.templates[0];
+      if (selected) {
+        setSelectedId(selected.id);
+        setDraft({ name: selected.name, body: selected.body });
+      }
+    } catch (err) {
+      console.error("Failed to fetch templates", err);
+    }
+  };
+
+  useEffect(() => {
+    fetchTemplates();
+  }, []);
+
+  // Re-render the preview shortly after the user stops typing
+  useEffect(() => {
+    if (!draft.body) return;
+    const timeout = setTimeout(async () => {
+      try {
+        const res = await apiFetch("/api/templates/preview", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ body: draft.body }),
+        });
+        const data = await res.json();
+        if (res.ok) {
+          setPreview(data);
+          setPreviewError(null);
+        } else {
+          setPreviewError(data.error || "Preview failed");
+        }
+      } catch (err) {
+        setPreviewError("Network error while rendering preview");
+      }
+    }, 600);
+    return () => clearTimeout(timeout);
+  }, [draft.body]);
+
+  const selectTemplate = (id: number | null) => {
+    setSelectedId(id);
+    setMessage(null);
+    const template = templates.find((t) => t.id === id);
+    setDraft(template ? { name: template.name, body: template.body } : { name: "", body: draft.body });
+  };
+
+  const insertField = (field: string) => {
+    const placeholder = `{{${field}}}`;
+    const textarea = bodyRef.current;
+    if (!textarea) return;
+    const { selectionStart, selectionEnd } = textarea;
+    const body = draft.body.slice(0, selectionStart) + placeholder + draft.body.slice(selectionEnd);
+    setDraft({ ...draft, body });
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.selectionStart = textarea.selectionEnd = selectionStart + placeholder.length;
+    });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setMessage(null);
+    try {
+      const res = await apiFetch(selectedId ? `/api/templates/${selectedId}` : "/api/templates", {
+        method: selectedId ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(draft),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        await fetchTemplates(data.template.id);
+        setMessage({ type: "success", text: "Template saved." });
+      } else {
+        setMessage({ type: "error", text: data.error || "Failed to save template" });
+      }
+    } catch (err) {
+      setMessage({ type: "error", text: "Network error while saving template" });
+    }
+  };
+
+  const handleActivate = async () => {
+    if (!selectedId) return;
+    try {
+      const res = await apiFetch(`/api/templates/${selectedId}/activate`, { method: "POST" });
+      const data = await res.json();
+      if (res.ok) {
+        setActiveId(data.activeId);
+        setMessage({ type: "success", text: "New posts will use this template." });
+      } else {
+        setMessage({ type: "error", text: data.error || "Failed to activate template" });
+      }
+    } catch (err) {
+      setMessage({ type: "error", text: "Network error while activating template" });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedId || !confirm(`Delete template "${draft.name}"?`)) return;
+    try {
+      const res = await apiFetch(`/api/templates/${selectedId}`, { method: "DELETE" });
+      const data = await res.json();
+      if (res.ok) {
+        await fetchTemplates();
+        setMessage({ type: "success", text: "Template deleted." });
+      } else {
+        setMessage({ type: "error", text: data.error || "Failed to delete template" });
+      }
+    } catch (err) {
+      setMessage({ type: "error", text: "Network error while deleting template" });
+    }
+  };
+
+  return (
+    <section className="bg-white rounded-2xl border border-gray-200 shadow-sm p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-bold flex items-center gap-2">
+          <FileText className="w-5 h-5 text-indigo-600" />
+          Message Template
+        </h3>
+        <div className="flex items-center gap-2">
+          <select
+            value={selectedId ?? ""}
+            onChange={(e) => selectTemplate(e.target.value ? Number(e.target.value) : null)}
+            className="px-3 py-1.5 text-sm border border-gray-200 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+          >
+            {templates.map((t) => (
+              <option key={t.id} value={t.id}>
+                {t.name}
+                {t.id === activeId ? " (active)" : ""}
+              </option>
+            ))}
+            <option value="">New template…</option>
+          </select>
+          {selectedId && (
+            <button
+              onClick={() => selectTemplate(null)}
+              className="p-1.5 text-gray-400 hover:text-indigo-600 transition-colors"
+              title="New template"
+            >
+              <Plus className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <form onSubmit={handleSave} className="space-y-3">
+          <div className="space-y-1">
+            <label className="text-[10px] uppercase tracking-wider font-bold text-gray-400">Name</label>
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder="Template name"
+              className="w-full px-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+            />
+          </div>
+
+          <div className="space-y-1">
+            <label className="text-[10px] uppercase tracking-wider font-bold text-gray-400">Body</label>
+            <textarea
+              ref={bodyRef}
+              value={draft.body}
+              onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+              rows={16}
+              spellCheck={false}
+              className="w-full px-3 py-2 text-xs font-mono border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+            />
+          </div>
+
+          <div className="flex flex-wrap gap-1.5">
+            {fields.map((field) => (
+              <button
+                key={field}
+                type="button"
+                onClick={() => insertField(field)}
+                className="text-[10px] font-mono px-2 py-0.5 rounded bg-indigo-50 text-indigo-600 hover:bg-indigo-100"
+              >
+                {`{{${field}}}`}
+              </button>
+            ))}
+          </div>
+          <p className="text-[10px] text-gray-400 italic">
+            Use {"{{field|fallback}}"} for a default value, {"{{#field}}…{{/field}}"} to show a block only when the field exists, and {"{{^field}}…{{/field}}"} when it is missing.
+          </p>
+
+          <div className="flex gap-2 pt-1">
+            <button
+              type="submit"
+              disabled={!draft.name || !draft.body}
+              className="flex-1 flex items-center justify-center gap-1.5 bg-indigo-600 text-white py-2 rounded-lg text-sm font-bold hover:bg-indigo-700 transition-colors disabled:opacity-50"
+            >
+              <Save className="w-4 h-4" />
+              Save
+            </button>
+            {selectedId && selectedId !== activeId && (
+              <>
+                <button
+                  type="button"
+                  onClick={handleActivate}
+                  className="flex-1 border border-indigo-200 text-indigo-600 py-2 rounded-lg text-sm font-bold hover:bg-indigo-50 transition-colors"
+                >
+                  Use for New Posts
+                </button>
+                <button
+                  type="button"
+                  onClick={handleDelete}
+                  className="px-3 border border-gray-200 text-gray-400 rounded-lg hover:text-rose-600 hover:border-rose-200 transition-colors"
+                  title="Delete template"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </>
+            )}
+          </div>
+
+          {message && (
+            <p className={`text-xs font-medium flex items-center gap-1.5 ${message.type === "success" ? "text-emerald-600" : "text-rose-600"}`}>
+              {message.type === "success" ? <CheckCircle2 className="w-3.5 h-3.5" /> : <AlertCircle className="w-3.5 h-3.5" />}
+              {message.text}
+            </p>
+          )}
+        </form>
+
+        <div className="space-y-2">
+          <label className="text-[10px] uppercase tracking-wider font-bold text-gray-400 flex items-center gap-1">
+            <Eye className="w-3 h-3" />
+            Preview
+            {preview && <span className="normal-case tracking-normal font-medium truncate">· {preview.post.title}</span>}
+          </label>
+          {previewError && (
+            <p className="text-xs font-medium text-rose-600 flex items-center gap-1.5">
+              <AlertCircle className="w-3.5 h-3.5" />
+              {previewError}
+            </p>
+          )}
+          {preview ? (
+            <div className={previewError ? "opacity-50" : undefined}>
+              <TelegramPreview preview={preview} />
+            </div>
+          ) : (
+            !previewError && <p className="text-xs text-gray-400 italic">Rendering the latest post…</p>
+          )}
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,90 @@
+import { useEffect, useRef, useState } from "react";
+
+export interface SyncRunResult {
+  message: string;
+  synced: number;
+  updated?: number;
+  removed?: number;
+  failed?: number;
+  deferred?: number;
+}
+
+export type SyncEvent = { id: number; at: string; runId: string | null } & (
+  | { type: "run_started" }
+  | { type: "fetched"; source: string; count: number }
+  | { type: "source_failed"; source: string; error: string }
+  | { type: "processing"; postId: string; title: string }
+  | { type: "held"; postId: string; title: string; until: string }
+  | { type: "extracted"; postId: string; title: string; fields: Record<string, string> }
+  | { type: "queued"; postId: string; title: string; destinations: number }
+  | { type: "sending"; postId: string; title: string; destination: string; attempt: number }
+  | { type: "sent"; postId: string; title: string; destination: string }
+  | { type: "failed" | "retry" | "skipped"; postId: string; title: string; destination: string; error: string }
+  | { type: "run_finished"; result: SyncRunResult }
+  | { type: "run_failed"; error: string }
+);
+
+// Called with null whenever the stream (re)connects, since events may have
+// been missed while it was down.
+type Listener = (event: SyncEvent | null) => void;
+
+const listeners = new Set<Listener>();
+let source: EventSource | null = null;
+
+// EventSource reconnects by itself after an error; until it does, the
+// dashboard has to poll for what it misses
+let connected = false;
+const connectionListeners = new Set<(connected: boolean) => void>();
+
+const setConnected = (value: boolean) => {
+  if (connected === value) return;
+  connected = value;
+  connectionListeners.forEach((listener) => listener(value));
+};
+
+// One EventSource for the whole dashboard, open while anything listens
+const connect = () => {
+  source = new EventSource("/api/sync/events");
+  source.onopen = () => {
+    setConnected(true);
+    listeners.forEach((listener) => listener(null));
+  };
+  source.onerror = () => setConnected(false);
+  source.onmessage = (message) => {
+    const event = JSON.parse(message.data) as SyncEvent;
+    listeners.forEach((listener) => listener(event));
+  };
+};
+
+export function useSyncEvents(listener: Listener) {
+  // Kept current so callers can pass a fresh closure on every render
+  const latest = useRef(listener);
+  latest.current = listener;
+
+  useEffect(() => {
+    const forward: Listener = (event) => latest.current(event);
+    listeners.add(forward);
+    if (!source) connect();
+    return () => {
+      listeners.delete(forward);
+      if (listeners.size === 0) {
+        source?.close();
+        source = null;
+        setConnected(false);
+      }
+    };
+  }, []);
+}
+
+export function useSyncStreamConnected() {
+  const [value, setValue] = useState(connected);
+
+  useEffect(() => {
+    connectionListeners.add(setValue);
+    setValue(connected);
+    return () => {
+      connectionListeners.delete(setValue);
+    };
+  }, []);
+  return value;
+}
@@ -0,0 +1,100 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import Database from "better-sqlite3";
+import { wrapSqlite } from "../lib/sqlite";
+import { getSchemaVersion, migrate, MIGRATIONS } from "../lib/migrations";
+
+const info = { backend: "sqlite", location: ":memory:", volatile: false, warning: null } as const;
+
+const columnsOf = (sqlite: any, table: string) =>
+  (sqlite.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>).map((column) => column.name);
+
+test("applies every migration to an empty database, once", async () => {
+  const sqlite = new Database(":memory:");
+  const db = wrapSqlite(sqlite, info);
+
+  await migrate(db);
+  await migrate(db);
+
+  const applied = sqlite.prepare("SELECT version FROM schema_migrations ORDER BY version").all() as Array<{ version: number }>;
+  assert.deepEqual(
+    applied.map(({ version }) => version),
+    MIGRATIONS.map(({ version }) => version)
+  );
+  assert.equal(await getSchemaVersion(db), MIGRATIONS[MIGRATIONS.length - 1].version);
+  assert.ok(columnsOf(sqlite, "backfill_jobs").includes("already_synced"));
+  assert.ok(columnsOf(sqlite, "tracked_links").length > 0);
+});
+
+test("upgrades a database from before destinations and history", async () => {
+  const sqlite = new Database(":memory:");
+  sqlite.exec(`
+    CREATE TABLE synced_posts (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      post_id TEXT UNIQUE NOT NULL,
+      message_id INTEGER,
+      synced_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+    CREATE UNIQUE INDEX idx_synced_post ON synced_posts (post_id);
+    CREATE TABLE outbox (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      post_id TEXT UNIQUE NOT NULL,
+      chat_id TEXT NOT NULL,
+      title TEXT,
+      payload TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending',
+      attempts INTEGER NOT NULL DEFAULT 0,
+      next_attempt_at TEXT NOT NULL
+    );
+    INSERT INTO synced_posts (post_id, message_id, synced_at) VALUES ('post-1', 11, '2024-01-01 10:00:00');
+    INSERT INTO synced_posts (post_id, message_id, synced_at) VALUES ('post-2', 12, '2024-01-02 10:00:00');
+    INSERT INTO outbox (post_id, chat_id, title, payload, status, next_attempt_at)
+      VALUES ('post-1', '@channel', 'First', '{"url":"https://example.com/1"}', 'sent', '2024-01-01T10:00:00Z');
+  `);
+  const db = wrapSqlite(sqlite, info);
+
+  await migrate(db);
+
+  assert.ok(columnsOf(sqlite, "synced_posts").includes("destination_id"));
+  assert.ok(columnsOf(sqlite, "outbox").includes("destination_id"));
+  const tables = sqlite.prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name LIKE '%_legacy'").all();
+  assert.deepEqual(tables, []);
+
+  const synced = sqlite.prepare("SELECT post_id, message_id, destination_id FROM synced_posts ORDER BY id").all();
+  assert.deepEqual(synced, [
+    { post_id: "post-1", message_id: 11, destination_id: null },
+    { post_id: "post-2", message_id: 12, destination_id: null },
+  ]);
+  const history = sqlite.prepare("SELECT post_id, title, url, status, message_id FROM delivery_history ORDER BY id").all();
+  assert.deepEqual(history, [
+    { post_id: "post-1", title: "First", url: "https://example.com/1", status: "sent", message_id: 11 },
+    { post_id: "post-2", title: null, url: null, status: "sent", message_id: 12 },
+  ]);
+});
+
+test("rolls a failed migration back and stops there", async () => {
+  const sqlite = new Database(":memory:");
+  const db = wrapSqlite(sqlite, info);
+  await migrate(db);
+  const latest = MIGRATIONS[MIGRATIONS.length - 1].version;
+  const failing = [
+    {
+      version: latest + 1,
+      name: "half done",
+      up: async () => {
+        await db.exec("CREATE TABLE half_done (id INTEGER)");
+        throw new Error("failed midway");
+      },
+    },
+    { version: latest + 2, name: "after", up: async () => db.exec("CREATE TABLE after_failure (id INTEGER)") },
+  ];
+  MIGRATIONS.push(...failing);
+  try {
+    await assert.rejects(migrate(db), /failed midway/);
+  } finally {
+    MIGRATIONS.splice(-failing.length);
+  }
+
+  assert.equal(await getSchemaVersion(db), latest);
+  assert.deepEqual(sqlite.prepare("SELECT name FROM sqlite_master WHERE name IN ('half_done', 'after_failure')").all(), []);
+});
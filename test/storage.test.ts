@@ -0,0 +1,142 @@
+import { after, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { Storage } from "../lib/storage";
+import { openSqliteStorage } from "../lib/sqlite";
+import { openJsonStorage } from "../lib/jsonstore";
+import { openLibsqlStorage } from "../lib/libsql";
+import { migrate } from "../lib/migrations";
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "storage-test-"));
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+// Each backend reopens the same file, so what one opening wrote can be read by the next
+const BACKENDS: Record<string, (file: string) => Promise<Storage>> = {
+  sqlite: async (file) => openSqliteStorage(`${file}.db`),
+  json: async (file) => openJsonStorage(`${file}.json`),
+  libsql: (file) => openLibsqlStorage(`file:${file}.libsql.db`),
+};
+
+const getValue = async (db: Storage, key: string) =>
+  ((await db.prepare("SELECT value FROM settings WHERE key = ?").get(key)) as { value: string } | undefined)?.value;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+for (const [backend, open] of Object.entries(BACKENDS)) {
+  describe(`${backend} storage`, () => {
+    let count = 0;
+    const openMigrated = async () => {
+      const file = path.join(dir, `${backend}-${++count}`);
+      const db = await open(file);
+      await migrate(db);
+      return { db, file };
+    };
+
+    test("keeps data and the schema version across a reopen", async () => {
+      const { db, file } = await openMigrated();
+      const { lastInsertRowid } = await db.prepare("INSERT INTO templates (name, body) VALUES (?, ?)").run("Plain", "{{title}}");
+      await db.prepare("INSERT INTO settings (key, value) VALUES (?, ?)").run("SYNC_MODE", "latest");
+
+      const reopened = await open(file);
+      const migrations = (await reopened.prepare("SELECT COUNT(*) as count FROM schema_migrations").get()) as { count: number };
+      await migrate(reopened);
+      const again = (await reopened.prepare("SELECT COUNT(*) as count FROM schema_migrations").get()) as { count: number };
+
+      assert.equal(again.count, migrations.count);
+      assert.equal(await getValue(reopened, "SYNC_MODE"), "latest");
+      assert.deepEqual(await reopened.prepare("SELECT id, name FROM templates").all(), [{ id: Number(lastInsertRowid), name: "Plain" }]);
+    });
+
+    test("reports the rows a statement changed", async () => {
+      const { db } = await openMigrated();
+      await db.exec("INSERT INTO settings (key, value) VALUES ('A', '1'); INSERT INTO settings (key, value) VALUES ('B', '1')");
+      const { changes } = await db.prepare("UPDATE settings SET value = ? WHERE value = ?").run("2", "1");
+      assert.equal(changes, 2);
+    });
+
+    test("commits a transaction, including nested ones, as one", async () => {
+      const { db } = await openMigrated();
+      const result = await db.transaction(async () => {
+        await db.prepare("INSERT INTO settings (key, value) VALUES ('OUTER', 'x')").run();
+        await db.transaction(async () => {
+          await db.prepare("INSERT INTO settings (key, value) VALUES ('INNER', 'x')").run();
+        });
+        return "done";
+      });
+
+      assert.equal(result, "done");
+      assert.equal(await getValue(db, "OUTER"), "x");
+      assert.equal(await getValue(db, "INNER"), "x");
+    });
+
+    test("rolls a transaction back when it throws", async () => {
+      const { db, file } = await openMigrated();
+      await assert.rejects(
+        db.transaction(async () => {
+          await db.prepare("INSERT INTO settings (key, value) VALUES ('KEPT', 'no')").run();
+          await db.transaction(async () => {
+            await db.prepare("INSERT INTO settings (key, value) VALUES ('NESTED', 'no')").run();
+          });
+          throw new Error("boom");
+        }),
+        /boom/
+      );
+
+      assert.equal(await getValue(db, "KEPT"), undefined);
+      assert.equal(await getValue(db, "NESTED"), undefined);
+      assert.equal(await getValue(await open(file), "KEPT"), undefined);
+    });
+
+    test("keeps queries from outside a transaction out of it", async () => {
+      const { db } = await openMigrated();
+      let finish!: () => void;
+      const finished = new Promise<void>((resolve) => (finish = resolve));
+      const transaction = db.transaction(async () => {
+        await db.prepare("INSERT INTO settings (key, value) VALUES ('INSIDE', 'x')").run();
+        await finished;
+        throw new Error("rolled back");
+      });
+      await sleep(20);
+
+      // Started while the transaction is open, but not by it
+      const outside = db.prepare("INSERT INTO settings (key, value) VALUES ('OUTSIDE', 'x')").run();
+      await sleep(20);
+      finish();
+      await assert.rejects(transaction, /rolled back/);
+      await outside;
+
+      assert.equal(await getValue(db, "INSIDE"), undefined);
+      assert.equal(await getValue(db, "OUTSIDE"), "x");
+    });
+
+    test("lets a query sent just before a transaction finish first", async () => {
+      const { db } = await openMigrated();
+      const before = db.prepare("INSERT INTO settings (key, value) VALUES ('BEFORE', 'x')").run();
+      const transaction = db.transaction(async () => {
+        await db.prepare("INSERT INTO settings (key, value) VALUES ('DURING', 'x')").run();
+      });
+
+      await Promise.all([before, transaction]);
+
+      assert.equal(await getValue(db, "BEFORE"), "x");
+      assert.equal(await getValue(db, "DURING"), "x");
+    });
+
+    test("runs one transaction at a time", async () => {
+      const { db } = await openMigrated();
+      await db.prepare("INSERT INTO settings (key, value) VALUES ('COUNTER', '0')").run();
+      const increment = () =>
+        db.transaction(async () => {
+          const value = Number(await getValue(db, "COUNTER"));
+          await sleep(5);
+          await db.prepare("UPDATE settings SET value = ? WHERE key = 'COUNTER'").run(String(value + 1));
+        });
+
+      await Promise.all([increment(), increment(), increment()]);
+
+      assert.equal(await getValue(db, "COUNTER"), "3");
+    });
+  });
+}